@@ -0,0 +1,24 @@
+// scripts/forms-env-report.ts
+// Print, per registry form, every env key it depends on and whether it
+// resolved (loads .env* the same way `next dev` / `next start` do).
+// Usage: npm run forms:env [-- --json]
+import { loadEnvConfig } from "@next/env";
+import { listFormEnvReports } from "../src/lib/formsRegistry";
+import { formatFormEnvReports } from "../src/lib/formsEnvReport";
+
+loadEnvConfig(process.cwd());
+
+const reports = listFormEnvReports();
+if (process.argv.includes("--json")) {
+  console.log(JSON.stringify(reports, null, 2));
+} else {
+  console.log(formatFormEnvReports(reports));
+  const bad = reports.filter((r) => !r.ok);
+  console.log(
+    bad.length
+      ? `\n✖ ${bad.length} of ${reports.length} forms have unresolved env keys`
+      : `\n✔ all ${reports.length} forms fully resolved`
+  );
+}
+
+process.exit(reports.every((r) => r.ok) ? 0 : 1);
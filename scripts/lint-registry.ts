@@ -0,0 +1,33 @@
+// scripts/lint-registry.ts
+// Lint the forms registry and report every problem at once.
+// Usage: npm run registry:lint [-- path/to/registry.json]
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  validateRegistry,
+  formatRegistryIssues,
+} from "../src/lib/registrySchema";
+
+const file = path.resolve(
+  process.argv[2] ?? path.join(__dirname, "../src/app/forms/registry.json")
+);
+
+let raw: unknown;
+try {
+  raw = JSON.parse(readFileSync(file, "utf8"));
+} catch (e) {
+  console.error(`✖ Could not read ${file}: ${(e as Error).message}`);
+  process.exit(1);
+}
+
+const issues = validateRegistry(raw);
+if (issues.length) {
+  console.error(
+    `✖ ${file}: ${issues.length} problem${issues.length === 1 ? "" : "s"}\n` +
+      formatRegistryIssues(issues)
+  );
+  process.exit(1);
+}
+
+const forms = (raw as { forms: unknown[] }).forms.length;
+console.log(`✔ ${file}: ${forms} forms, no problems`);
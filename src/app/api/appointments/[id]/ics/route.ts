@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveBookingDuration } from "@/lib/bookingDuration";
+import { loadManagedBooking } from "@/lib/manageBooking";
+import { lcGetContact } from "@/lib/leadconnector";
+import { withRateLimit } from "@/lib/rateLimit";
+import {
+  bookingCalendarEvent,
+  bookingDescription,
+  buildIcs,
+} from "@/lib/calendarInvite";
+
+export const runtime = "nodejs";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// GET /api/appointments/<id>/ics?token=<manage token>
+// The manage-booking token authorizes the download, so appointment ids alone
+// don't expose anyone's booking. Times come from LeadConnector, so the file
+// reflects reschedules.
+async function handler(req: NextRequest, { params }: Ctx) {
+  const { id } = await params;
+  const link = req.nextUrl.searchParams.get("token") ?? "";
+  try {
+    const managed = await loadManagedBooking(link);
+    if (!managed.ok)
+      return NextResponse.json(managed, { status: managed.status });
+    if (managed.token.appointmentId !== id)
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "link_invalid",
+          message: "This booking link is not valid.",
+        },
+        { status: 404 }
+      );
+
+    const { form, booking, token, appointment } = managed;
+    const tz =
+      booking.timezone ||
+      process.env.BOOKING_TIMEZONE_DEFAULT ||
+      "America/New_York";
+    const startMs = Date.parse(appointment.startTime ?? token.startISO);
+    let endMs = Date.parse(appointment.endTime ?? "");
+    if (isNaN(endMs) || endMs <= startMs) {
+      const { durationMinutes } = await resolveBookingDuration(booking);
+      endMs = startMs + durationMinutes * 60 * 1000;
+    }
+
+    // Answers live on the contact's custom fields; the file works without
+    let customFields: { id: string; value?: unknown }[] = [];
+    try {
+      customFields = (await lcGetContact(token.contactId)).customFields ?? [];
+    } catch (e) {
+      console.warn("[ics] contact lookup failed:", (e as Error).message);
+    }
+    const manageUrl = `${req.nextUrl.origin}/booking/${link}`;
+
+    const ics = buildIcs(
+      bookingCalendarEvent({
+        appointmentId: id,
+        form,
+        startISO: new Date(startMs).toISOString(),
+        endISO: new Date(endMs).toISOString(),
+        timezone: tz,
+        description: bookingDescription(form, customFields, manageUrl),
+        url: manageUrl,
+        cancelled: managed.cancelled,
+      })
+    );
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="appointment.ics"',
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    const err = e as { status?: number; message?: string };
+    console.error("[ics] failed:", e);
+    return NextResponse.json(
+      { ok: false, message: err?.message || "Server error" },
+      { status: err?.status || 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit("booking", handler);
@@ -1,26 +1,50 @@
 import { NextRequest, NextResponse } from "next/server";
 import { validateEmail, validatePhone } from "@/lib/validate";
-import { getFormBySlug } from "@/lib/formsRegistry";
+import { getFormBySlug, type FormConfigResolved } from "@/lib/formsRegistry";
 import {
-  lcUpsertContact,
-  lcCreateContact,
-  lcUpdateContact,
-  lcGetContactsByQuery,
-  toE164FromNational,
-  pickContactId,
+  lcAddContactTags,
   lcCreateAppointment,
+  lcGetContact,
   addContactToWorkflow,
 } from "@/lib/leadconnector";
-import { resolveOptionLabel } from "@/lib/options";
-import { isWeekendISO, isSameDayISO } from "@/lib/time";
-import { getRecaptchaEnabled, getRecaptchaSlugs } from "@/lib/env";
-import { verifyRecaptchaV2 } from "@/lib/recaptcha";
+import { syncContact, type ContactSyncResult } from "@/lib/contactSync";
+import { checkSlot } from "@/lib/bookingRules";
+import { isValidTimeZone } from "@/lib/time";
+import { enforceCaptcha } from "@/lib/captcha";
+import { peekJson, withRateLimit } from "@/lib/rateLimit";
+import {
+  getIdempotencyStore,
+  withIdempotency,
+  type IdempotencyRecord,
+} from "@/lib/idempotency";
+import { resolveBookingDuration } from "@/lib/bookingDuration";
+import { invalidateFreeSlots } from "@/lib/freeSlots";
+import {
+  assignCalendar,
+  cachedAlternativesOnCalendars,
+  matchingCalendars,
+  onCalendar,
+  recordAssignment,
+  verifySlotOnCalendars,
+} from "@/lib/bookingCalendars";
+import { getSlotHoldStore, HOLD_ID_RE } from "@/lib/slotHolds";
+import { checkContactToken, issueBookingToken } from "@/lib/bookingToken";
+import { buildCustomFields } from "@/lib/contactSync";
+import {
+  bookingCalendarEvent,
+  bookingDescription,
+  bookingIcsPath,
+  calendarLinks,
+} from "@/lib/calendarInvite";
+import { scoreSubmission, type BotCheckPayload } from "@/lib/botScore";
 
 export const runtime = "nodejs";
 
 type AppointmentPayload = {
   formSlug: string;
-  contact: {
+  // Booking-first: the contact details. Contact-first (booking.order): the
+  // token /api/lead returned for the contact it already captured.
+  contact?: {
     firstName: string;
     lastName: string;
     email: string;
@@ -30,9 +54,139 @@ type AppointmentPayload = {
   answers?: Record<string, any>;
   timezone: string;
   startISO: string;
+  captchaToken?: string;
+  botCheck?: BotCheckPayload;
+  holdId?: string; // slot hold from the wizard (POST /api/availability/hold)
+  contactToken?: string;
+};
+
+type BookingContact = NonNullable<AppointmentPayload["contact"]>;
+
+const APPOINTMENT_BOOKED_TAG = "AppointmentBooked";
+
+type ContactChecks = {
+  errors: Record<string, string>;
+  emailR: Awaited<ReturnType<typeof validateEmail>>;
+  phoneR: Awaited<ReturnType<typeof validatePhone>>;
 };
 
-export async function POST(req: NextRequest) {
+async function checkContact(
+  form: FormConfigResolved,
+  contact: BookingContact
+): Promise<ContactChecks> {
+  const errors: Record<string, string> = {};
+  const emailR = await validateEmail(
+    contact.email,
+    undefined,
+    form.validation.email
+  );
+  if (emailR.valid === false) {
+    errors.email = emailR.reason || "email_invalid";
+  }
+
+  const phoneR = await validatePhone(
+    contact.phone,
+    contact.country,
+    form.validation.phone
+  );
+  if (phoneR.valid === false) {
+    errors.phone = phoneR.reason || "phone_invalid";
+  }
+  return { errors, emailR, phoneR };
+}
+
+type ResolvedContact = { contactId: string; sentCFs: number; title: string };
+
+// Booking-first: score, then find/create the contact and write CFs (shared
+// pipeline). A dropped bot booking never reaches the calendar.
+async function syncBookingContact(
+  form: FormConfigResolved,
+  body: AppointmentPayload,
+  { emailR, phoneR }: ContactChecks
+): Promise<ResolvedContact | NextResponse> {
+  const contact = body.contact as BookingContact;
+  const bot = scoreSubmission(
+    {
+      slug: form.slug,
+      check: body.botCheck,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      email: emailR,
+    },
+    form.bot
+  );
+  if (bot.action !== "pass")
+    console.warn(
+      `[bot] ${form.slug}: ${bot.action} score=${bot.score}`,
+      bot.signals
+    );
+  if (bot.action === "reject") return NextResponse.json({ ok: true });
+
+  const tags = [
+    ...(form.tags || []),
+    APPOINTMENT_BOOKED_TAG,
+    emailR.valid === null ? "EmailUnknown" : null,
+    phoneR.valid === null || phoneR.softPass ? "PhoneUnknown" : null,
+    bot.action === "tag" ? form.bot.tag : null,
+  ].filter(Boolean) as string[];
+
+  let sync: ContactSyncResult;
+  try {
+    sync = await syncContact({
+      form,
+      contact,
+      tags,
+      answers: body.answers,
+    });
+  } catch (e: unknown) {
+    const status =
+      typeof e === "object" && e !== null
+        ? (e as { status?: number }).status
+        : undefined;
+    if (status !== 502) throw e;
+    console.warn("[booking] no contactId after upsert/create/search", e);
+    return NextResponse.json(
+      {
+        ok: false,
+        message: "No contactId returned; cannot create appointment",
+      },
+      { status: 502 }
+    );
+  }
+  if (sync.warnings.length) {
+    console.warn("[booking] contact sync warnings:", sync.warnings);
+  }
+  const fullName = [contact.firstName, contact.lastName].join(" ").trim();
+  return {
+    contactId: sync.contactId,
+    sentCFs: sync.customFieldsWritten,
+    title: fullName || contact.email,
+  };
+}
+
+// Contact-first: /api/lead wrote the contact and its answers; mark the
+// booking and read the name for the appointment title. Neither is worth
+// failing the booking over.
+async function attachStartedContact(
+  contactId: string
+): Promise<ResolvedContact> {
+  let title = "";
+  const [tagged, contact] = await Promise.allSettled([
+    lcAddContactTags(contactId, [APPOINTMENT_BOOKED_TAG]),
+    lcGetContact(contactId),
+  ]);
+  if (tagged.status === "rejected")
+    console.warn("[booking] tagging failed:", tagged.reason?.message);
+  if (contact.status === "fulfilled") {
+    const { firstName, lastName, email } = contact.value;
+    title = [firstName, lastName].join(" ").trim() || email || "";
+  } else {
+    console.warn("[booking] contact lookup failed:", contact.reason?.message);
+  }
+  return { contactId, sentCFs: 0, title };
+}
+
+async function handlePost(req: NextRequest) {
   try {
     const envMissing = [
       "LC_PRIVATE_TOKEN",
@@ -59,14 +213,18 @@ export async function POST(req: NextRequest) {
     // Validate required fields
     const errors: Record<string, string> = {};
     if (!body.formSlug) errors.formSlug = "Form slug is required";
-    if (!body.contact?.firstName?.trim())
-      errors.firstName = "First name is required";
-    if (!body.contact?.lastName?.trim())
-      errors.lastName = "Last name is required";
-    if (!body.contact?.email?.trim()) errors.email = "Email is required";
-    if (!body.contact?.phone?.trim()) errors.phone = "Phone is required";
+    if (body.contactToken === undefined) {
+      if (!body.contact?.firstName?.trim())
+        errors.firstName = "First name is required";
+      if (!body.contact?.lastName?.trim())
+        errors.lastName = "Last name is required";
+      if (!body.contact?.email?.trim()) errors.email = "Email is required";
+      if (!body.contact?.phone?.trim()) errors.phone = "Phone is required";
+    }
     if (!body.startISO) errors.startISO = "Start time is required";
     if (!body.timezone) errors.timezone = "Timezone is required";
+    else if (!isValidTimeZone(body.timezone))
+      errors.timezone = "Timezone is invalid";
 
     if (Object.keys(errors).length > 0) {
       return NextResponse.json({ ok: false, errors }, { status: 422 });
@@ -81,43 +239,40 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Contact-first wizards (booking.order) captured the contact through
+    // /api/lead, captcha, validation and bot scoring included; its token
+    // stands in for all of that here
+    const started =
+      body.contactToken === undefined
+        ? null
+        : checkContactToken(body.contactToken, form.slug);
+    if (started && started.status !== "ok") {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "contact_token_invalid",
+          message:
+            started.status === "expired"
+              ? "Your details have expired. Please enter them again."
+              : "Please enter your details again.",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Calendar matching and the invite use what /api/lead saw, not what
+    // the client sends now
+    const answers =
+      started?.status === "ok" ? started.contact.answers : body.answers;
+
+    // Captcha before any provider or LeadConnector call
+    if (!started) {
+      const captchaError = await enforceCaptcha(req, form, body.captchaToken);
+      if (captchaError) return captchaError;
+    }
+
     // Validate booking configuration
     if (!form.booking?.enabled) {
-      // Optional: enforce reCAPTCHA for specific slugs
-      try {
-        const mustCaptcha =
-          getRecaptchaEnabled() && getRecaptchaSlugs().includes(form.slug);
-        if (mustCaptcha) {
-          const anyReq = req as any;
-          const ipHeader = (anyReq.headers?.get?.("x-forwarded-for") || "")
-            .split(",")[0]
-            .trim();
-          const ip = ipHeader || undefined;
-          const captchaToken = (body as any).captchaToken as string | undefined;
-          // debug removed
-          const check = await verifyRecaptchaV2(captchaToken || "", ip);
-          if (!check.ok) {
-            return NextResponse.json(
-              {
-                ok: false,
-                message: "Captcha verification failed",
-                reason: check.reason,
-              },
-              { status: 400 }
-            );
-          }
-        }
-      } catch (e) {
-        return NextResponse.json(
-          {
-            ok: false,
-            message: "Captcha verification failed",
-            reason: "exception",
-          },
-          { status: 400 }
-        );
-      }
-
       return NextResponse.json(
         { ok: false, message: "Booking not enabled for this form" },
         { status: 400 }
@@ -125,7 +280,7 @@ export async function POST(req: NextRequest) {
     }
 
     if (!form.booking?.calendarId) {
-      const envKey = (form as any).booking?.calendarIdEnv;
+      const envKey = form.booking?.calendarIdEnv;
       console.error(
         `[appointments] Missing calendar ID for form "${body.formSlug}". Expected env var: ${envKey}`
       );
@@ -139,150 +294,100 @@ export async function POST(req: NextRequest) {
     }
 
     // Server-side validation (only block on hard failures)
-    const emailR = await validateEmail(body.contact.email);
-    if (emailR.valid === false) {
-      errors.email = emailR.reason || "email_invalid";
-    }
-
-    const phoneR = await validatePhone(
-      body.contact.phone,
-      body.contact.country
-    );
-    if (phoneR.valid === false) {
-      errors.phone = phoneR.reason || "phone_invalid";
+    const checked = started
+      ? null
+      : await checkContact(form, body.contact as BookingContact);
+    if (checked && Object.keys(checked.errors).length > 0) {
+      return NextResponse.json(
+        { ok: false, errors: checked.errors },
+        { status: 422 }
+      );
     }
 
-    if (Object.keys(errors).length > 0) {
-      return NextResponse.json({ ok: false, errors }, { status: 422 });
+    // Duration from the form (registry or calendar slot length); the end time
+    // waits for the calendar assignment below
+    const { durationMinutes } = await resolveBookingDuration(form.booking);
+    const startTime = new Date(body.startISO);
+    if (isNaN(startTime.getTime())) {
+      return NextResponse.json(
+        { ok: false, errors: { startISO: "Start time is invalid" } },
+        { status: 422 }
+      );
     }
+    const startTimeIso = startTime.toISOString();
 
-    // debug removed
-
-    // --- 1) Build CFs array (labels) ---
-    const customFieldsArray: Array<{ id: string; value: string }> = [];
-    for (const field of form.sections?.flatMap((s: any) => s.fields) ?? []) {
-      if (!("mapCustomFieldId" in field) || !field.mapCustomFieldId) continue;
-      const key = field.id;
-      const raw = body.answers?.[key];
-      if (raw == null) continue;
-
-      let value = "";
-      if (Array.isArray(raw)) {
-        const labels = raw
-          .map((v: string) => resolveOptionLabel(v, field.options))
-          .filter(Boolean) as string[];
-        value = labels.join(", ");
-      } else if (typeof raw === "string") {
-        value = resolveOptionLabel(raw, field.options) ?? raw;
-      }
-      if (value.trim().length === 0) continue;
+    // Validate scheduling constraints (same rules /api/availability applies)
+    const tz =
+      form.booking?.timezone ||
+      process.env.BOOKING_TIMEZONE_DEFAULT ||
+      "America/New_York";
+    const slotCheck = checkSlot(startTime.getTime(), form.booking.rules, {
+      tz,
+      durationMinutes,
+      minLeadMinutes: form.booking.minLeadMinutes,
+    });
 
-      customFieldsArray.push({ id: field.mapCustomFieldId, value });
+    // Re-fetch that day's free slots: the client's startISO may be stale,
+    // and nothing is written to LeadConnector for a time that isn't free.
+    // Rejections carry the nearest bookable starts as `alternatives`; a
+    // rule break takes them from cached free slots only (none on a miss),
+    // so it never costs a free-slots fetch.
+    // Slots other visitors hold count as taken; the caller's own doesn't.
+    // Only calendars whose conditions the answers meet are considered.
+    const holdId =
+      body.holdId && HOLD_ID_RE.test(body.holdId) ? body.holdId : undefined;
+    const calendars = matchingCalendars(form.booking, answers);
+    if (!slotCheck.ok) {
+      const alternatives = await cachedAlternativesOnCalendars(
+        form.booking,
+        calendars,
+        startTime.getTime(),
+        tz,
+        holdId
+      );
+      return NextResponse.json(
+        {
+          ok: false,
+          status: 400,
+          error: "booking_rule",
+          rule: slotCheck.rule,
+          message: slotCheck.message,
+          alternatives,
+        },
+        { status: 400 }
+      );
     }
-    // debug removed
-
-    // --- 2) Base payload (no CFs) ---
-    const phoneE164 = toE164FromNational(
-      body.contact.phone,
-      body.contact.country || "US"
+    const verified = await verifySlotOnCalendars(
+      form.booking,
+      calendars,
+      startTime.getTime(),
+      tz,
+      holdId
     );
-    const tags = [
-      ...(form.tags || []),
-      "AppointmentBooked",
-      emailR.valid === null ? "EmailUnknown" : null,
-      phoneR.valid === null ? "PhoneUnknown" : null,
-    ].filter(Boolean) as string[];
-
-    const basePayload: any = {
-      locationId: form.locationId || process.env.LC_LOCATION_ID || "",
-      firstName: body.contact.firstName,
-      lastName: body.contact.lastName,
-      email: body.contact.email,
-      phone: phoneE164,
-      country: body.contact.country || "US",
-      tags,
-      source: form.slug,
-    };
-
-    // --- 3) Upsert payload (BEST-EFFORT includes CFs) ---
-    const upsertPayload = {
-      ...basePayload,
-      ...(customFieldsArray.length ? { customFields: customFieldsArray } : {}),
-    };
-
-    let contactId: string | undefined;
-    let rawUpsert: any;
-
-    try {
-      rawUpsert = await lcUpsertContact(upsertPayload);
-      contactId = pickContactId(rawUpsert);
-    } catch (err: any) {
-      if (err?.status === 404 || err?.status === 405) {
-        try {
-          const created = await lcCreateContact(basePayload);
-          contactId = pickContactId(created);
-        } catch (ce: any) {
-          const dupId =
-            ce?.details?.meta?.contactId ??
-            ce?.meta?.contactId ??
-            ce?.response?.data?.meta?.contactId;
-          if (!dupId) throw ce;
-          contactId = dupId;
-          // debug removed
-          await lcUpdateContact(dupId, basePayload);
-        }
-      } else {
-        throw err;
-      }
-    }
-
-    // --- 4) If still no id, LOOK IT UP by email then phone ---
-    if (!contactId) {
-      const locId = basePayload.locationId;
-      if (basePayload.email) {
-        try {
-          const found = await lcGetContactsByQuery(basePayload.email, locId);
-          contactId =
-            pickContactId(found?.contacts?.[0]) ?? found?.contacts?.[0]?.id;
-          // debug removed
-        } catch (e) {}
-      }
-      if (!contactId && phoneE164) {
-        try {
-          const found = await lcGetContactsByQuery(phoneE164, locId);
-          contactId =
-            pickContactId(found?.contacts?.[0]) ?? found?.contacts?.[0]?.id;
-          // debug removed
-        } catch (e) {}
-      }
-    }
-
-    if (!contactId) {
-      console.warn("[booking] no contactId after upsert/create/search", {
-        rawUpsert,
-      });
+    if (!verified.ok) {
       return NextResponse.json(
         {
           ok: false,
-          message: "No contactId returned; cannot create appointment",
+          status: 409,
+          error: "slot_taken",
+          message:
+            "This time slot is no longer available. Please select a different time.",
+          alternatives: verified.alternatives,
         },
-        { status: 502 }
+        { status: 409 }
       );
     }
 
-    // --- 5) Always PUT CFs once we have id (guarantee persistence) ---
-    let sentCFs = 0;
-    if (customFieldsArray.length) {
-      try {
-        await lcUpdateContact(contactId, { customFields: customFieldsArray });
-        sentCFs = customFieldsArray.length;
-        // debug removed
-      } catch (e) {
-        console.warn("[booking] failed to PUT customFields:", e);
-      }
-    }
+    // --- 1) The contact: the one /api/lead captured (contact-first), or
+    // found / created here with its CFs ---
+    const resolved =
+      started?.status === "ok"
+        ? await attachStartedContact(started.contact.contactId)
+        : await syncBookingContact(form, body, checked!);
+    if (resolved instanceof NextResponse) return resolved;
+    const { contactId, sentCFs } = resolved;
 
-    // --- 6) Create appointment ---
+    // --- 2) Create appointment ---
     const locationId = form.locationId || process.env.LC_LOCATION_ID;
     if (!locationId) {
       console.error("[booking] missing locationId for appointment creation", {
@@ -299,59 +404,31 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Calculate end time (assume 1 hour duration for now)
-    const startTime = new Date(body.startISO);
-    const endTime = new Date(startTime.getTime() + 60 * 60 * 1000); // +1 hour
-    const startTimeIso = startTime.toISOString();
-    const endTimeIso = endTime.toISOString();
-
-    // Validate scheduling constraints
-    const tz =
-      form.booking?.timezone ||
-      process.env.BOOKING_TIMEZONE_DEFAULT ||
-      "America/New_York";
-    const nowIso = new Date().toISOString();
-
-    if (isSameDayISO(startTimeIso, nowIso, tz)) {
-      return NextResponse.json(
-        {
-          ok: false,
-          status: 400,
-          message:
-            "Same-day bookings are not allowed. Please choose a time starting tomorrow.",
-        },
-        { status: 400 }
-      );
-    }
-
-    if (isWeekendISO(startTimeIso, tz)) {
-      return NextResponse.json(
-        {
-          ok: false,
-          status: 400,
-          message:
-            "Weekend bookings are not available. Please choose Monday–Friday.",
-        },
-        { status: 400 }
-      );
-    }
-
-    // Compute appointment title from contact name
-    const fullName = [
-      body.contact?.firstName || "",
-      body.contact?.lastName || "",
-    ]
-      .join(" ")
-      .trim();
-    const apptTitle = fullName || body.contact?.email || "Booking";
+    const apptTitle = resolved.title || "Booking";
 
     // debug removed
 
+    // Several calendars have the time free: booking.assignment picks one,
+    // and its own duration sets the end time (durationFromCalendar)
+    const assigned = await assignCalendar(form.booking, verified.owners, {
+      startMs: startTime.getTime(),
+      tz,
+      locationId,
+    });
+    const booking = onCalendar(form.booking, assigned);
+    const { durationMinutes: bookedMinutes } =
+      assigned.calendarId === form.booking.calendarId
+        ? { durationMinutes }
+        : await resolveBookingDuration(booking);
+    const endTimeIso = new Date(
+      startTime.getTime() + bookedMinutes * 60 * 1000
+    ).toISOString();
+
     let appointmentId: string;
     try {
       const appointment = await lcCreateAppointment({
         locationId,
-        calendarId: form.booking.calendarId,
+        calendarId: booking.calendarId,
         contactId,
         startTimeIso,
         endTimeIso,
@@ -399,6 +476,8 @@ export async function POST(req: NextRequest) {
         e?.message?.includes("slot") ||
         e?.message?.includes("taken")
       ) {
+        // our cached free slots still list it
+        await invalidateFreeSlots(booking.calendarId);
         return NextResponse.json(
           {
             ok: false,
@@ -413,8 +492,25 @@ export async function POST(req: NextRequest) {
       throw e;
     }
 
-    // --- 7) Add to workflow if configured ---
-    if (contactId && form.workflowId) {
+    // The appointment exists now: cached availability for this calendar is
+    // stale, round-robin moves on, and the wizard's hold can go (it may sit
+    // on another of the form's calendars)
+    await invalidateFreeSlots(booking.calendarId);
+    await recordAssignment(assigned);
+    if (holdId)
+      await Promise.all(
+        form.booking.calendars.map((cal) =>
+          getSlotHoldStore()
+            .release(cal.calendarId, holdId)
+            .catch((e) =>
+              console.warn("[booking] hold release failed:", e.message)
+            )
+        )
+      );
+
+    // --- 3) Add to workflow if configured (a contact-first lead was
+    // enrolled by /api/lead already) ---
+    if (contactId && form.workflowId && !started) {
       try {
         await addContactToWorkflow(
           contactId,
@@ -427,10 +523,38 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Signed link for the visitor to reschedule or cancel (/booking/<token>);
+    // the same token authorizes the calendar file
+    const manageToken = issueBookingToken({
+      appointmentId,
+      contactId,
+      formSlug: form.slug,
+      startISO: startTimeIso,
+      timezone: body.timezone,
+    });
+    const manageUrl = `/booking/${manageToken}`;
+    const calendar = calendarLinks(
+      bookingCalendarEvent({
+        appointmentId,
+        form,
+        startISO: startTimeIso,
+        endISO: endTimeIso,
+        timezone: tz,
+        description: bookingDescription(
+          form,
+          buildCustomFields(form, answers),
+          `${req.nextUrl.origin}${manageUrl}`
+        ),
+      }),
+      bookingIcsPath(appointmentId, manageToken)
+    );
+
     return NextResponse.json({
       ok: true,
       contactId,
       appointmentId,
+      manageUrl,
+      calendar,
       sentCFs,
     });
   } catch (e: any) {
@@ -450,3 +574,76 @@ export async function POST(req: NextRequest) {
     );
   }
 }
+
+// A contact token books once: the request claims its id (SET NX in the
+// idempotency store) and keeps the claim only when an appointment was made,
+// so a failed attempt (slot taken, rule break) can try another time. A
+// token that is bad or expired falls through to handlePost's own 401. Like
+// withIdempotency, an unreachable store lets the booking run unprotected.
+async function handlePostOnce(req: NextRequest) {
+  const b = await peekJson<AppointmentPayload>(req);
+  const check =
+    b.contactToken !== undefined && b.formSlug
+      ? checkContactToken(b.contactToken, b.formSlug)
+      : null;
+  if (check?.status !== "ok") return handlePost(req);
+
+  const store = getIdempotencyStore();
+  const key = `contact-token:${check.contact.id}`;
+  const ttlMs = Math.max(check.contact.expiresAt - Date.now(), 1000);
+  let claimed: IdempotencyRecord | null;
+  try {
+    claimed = await store.claim(
+      key,
+      { state: "pending", fingerprint: key },
+      ttlMs
+    );
+  } catch (e) {
+    console.warn("[booking] contact token claim failed:", (e as Error).message);
+    return handlePost(req);
+  }
+  if (claimed)
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "contact_token_used",
+        message:
+          claimed.state === "done"
+            ? "This appointment is already booked. Please start again to book another."
+            : "Your booking is already being processed.",
+      },
+      { status: 409 }
+    );
+
+  let res: Response;
+  try {
+    res = await handlePost(req);
+  } catch (e) {
+    await store.delete(key).catch(() => {});
+    throw e;
+  }
+  try {
+    if (res.ok)
+      await store.put(
+        key,
+        { state: "done", fingerprint: key, status: res.status, body: "" },
+        ttlMs
+      );
+    else await store.delete(key);
+  } catch (e) {
+    console.warn("[booking] contact token store failed:", (e as Error).message);
+  }
+  return res;
+}
+
+export const POST = withRateLimit(
+  "appointments",
+  withIdempotency("appointments", handlePostOnce),
+  async (req) => {
+    const b = await peekJson<AppointmentPayload>(req);
+    return {
+      formSlug: b.formSlug,
+      identities: [b.contact?.email, b.contact?.phone],
+    };
+  }
+);
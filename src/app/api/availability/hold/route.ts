@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFormBySlug } from "@/lib/formsRegistry";
+import { checkSlot } from "@/lib/bookingRules";
+import { resolveBookingDuration } from "@/lib/bookingDuration";
+import {
+  assignCalendar,
+  matchingCalendars,
+  verifySlotOnCalendars,
+  type BookingAnswers,
+} from "@/lib/bookingCalendars";
+import type { BookingConfig } from "@/lib/formsRegistry";
+import { peekJson, withRateLimit } from "@/lib/rateLimit";
+import { getSlotHoldStore, HOLD_ID_RE, SLOT_HOLD_MS } from "@/lib/slotHolds";
+
+export const runtime = "nodejs";
+
+type HoldPayload = {
+  formSlug: string;
+  holdId: string;
+  startISO?: string; // POST only
+  answers?: BookingAnswers; // POST only; narrows the form's calendars
+};
+
+function fail(status: number, error: string, message: string) {
+  return NextResponse.json({ ok: false, error, message }, { status });
+}
+
+// Shared body parsing + form lookup for POST and DELETE
+async function readHold(req: NextRequest) {
+  let body: HoldPayload;
+  try {
+    body = await req.json();
+  } catch {
+    return { error: fail(400, "invalid_json", "Invalid JSON") };
+  }
+  if (!body?.formSlug || !HOLD_ID_RE.test(String(body.holdId ?? "")))
+    return {
+      error: fail(
+        400,
+        "invalid_hold",
+        "formSlug and holdId (8-128 letters, digits, - or _) are required."
+      ),
+    };
+  const form = getFormBySlug(body.formSlug);
+  const booking = form?.booking;
+  if (!form || !booking?.enabled || !booking.calendarId)
+    return {
+      error: fail(
+        404,
+        "booking_not_found",
+        "Booking not enabled for this form"
+      ),
+    };
+  return { body, booking };
+}
+
+// A session holds one slot on one calendar; drop it everywhere else
+async function releaseElsewhere(
+  booking: BookingConfig,
+  holdId: string,
+  keepCalendarId?: string
+) {
+  await Promise.all(
+    booking.calendars
+      .filter((cal) => cal.calendarId !== keepCalendarId)
+      .map((cal) =>
+        getSlotHoldStore()
+          .release(cal.calendarId, holdId)
+          .catch((e) =>
+            console.warn("[hold] release failed:", (e as Error).message)
+          )
+      )
+  );
+}
+
+// Hold (or move / refresh) the visitor's slot for SLOT_HOLD_MINUTES
+async function handlePost(req: NextRequest) {
+  const read = await readHold(req);
+  if (read.error) return read.error;
+  const { body, booking } = read;
+
+  const startMs = Date.parse(body.startISO ?? "");
+  if (isNaN(startMs))
+    return fail(422, "invalid_start", "startISO must be a valid time.");
+
+  const tz =
+    booking.timezone ||
+    process.env.BOOKING_TIMEZONE_DEFAULT ||
+    "America/New_York";
+  const { durationMinutes } = await resolveBookingDuration(booking);
+  const rule = checkSlot(startMs, booking.rules, {
+    tz,
+    durationMinutes,
+    minLeadMinutes: booking.minLeadMinutes,
+  });
+  if (!rule.ok)
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "booking_rule",
+        rule: rule.rule,
+        message: rule.message,
+      },
+      { status: 400 }
+    );
+
+  const verified = await verifySlotOnCalendars(
+    booking,
+    matchingCalendars(booking, body.answers),
+    startMs,
+    tz,
+    body.holdId
+  );
+  if (!verified.ok)
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "slot_taken",
+        message:
+          "This time slot is no longer available. Please select a different time.",
+        alternatives: verified.alternatives,
+      },
+      { status: 409 }
+    );
+
+  // Hold on the calendar round-robin would pick; /api/appointments
+  // assigns again with the final answers
+  const calendar = await assignCalendar(booking, verified.owners, {
+    startMs,
+    tz,
+  });
+  let held: boolean;
+  try {
+    held = await getSlotHoldStore().acquire(
+      calendar.calendarId,
+      startMs,
+      body.holdId,
+      SLOT_HOLD_MS
+    );
+  } catch (e) {
+    // Fail open: booking still works, just without the reservation
+    console.warn("[hold] store error:", (e as Error).message);
+    return NextResponse.json({ ok: true, held: false });
+  }
+  if (!held)
+    return fail(
+      409,
+      "slot_held",
+      "Someone else is booking this time right now. Please select a different time."
+    );
+  await releaseElsewhere(booking, body.holdId, calendar.calendarId);
+
+  return NextResponse.json({
+    ok: true,
+    held: true,
+    holdId: body.holdId,
+    startISO: new Date(startMs).toISOString(),
+    expiresAt: new Date(Date.now() + SLOT_HOLD_MS).toISOString(),
+  });
+}
+
+// Release whatever the visitor holds (e.g. they went back to the picker)
+async function handleDelete(req: NextRequest) {
+  const read = await readHold(req);
+  if (read.error) return read.error;
+  await releaseElsewhere(read.booking, read.body.holdId);
+  return NextResponse.json({ ok: true });
+}
+
+const identify = async (req: NextRequest) => ({
+  formSlug: (await peekJson<HoldPayload>(req)).formSlug,
+});
+
+export const POST = withRateLimit("hold", handlePost, identify);
+export const DELETE = withRateLimit("hold", handleDelete, identify);
@@ -1,35 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
-import { lcGetFreeSlots } from "@/lib/leadconnector";
 import { getFormBySlug } from "@/lib/formsRegistry";
-import { startOfTodayMs, nowEpoch, addMinutesEpoch } from "@/lib/time";
+import {
+  addDaysToKey,
+  isValidTimeZone,
+  startOfTodayMs,
+  zonedMidnightMs,
+} from "@/lib/time";
+import { withRateLimit } from "@/lib/rateLimit";
+import {
+  getMergedBookableSlots,
+  matchingCalendars,
+  type BookingAnswers,
+} from "@/lib/bookingCalendars";
+import { HOLD_ID_RE } from "@/lib/slotHolds";
 
 export const runtime = "nodejs";
 
-// helper: build YYYY-MM-DD in a TZ
-function ymdInTz(date: Date, tz: string): string {
-  const parts = new Intl.DateTimeFormat("en-CA", {
-    timeZone: tz,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).formatToParts(date);
-  const y = parts.find((p) => p.type === "year")!.value;
-  const m = parts.find((p) => p.type === "month")!.value;
-  const d = parts.find((p) => p.type === "day")!.value;
-  return `${y}-${m}-${d}`;
-}
-
-function isWeekendKey(ymd: string, tz: string): boolean {
-  // Make a Date from YYYY-MM-DD *interpreted in tz* by appending noon to avoid DST edges:
-  const localNoon = new Date(`${ymd}T12:00:00`);
-  const wk = new Intl.DateTimeFormat("en-US", {
-    timeZone: tz,
-    weekday: "short",
-  }).format(localNoon);
-  return wk === "Sat" || wk === "Sun";
+// `answers` is a JSON object of the answers known so far; anything else is
+// ignored (every calendar stays a candidate)
+function parseAnswers(raw: string | null): BookingAnswers | undefined {
+  if (!raw) return undefined;
+  try {
+    const v = JSON.parse(raw);
+    return v && typeof v === "object" && !Array.isArray(v) ? v : undefined;
+  } catch {
+    return undefined;
+  }
 }
 
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   try {
     // Check required environment variables
     if (!process.env.LC_PRIVATE_TOKEN || !process.env.LC_BASE_URL) {
@@ -48,6 +47,13 @@ export async function GET(req: NextRequest) {
     const start = searchParams.get("start");
     const end = searchParams.get("end");
     const tz = searchParams.get("tz");
+    // the visitor's own slot hold stays visible to them (see slotHolds.ts)
+    const hold = searchParams.get("hold");
+    const holdId = hold && HOLD_ID_RE.test(hold) ? hold : undefined;
+    // answers narrow the form's calendars; `calendar` pins one by its
+    // registry id (rescheduling stays on the appointment's calendar)
+    const answers = parseAnswers(searchParams.get("answers"));
+    const pinned = searchParams.get("calendar");
 
     // Validate required parameters
     if (!slug) {
@@ -69,7 +75,7 @@ export async function GET(req: NextRequest) {
     }
 
     if (!form.booking?.calendarId) {
-      const envKey = (form as any).booking?.calendarIdEnv;
+      const envKey = form.booking?.calendarIdEnv;
       console.error("[availability] missing calendar ID", {
         slug,
         envKey,
@@ -82,21 +88,36 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    // The visitor's zone (BookingWizard's switcher): groups dates and labels
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { error: `Unknown timezone "${tz}"` },
+        { status: 400 }
+      );
+    }
     const timezone =
       tz || process.env.BOOKING_TIMEZONE_DEFAULT || "America/New_York";
-    const calendarId = form.booking.calendarId;
+    const calendars = pinned
+      ? form.booking.calendars.filter((c) => c.id === pinned)
+      : matchingCalendars(form.booking, answers);
+    if (pinned && !calendars.length) {
+      return NextResponse.json(
+        { error: `Unknown calendar "${pinned}"` },
+        { status: 400 }
+      );
+    }
 
     // Parse dates and convert to epoch milliseconds
     let parsedStartMs: number | undefined;
     let parsedEndMs: number | undefined;
 
     if (start && end) {
-      // Parse provided dates (ISO YYYY-MM-DD or epoch ms)
+      // Parse provided dates (YYYY-MM-DD as whole days in tz, or epoch ms)
       const startDate = start.includes("-")
-        ? new Date(start + "T00:00:00")
+        ? new Date(zonedMidnightMs(start, timezone))
         : new Date(parseInt(start));
       const endDate = end.includes("-")
-        ? new Date(end + "T23:59:59")
+        ? new Date(zonedMidnightMs(addDaysToKey(end, 1), timezone) - 1)
         : new Date(parseInt(end));
 
       if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
@@ -112,11 +133,30 @@ export async function GET(req: NextRequest) {
       parsedEndMs = endDate.getTime();
     }
 
-    // clamp start to tomorrow 00:00 in tz
+    // clamp start to tomorrow 00:00 in tz (now, when same-day is allowed)
+    const { rules } = form.booking;
     const todayMs = startOfTodayMs(timezone);
     const tomorrowMs = todayMs + 24 * 60 * 60 * 1000;
-    const startMs = Math.max(parsedStartMs ?? 0, tomorrowMs);
-    let endMs = parsedEndMs ?? startMs + 14 * 24 * 60 * 60 * 1000;
+    const earliestMs = rules.allowSameDay ? Date.now() : tomorrowMs;
+    const startMs = Math.max(parsedStartMs ?? 0, earliestMs);
+    const requestedEndMs = parsedEndMs ?? startMs + 14 * 24 * 60 * 60 * 1000;
+    let endMs = requestedEndMs;
+    if (rules.maxDaysAhead !== null)
+      endMs = Math.min(
+        endMs,
+        todayMs + (rules.maxDaysAhead + 2) * 24 * 60 * 60 * 1000
+      );
+    // Cut by maxDaysAhead: nothing later is bookable, BookingStep stops paging
+    const endReached = endMs < requestedEndMs;
+    if (endMs <= startMs)
+      return NextResponse.json({ ok: true, slots: {}, endReached });
+    // No calendar takes these answers: nothing to page through
+    if (!calendars.length) {
+      console.warn("[availability] no calendar matches the answers", {
+        slug,
+      });
+      return NextResponse.json({ ok: true, slots: {}, endReached: true });
+    }
 
     // Guard: ensure we have valid milliseconds and range <= 31 days
     if (!Number.isInteger(startMs) || !Number.isInteger(endMs)) {
@@ -135,82 +175,22 @@ export async function GET(req: NextRequest) {
 
     // debug removed
 
-    // Fetch availability from LeadConnector
-    const rawResponse = await lcGetFreeSlots({
-      calendarId,
-      startDateMs: startMs,
-      endDateMs: endMs,
-      timezone,
-    });
-
-    // debug removed
-
-    // Filter by date key to hide today and weekends completely
-    const todayKey = ymdInTz(new Date(), timezone);
-    const filteredByDateKey: Record<string, { slots: string[] }> = {};
-    const traceId = rawResponse.traceId;
-
-    // Process the response and filter by date keys
-    let rawSlots: Record<string, any> = {};
-
-    if (Array.isArray(rawResponse.slots)) {
-      // Case A: Flat array format - group by date
-      const grouped: Record<string, string[]> = {};
-      rawResponse.slots.filter(Boolean).forEach((slotISO: string) => {
-        const date = new Date(slotISO);
-        const dateKey = ymdInTz(date, timezone);
-        if (!grouped[dateKey]) grouped[dateKey] = [];
-        grouped[dateKey].push(slotISO);
-      });
-      rawSlots = grouped;
-    } else if (rawResponse._dates_ && typeof rawResponse._dates_ === "object") {
-      // Case B: Nested under _dates_
-      rawSlots = rawResponse._dates_;
-    } else {
-      // Case C: Top-level date keys (YYYY-MM-DD format)
-      for (const [key, value] of Object.entries(rawResponse)) {
-        if (
-          /^\d{4}-\d{2}-\d{2}$/.test(key) &&
-          value &&
-          typeof value === "object" &&
-          Array.isArray(value.slots)
-        ) {
-          rawSlots[key] = value;
-        }
-      }
-    }
-
-    // Lead time cutoff in epoch
-    const lead = form.booking?.minLeadMinutes ?? 60;
-    const cutoffEpoch = addMinutesEpoch(nowEpoch(), lead);
-
-    // Filter by date key to hide today and weekends completely
-    let weekendTodayDropped = 0;
-    const slotsByDate: Record<string, { slots: string[] }> = {};
-    for (const [ymd, obj] of Object.entries(rawSlots)) {
-      if (ymd === todayKey || isWeekendKey(ymd, timezone)) {
-        weekendTodayDropped++;
-        continue;
-      }
-      const slots = Array.isArray(obj?.slots) ? obj.slots : [];
-      slotsByDate[ymd] = { slots };
-    }
-
-    // Apply cutoff filtering using epoch only
-    const filteredByCutoff: Record<string, { slots: string[] }> = {};
-    for (const [dateKey, obj] of Object.entries(slotsByDate)) {
-      const kept = (obj.slots ?? []).filter((iso: string) => {
-        const slotEpoch = Date.parse(iso);
-        return slotEpoch >= cutoffEpoch;
-      });
-      if (kept.length) filteredByCutoff[dateKey] = { slots: kept };
-    }
+    // Fetch, fit to the appointment length and apply the booking rules (per
+    // calendar, then merged); /api/appointments re-verifies the chosen slot
+    // with the same pipeline
+    const { slots, durationMinutes, traceId } = await getMergedBookableSlots(
+      form.booking,
+      calendars,
+      { startMs, endMs, timezone, holdId }
+    );
 
     // debug removed
 
     return NextResponse.json({
       ok: true,
-      slots: filteredByCutoff,
+      slots,
+      durationMinutes,
+      endReached,
       ...(traceId && { traceId }),
     });
   } catch (error: any) {
@@ -233,3 +213,7 @@ export async function GET(req: NextRequest) {
     );
   }
 }
+
+export const GET = withRateLimit("availability", handleGet, (req) => ({
+  formSlug: req.nextUrl.searchParams.get("slug"),
+}));
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkSlot } from "@/lib/bookingRules";
+import { resolveBookingDuration } from "@/lib/bookingDuration";
+import {
+  cachedAlternatives,
+  invalidateFreeSlots,
+  verifySlot,
+} from "@/lib/freeSlots";
+import { manageBookingPath } from "@/lib/bookingToken";
+import {
+  loadManagedBooking,
+  nextManageLinkVersion,
+} from "@/lib/manageBooking";
+import {
+  lcAddContactTags,
+  lcCancelAppointment,
+  lcUpdateAppointment,
+} from "@/lib/leadconnector";
+import { withRateLimit } from "@/lib/rateLimit";
+import { isValidTimeZone } from "@/lib/time";
+import {
+  BOOKING_CANCELLED_TAG,
+  BOOKING_RESCHEDULED_TAG,
+} from "@/lib/config";
+
+export const runtime = "nodejs";
+
+type Ctx = { params: Promise<{ token: string }> };
+
+type ReschedulePayload = {
+  startISO: string;
+  timezone?: string;
+};
+
+// Tagging is bookkeeping: the change already happened in the calendar
+async function tagContact(contactId: string, tag: string) {
+  try {
+    await lcAddContactTags(contactId, [tag]);
+  } catch (e) {
+    console.warn(`[booking] tagging ${tag} failed:`, (e as Error).message);
+  }
+}
+
+function errorResponse(e: unknown, action: string) {
+  const err = e as { status?: number; message?: string; details?: unknown };
+  console.error(`[booking] ${action} failed:`, e);
+  return NextResponse.json(
+    {
+      ok: false,
+      message: err?.message || "Server error",
+      details: err?.details ?? null,
+    },
+    { status: err?.status || 500 }
+  );
+}
+
+// Reschedule: same checks as a new booking, then move the event
+async function handlePatch(req: NextRequest, { params }: Ctx) {
+  try {
+    const managed = await loadManagedBooking((await params).token);
+    if (!managed.ok)
+      return NextResponse.json(managed, { status: managed.status });
+    if (managed.cancelled)
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "appointment_cancelled",
+          message: "This appointment was cancelled.",
+        },
+        { status: 409 }
+      );
+
+    let body: ReschedulePayload;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, message: "Invalid JSON" },
+        { status: 400 }
+      );
+    }
+    const startMs = Date.parse(body?.startISO ?? "");
+    if (isNaN(startMs))
+      return NextResponse.json(
+        { ok: false, errors: { startISO: "Start time is invalid" } },
+        { status: 422 }
+      );
+
+    const { booking, token } = managed;
+    const tz =
+      booking.timezone ||
+      process.env.BOOKING_TIMEZONE_DEFAULT ||
+      "America/New_York";
+    const { durationMinutes } = await resolveBookingDuration(booking);
+    const slotCheck = checkSlot(startMs, booking.rules, {
+      tz,
+      durationMinutes,
+      minLeadMinutes: booking.minLeadMinutes,
+    });
+    // A rule break takes alternatives from cached free slots only
+    if (!slotCheck.ok) {
+      const alternatives = await cachedAlternatives(booking, startMs, tz);
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "booking_rule",
+          rule: slotCheck.rule,
+          message: slotCheck.message,
+          alternatives,
+        },
+        { status: 400 }
+      );
+    }
+    const verified = await verifySlot(booking, startMs, tz);
+    if (!verified.ok)
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "slot_taken",
+          message:
+            "This time slot is no longer available. Please select a different time.",
+          alternatives: verified.alternatives,
+        },
+        { status: 409 }
+      );
+
+    const startISO = new Date(startMs).toISOString();
+    const endISO = new Date(
+      startMs + durationMinutes * 60 * 1000
+    ).toISOString();
+    await lcUpdateAppointment(token.appointmentId, {
+      startTimeIso: startISO,
+      endTimeIso: endISO,
+    });
+    // Retires this link (and any older one); the response carries a new one
+    const version = await nextManageLinkVersion(token.appointmentId, startMs);
+    await invalidateFreeSlots(booking.calendarId);
+    await tagContact(token.contactId, BOOKING_RESCHEDULED_TAG);
+
+    const timezone =
+      body.timezone && isValidTimeZone(body.timezone)
+        ? body.timezone
+        : token.timezone;
+    return NextResponse.json({
+      ok: true,
+      startISO,
+      endISO,
+      manageUrl: manageBookingPath({ ...token, startISO, timezone, version }),
+    });
+  } catch (e) {
+    return errorResponse(e, "reschedule");
+  }
+}
+
+async function handleDelete(_req: NextRequest, { params }: Ctx) {
+  try {
+    const managed = await loadManagedBooking((await params).token);
+    if (!managed.ok)
+      return NextResponse.json(managed, { status: managed.status });
+    if (managed.cancelled) return NextResponse.json({ ok: true });
+
+    await lcCancelAppointment(managed.token.appointmentId);
+    await invalidateFreeSlots(managed.booking.calendarId);
+    await tagContact(managed.token.contactId, BOOKING_CANCELLED_TAG);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return errorResponse(e, "cancel");
+  }
+}
+
+export const PATCH = withRateLimit("booking", handlePatch);
+export const DELETE = withRateLimit("booking", handleDelete);
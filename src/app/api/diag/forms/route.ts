@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { listFormEnvReports } from "@/lib/formsRegistry";
+import { getFormsStrictEnv } from "@/lib/env";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Env completeness per registry form. Reports key names and whether they
+// resolved, never the values themselves.
+export async function GET() {
+  // Only allow in development
+  if (process.env.NODE_ENV !== "development") {
+    return NextResponse.json(
+      { error: "Diagnostic endpoint only available in development" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const forms = listFormEnvReports();
+    return NextResponse.json({
+      ok: forms.every((f) => f.ok),
+      strict: getFormsStrictEnv(),
+      forms,
+    });
+  } catch (error) {
+    console.error("[diag/forms] error:", error);
+    const message = error instanceof Error ? error.message : "";
+    return NextResponse.json(
+      { ok: false, error: message || "Forms diagnostic failed" },
+      { status: 500 }
+    );
+  }
+}
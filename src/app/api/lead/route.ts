@@ -1,17 +1,15 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { validateEmail, validatePhone } from "@/lib/validate";
 import { validateHumanName } from "@/lib/name";
 import { getFormBySlug } from "@/lib/formsRegistry";
-import {
-  lcUpsertContact,
-  lcCreateContact,
-  lcUpdateContact,
-  lcGetContactsByQuery,
-  toE164FromNational,
-  pickContactId,
-  addContactToWorkflow,
-} from "@/lib/leadconnector";
-import { resolveOptionLabel } from "@/lib/options";
+import { buildCustomFields, buildContactPayload } from "@/lib/contactSync";
+import { enqueueLead, deliverEntry, processDueOutbox } from "@/lib/outbox";
+import { peekJson, withRateLimit } from "@/lib/rateLimit";
+import { withIdempotency } from "@/lib/idempotency";
+import { enforceCaptcha } from "@/lib/captcha";
+import { scoreSubmission, type BotCheckPayload } from "@/lib/botScore";
+import { issueContactToken } from "@/lib/bookingToken";
+import { BOOKING_STARTED_TAG } from "@/lib/config";
 
 export const runtime = "nodejs";
 
@@ -28,9 +26,12 @@ type LeadPayload = {
   customFields?: { id: string; value: string }[]; // Legacy support
   tags?: string[]; // Additional tags for forms-go
   meta?: Record<string, string | undefined>; // Hidden meta for forms-go
+  captchaToken?: string;
+  botCheck?: BotCheckPayload;
+  bookingStarted?: boolean; // contact-first booking wizard's lead step
 };
 
-export async function POST(req: NextRequest) {
+async function handlePost(req: NextRequest) {
   try {
     const envMissing = [
       "LC_PRIVATE_TOKEN",
@@ -62,6 +63,11 @@ export async function POST(req: NextRequest) {
         { status: 404 }
       );
     }
+
+    // Captcha before any provider or LeadConnector call
+    const captchaError = await enforceCaptcha(req, form, body.captchaToken);
+    if (captchaError) return captchaError;
+
     if (!body.firstName?.trim()) errors.firstName = "First name is required";
     if (!body.lastName?.trim()) errors.lastName = "Last name is required";
     if (!body.email?.trim()) errors.email = "Email is required";
@@ -74,12 +80,20 @@ export async function POST(req: NextRequest) {
       req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
       req.headers.get("x-real-ip") ||
       "";
-    const emailR = await validateEmail(body.email, clientIp);
+    const emailR = await validateEmail(
+      body.email,
+      clientIp,
+      form.validation.email
+    );
     if (emailR.valid === false) {
       errors.email = emailR.reason || "email_invalid";
     }
 
-    const phoneR = await validatePhone(body.phone, body.country);
+    const phoneR = await validatePhone(
+      body.phone,
+      body.country,
+      form.validation.phone
+    );
     if (phoneR.valid === false) {
       errors.phone = phoneR.reason || "phone_invalid";
     }
@@ -107,165 +121,90 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ ok: false, errors }, { status: 422 });
     }
 
-    // --- 1) Build CFs array (labels) ---
-    const customFieldsArray: Array<{ id: string; value: string }> = [];
-    for (const field of form.sections?.flatMap((s: any) => s.fields) ?? []) {
-      // only fields that map to a CF id
-      if (!("mapCustomFieldId" in field) || !field.mapCustomFieldId) continue;
-      const key = field.id;
-      const raw = body.answers?.[key];
-      if (raw == null) continue;
-
-      // normalize to labels
-      let value = "";
-      if (Array.isArray(raw)) {
-        const labels = raw
-          .map((v: string) => resolveOptionLabel(v, field.options))
-          .filter(Boolean) as string[];
-        value = labels.join(", ");
-      } else if (typeof raw === "string") {
-        value = resolveOptionLabel(raw, field.options) ?? raw; // fallback to raw to avoid dropping
-      }
-      if (value.trim().length === 0) continue;
-
-      customFieldsArray.push({ id: field.mapCustomFieldId, value });
-    }
+    // Bot scoring: drop silently (bots learn nothing) or tag for review
+    const bot = scoreSubmission(
+      {
+        slug: form.slug,
+        check: body.botCheck,
+        firstName: body.firstName,
+        lastName: body.lastName,
+        email: emailR,
+      },
+      form.bot
+    );
+    if (bot.action !== "pass")
+      console.warn(
+        `[bot] ${form.slug}: ${bot.action} score=${bot.score}`,
+        bot.signals
+      );
+    if (bot.action === "reject") return NextResponse.json({ ok: true });
 
-    // Handle meta fields from forms-go (store as custom fields if we have a Notes field)
-    if (body.meta && Object.keys(body.meta).length > 0) {
-      // Find a Notes custom field to store meta data
-      const notesField = form.sections
-        ?.flatMap((s: any) => s.fields)
-        ?.find(
-          (f: any) =>
-            f.mapCustomFieldId && f.label?.toLowerCase().includes("note")
-        );
-      if (notesField?.mapCustomFieldId) {
-        const metaString = Object.entries(body.meta)
-          .filter(([_, v]) => v)
-          .map(([k, v]) => `${k}: ${v}`)
-          .join("; ");
-        if (metaString) {
-          customFieldsArray.push({
-            id: notesField.mapCustomFieldId,
-            value: metaString,
-          });
-        }
-      }
-    }
-    // debug removed
+    // Contact-first booking wizards (booking.order) capture the lead before
+    // the time picker; the appointment step attaches to this contact
+    const startsBooking =
+      body.bookingStarted === true &&
+      !!form.booking?.enabled &&
+      form.booking.order === "contact-first";
 
-    // --- 2) Base payload (no CFs) ---
-    const phoneE164 = toE164FromNational(body.phone, body.country || "US");
+    // --- 1) Build CFs (labels) + base payload via the shared sync helpers ---
+    const customFieldsArray = buildCustomFields(form, body.answers, body.meta);
     const tags = [
       ...(form.tags || []),
       ...(body.tags || []), // Additional tags from forms-go
       body.consentMarketing ? "MarketingOptIn" : null,
       emailR.valid === null ? "EmailUnknown" : null,
-      phoneR.valid === null ? "PhoneUnknown" : null,
+      phoneR.valid === null || phoneR.softPass ? "PhoneUnknown" : null,
+      bot.action === "tag" ? form.bot.tag : null,
+      startsBooking ? BOOKING_STARTED_TAG : null,
     ].filter(Boolean) as string[];
-
-    const basePayload: any = {
-      locationId: form.locationId || process.env.LC_LOCATION_ID || "",
-      firstName: body.firstName,
-      lastName: body.lastName,
-      email: body.email,
-      phone: phoneE164,
-      country: body.country || "US",
-      tags,
-      source: form.slug,
-    };
-
-    // --- 3) Upsert payload (BEST-EFFORT includes CFs) ---
-    const upsertPayload = {
-      ...basePayload,
-      ...(customFieldsArray.length ? { customFields: customFieldsArray } : {}),
-    };
-
-    let contactId: string | undefined;
-    let rawUpsert: any;
-
-    try {
-      rawUpsert = await lcUpsertContact(upsertPayload);
-      contactId = pickContactId(rawUpsert);
-    } catch (err: any) {
-      // upsert not available → try create
-      if (err?.status === 404 || err?.status === 405) {
-        try {
-          const created = await lcCreateContact(basePayload);
-          contactId = pickContactId(created);
-        } catch (ce: any) {
-          // duplicate → extract meta.contactId and update base fields
-          const dupId =
-            ce?.details?.meta?.contactId ??
-            ce?.meta?.contactId ??
-            ce?.response?.data?.meta?.contactId;
-          if (!dupId) throw ce;
-          contactId = dupId;
-          // debug removed
-          await lcUpdateContact(dupId, basePayload);
-        }
-      } else {
-        throw err;
-      }
-    }
-
-    // --- 4) If still no id, LOOK IT UP by email then phone ---
-    if (!contactId) {
-      const locId = basePayload.locationId;
-      if (basePayload.email) {
-        try {
-          const found = await lcGetContactsByQuery(basePayload.email, locId);
-          contactId =
-            pickContactId(found?.contacts?.[0]) ?? found?.contacts?.[0]?.id;
-          // debug removed
-        } catch (e) {}
-      }
-      if (!contactId && phoneE164) {
-        try {
-          const found = await lcGetContactsByQuery(phoneE164, locId);
-          contactId =
-            pickContactId(found?.contacts?.[0]) ?? found?.contacts?.[0]?.id;
-          // debug removed
-        } catch (e) {}
-      }
-    }
-
-    // bail out loudly if we still don't have an id
-    if (!contactId) {
+    const basePayload = buildContactPayload(form, body, tags);
+
+    // --- 2) Record in the outbox BEFORE any upstream call ---
+    const entry = await enqueueLead(form.slug, {
+      locationId: basePayload.locationId,
+      basePayload,
+      customFields: customFieldsArray,
+      workflowId: form.workflowId || undefined,
+    });
+
+    // --- 3) Deliver inline; failed steps are retried later with backoff ---
+    const delivered = await deliverEntry(entry);
+    after(() => processDueOutbox().catch(() => {}));
+
+    if (delivered.steps.contact.status !== "done") {
+      // LeadConnector is down or rejected us: the lead is safely queued.
       return NextResponse.json(
         {
-          ok: false,
-          message: "No contactId returned; cannot write custom fields",
+          ok: true,
+          queued: true,
+          submissionId: delivered.id,
+          message: "Your request was received and will be processed shortly.",
         },
-        { status: 502 }
+        { status: 202 }
       );
     }
 
-    // --- 5) Always PUT CFs once we have id (guarantee persistence) ---
-    let sentCFs = 0;
-    if (customFieldsArray.length) {
-      try {
-        await lcUpdateContact(contactId, { customFields: customFieldsArray });
-        sentCFs = customFieldsArray.length;
-      } catch (e) {
-        // ignore failure
-      }
-    }
-
-    if (contactId && form.workflowId) {
-      try {
-        await addContactToWorkflow(
-          contactId,
-          form.workflowId,
-          form.locationId || ""
-        );
-      } catch (e) {
-        // ignore
-      }
-    }
-
-    return NextResponse.json({ ok: true, contactId, sentCFs });
+    const contactId = delivered.contactId;
+    const sentCFs =
+      delivered.steps.customFields.status === "done"
+        ? customFieldsArray.length
+        : 0;
+
+    return NextResponse.json({
+      ok: true,
+      contactId,
+      sentCFs,
+      submissionId: delivered.id,
+      // Presented to /api/appointments instead of the contact details
+      ...(startsBooking &&
+        contactId && {
+          contactToken: issueContactToken(
+            contactId,
+            form.slug,
+            body.answers ?? {}
+          ),
+        }),
+    });
   } catch (e: any) {
     const status = e?.status || 500;
     return NextResponse.json(
@@ -281,3 +220,12 @@ export async function POST(req: NextRequest) {
     );
   }
 }
+
+export const POST = withRateLimit(
+  "lead",
+  withIdempotency("lead", handlePost),
+  async (req) => {
+    const b = await peekJson<LeadPayload>(req);
+    return { formSlug: b.formSlug, identities: [b.email, b.phone] };
+  }
+);
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOutboxEntry, outboxStatusView } from "@/lib/outbox";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/outbox/:id → delivery status of a single lead submission
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const entry = await getOutboxEntry(id);
+  if (!entry) {
+    return NextResponse.json(
+      { ok: false, message: "Submission not found" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ ok: true, submission: outboxStatusView(entry) });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processDueOutbox } from "@/lib/outbox";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/outbox/process → retry due submissions (call from a cron job).
+// Requires `Authorization: Bearer $OUTBOX_CRON_SECRET`.
+export async function POST(req: NextRequest) {
+  const secret = process.env.OUTBOX_CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { ok: false, message: "OUTBOX_CRON_SECRET not configured" },
+      { status: 503 }
+    );
+  }
+  if (req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { ok: false, message: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const limit = Number(new URL(req.url).searchParams.get("limit") ?? 25);
+  const result = await processDueOutbox(
+    Number.isFinite(limit) && limit > 0 ? Math.min(limit, 100) : 25
+  );
+  return NextResponse.json({ ok: true, ...result });
+}
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { verifyRecaptchaV2 } from "@/lib/recaptcha";
+import { withRateLimit } from "@/lib/rateLimit";
 
-export async function POST(req: Request) {
+async function handlePost(req: Request) {
   try {
     const { token } = await req.json();
     const ipHeader = (req.headers.get("x-forwarded-for") || "")
@@ -20,3 +21,5 @@ export async function POST(req: Request) {
     );
   }
 }
+
+export const POST = withRateLimit("recaptcha", handlePost);
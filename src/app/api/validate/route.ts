@@ -1,46 +1,31 @@
-import { NextResponse } from "next/server";
+import { NextResponse, type NextRequest } from "next/server";
 import { validateEmail, validatePhone } from "@/lib/validate";
 import { validateHumanName } from "@/lib/name";
-import { rateLimit } from "@/lib/rateLimit";
+import { getClientIp, peekJson, withRateLimit } from "@/lib/rateLimit";
+import { getFormBySlug } from "@/lib/formsRegistry";
 
 export const runtime = "nodejs";
 
-function getClientIp(req: Request) {
-  // Try common proxy headers; fall back to empty string
-  const ip =
-    req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
-    req.headers.get("x-real-ip") ||
-    "";
-  return ip;
-}
-
-export async function POST(req: Request) {
+async function handlePost(req: NextRequest) {
   try {
-    // Rate limiting
-    const ip =
-      req.headers.get("x-forwarded-for") ||
-      req.headers.get("x-real-ip") ||
-      "unknown";
-    const rateLimitResult = await rateLimit(ip, 10, 60 * 1000); // 10 requests per minute
-
-    if (!rateLimitResult.allowed) {
-      return NextResponse.json(
-        { error: "Rate limit exceeded. Please try again later." },
-        { status: 429 }
-      );
-    }
-
-    const { email, phone, country, firstName, lastName } = await req
+    const { email, phone, country, firstName, lastName, formSlug } = await req
       .json()
       .catch(() => ({}));
 
+    // Per-form policy (role emails, line types...); unknown slug → defaults
+    const policy =
+      typeof formSlug === "string"
+        ? getFormBySlug(formSlug)?.validation
+        : undefined;
+
     // Get client IP for ZeroBounce
-    const clientIp = getClientIp(req);
+    const ip = getClientIp(req);
+    const clientIp = ip === "unknown" ? "" : ip;
 
     // Original email/phone validation (unchanged)
     let emailResp = undefined;
     if (typeof email === "string") {
-      const r = await validateEmail(email, clientIp);
+      const r = await validateEmail(email, clientIp, policy?.email);
       emailResp = {
         emailValid: r.valid,
         emailReason: r.reason,
@@ -51,7 +36,7 @@ export async function POST(req: Request) {
 
     let phoneResp = undefined;
     if (typeof phone === "string") {
-      const r = await validatePhone(phone, country);
+      const r = await validatePhone(phone, country, policy?.phone);
       phoneResp = {
         phoneValid: r.valid,
         phoneReason: r.reason,
@@ -94,3 +79,11 @@ export async function POST(req: Request) {
     );
   }
 }
+
+// Limited per IP and per email/phone being checked (RATE_LIMIT_VALIDATE)
+export const POST = withRateLimit("validate", handlePost, async (req) => {
+  const b = await peekJson<{ formSlug: string; email: string; phone: string }>(
+    req
+  );
+  return { formSlug: b.formSlug, identities: [b.email, b.phone] };
+});
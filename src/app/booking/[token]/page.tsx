@@ -0,0 +1,82 @@
+import ManageBooking from "@/components/ManageBooking";
+import { loadManagedBooking } from "@/lib/manageBooking";
+import Image from "next/image";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function Page({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const managed = await loadManagedBooking(token);
+
+  const businessTimezone = managed.ok
+    ? managed.booking.timezone ||
+      process.env.BOOKING_TIMEZONE_DEFAULT ||
+      "America/New_York"
+    : "";
+  // LeadConnector is the source of truth once the event was moved there
+  const lcStart = managed.ok ? managed.appointment.startTime : undefined;
+  const startISO =
+    lcStart && !isNaN(Date.parse(lcStart))
+      ? new Date(lcStart).toISOString()
+      : managed.ok
+        ? managed.token.startISO
+        : "";
+
+  return (
+    <main className="min-h-screen bg-slate-50">
+      <section className="py-6 md:py-8">
+        <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 space-y-6">
+          <section
+            aria-labelledby="manage-booking-title"
+            className="rounded-2xl border bg-white shadow-sm p-6 sm:p-8"
+          >
+            <Image
+              src="/MBTEK.avif"
+              alt="MBTEK"
+              width={160}
+              height={40}
+              priority
+            />
+            <h1
+              id="manage-booking-title"
+              className="mt-4 text-3xl font-semibold tracking-tight"
+            >
+              {managed.ok
+                ? managed.form.name || "Your appointment"
+                : "Manage your appointment"}
+            </h1>
+            {managed.ok && (
+              <p className="mt-3 text-gray-700 leading-relaxed">
+                Need a different time? Pick a new one below, or cancel if you
+                can no longer make it.
+              </p>
+            )}
+          </section>
+          <div className="bg-white rounded-2xl border shadow-sm p-6 sm:p-8">
+            {managed.ok ? (
+              <ManageBooking
+                token={token}
+                formSlug={managed.form.slug}
+                calendar={managed.calendar.id}
+                startISO={startISO}
+                timezone={managed.token.timezone || businessTimezone}
+                businessTimezone={businessTimezone}
+                minLeadMinutes={managed.booking.minLeadMinutes ?? 60}
+                cancelled={managed.cancelled}
+              />
+            ) : (
+              <p className="text-gray-700" role="alert">
+                {managed.message}
+              </p>
+            )}
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
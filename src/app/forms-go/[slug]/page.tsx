@@ -3,6 +3,8 @@ import { notFound } from "next/navigation";
 import { getFormBySlug } from "@/lib/formsRegistry";
 import LeadForm from "@/components/LeadForm";
 import { prefillFromSearchParams } from "@/lib/prefill";
+import { issueFormToken } from "@/lib/formToken";
+import { resolveFormCaptcha } from "@/lib/captchaConfig";
 
 type Props = {
   params: { slug: string };
@@ -12,6 +14,7 @@ type Props = {
 export default async function Page({ params, searchParams }: Props) {
   const form = await getFormBySlug(params.slug);
   if (!form) return notFound();
+  const formToken = issueFormToken(form.slug); // render time, for bot scoring
 
   // Prefill from query
   const sp = new URLSearchParams(
@@ -62,6 +65,8 @@ export default async function Page({ params, searchParams }: Props) {
           }}
           tagsOnSubmit={tagsOnSubmit}
           hiddenMeta={hiddenMeta}
+          formToken={formToken}
+          captcha={resolveFormCaptcha(form.slug, form.captcha)}
         />
       </div>
     </div>
@@ -3,6 +3,12 @@ import LeadForm from "@/components/LeadForm";
 import BookingWizard from "@/components/BookingWizard";
 import { getFormBySlug } from "@/lib/formsRegistry";
 import { prefillFromSearchParams } from "@/lib/prefill";
+import { issueFormToken } from "@/lib/formToken";
+import { resolveFormCaptcha } from "@/lib/captchaConfig";
+import {
+  formatDurationLabel,
+  resolveBookingDuration,
+} from "@/lib/bookingDuration";
 import Image from "next/image";
 
 export const dynamic = "force-dynamic";
@@ -29,6 +35,15 @@ export default async function Page({
   const form = getFormBySlug(slug);
 
   if (!form || !form.locationId) return notFound();
+  const formToken = issueFormToken(form.slug); // render time, for bot scoring
+  // Resolved here: the server-only slug list never reaches the client
+  const captcha = resolveFormCaptcha(form.slug, form.captcha);
+  // Meeting length badge; plain lead forms have no appointment to time
+  const durationLabel = form.booking?.enabled
+    ? formatDurationLabel(
+        (await resolveBookingDuration(form.booking)).durationMinutes
+      )
+    : null;
 
   return (
     <main className="min-h-screen bg-slate-50">
@@ -49,9 +64,11 @@ export default async function Page({
                   priority
                 />
               </div>
-              <span className="hidden sm:inline-flex items-center rounded-full bg-gray-50 px-3 py-1 text-xs font-medium text-gray-700 ring-1 ring-gray-200">
-                30 Mins
-              </span>
+              {durationLabel ? (
+                <span className="hidden sm:inline-flex items-center rounded-full bg-gray-50 px-3 py-1 text-xs font-medium text-gray-700 ring-1 ring-gray-200">
+                  {durationLabel}
+                </span>
+              ) : null}
             </div>
 
             {/* Title + meta (mobile badge is below title) */}
@@ -62,9 +79,11 @@ export default async function Page({
               >
                 {form.name || slug.replace(/-/g, " ")}
               </h1>
-              <span className="sm:hidden inline-flex mt-2 items-center rounded-full bg-gray-50 px-2.5 py-1 text-xs font-medium text-gray-700 ring-1 ring-gray-200">
-                30 Mins
-              </span>
+              {durationLabel ? (
+                <span className="sm:hidden inline-flex mt-2 items-center rounded-full bg-gray-50 px-2.5 py-1 text-xs font-medium text-gray-700 ring-1 ring-gray-200">
+                  {durationLabel}
+                </span>
+              ) : null}
               <p className="mt-3 text-gray-700 leading-relaxed">
                 Need a quote, have questions, or want to connect? Fill out the
                 form below, and we&apos;ll be happy to assist you.
@@ -76,16 +95,20 @@ export default async function Page({
             {form.booking?.enabled ? (
               <BookingWizard
                 formSlug={form.slug}
-                formConfig={form as any}
-                legal={(form as any).legal}
+                formConfig={form}
+                legal={form.legal}
                 prefill={prefill}
+                formToken={formToken}
+                captcha={captcha}
               />
             ) : (
               <LeadForm
                 formSlug={form.slug}
-                formConfig={form as any}
-                legal={(form as any).legal}
+                formConfig={form}
+                legal={form.legal}
                 prefill={prefill}
+                formToken={formToken}
+                captcha={captcha}
               />
             )}
           </div>
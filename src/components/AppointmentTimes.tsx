@@ -0,0 +1,43 @@
+"use client";
+/**
+ * AppointmentTimes prints a booked slot in the visitor's zone and, when the
+ * business keeps a different clock, in the business's zone underneath.
+ * Inherits text color from the surrounding summary.
+ */
+
+type AppointmentTimesProps = {
+  slotISO: string;
+  timezone: string; // visitor
+  businessTimezone: string;
+};
+
+const format = (iso: string, tz: string) =>
+  new Date(iso).toLocaleString("en-US", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: tz,
+    timeZoneName: "short",
+  });
+
+export default function AppointmentTimes({
+  slotISO,
+  timezone,
+  businessTimezone,
+}: AppointmentTimesProps) {
+  const visitor = format(slotISO, timezone);
+  const business = format(slotISO, businessTimezone);
+  return (
+    <>
+      {visitor}
+      {business !== visitor && (
+        <span className="block text-xs opacity-80">
+          Business time: {business}
+        </span>
+      )}
+    </>
+  );
+}
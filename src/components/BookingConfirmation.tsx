@@ -0,0 +1,75 @@
+"use client";
+/**
+ * BookingConfirmation is the "Appointment Details" box shown once a booking
+ * is made: the time (AppointmentTimes), the manage link and the "Add to
+ * calendar" links from /api/appointments. LeadForm shows it on booking-first
+ * wizards, BookingWizard on contact-first ones.
+ */
+
+import { Fragment } from "react";
+import type { CalendarLinks } from "@/lib/calendarInvite";
+import AppointmentTimes from "./AppointmentTimes";
+
+type BookingConfirmationProps = {
+  slotISO: string;
+  timezone: string;
+  businessTimezone: string;
+  manageUrl?: string;
+  calendar?: CalendarLinks;
+};
+
+export default function BookingConfirmation({
+  slotISO,
+  timezone,
+  businessTimezone,
+  manageUrl,
+  calendar,
+}: BookingConfirmationProps) {
+  return (
+    <div className="mt-4 p-4 bg-green-50 rounded-md">
+      <p className="text-sm text-green-800">
+        <strong>Appointment Details:</strong>
+      </p>
+      <p className="text-sm text-green-700 mt-1">
+        <AppointmentTimes
+          slotISO={slotISO}
+          timezone={timezone}
+          businessTimezone={businessTimezone}
+        />
+      </p>
+      {manageUrl ? (
+        <p className="text-sm mt-2">
+          <a href={manageUrl} className="font-medium text-green-800 underline">
+            Reschedule or cancel
+          </a>{" "}
+          <span className="text-green-700">
+            (bookmark this link to change your appointment later)
+          </span>
+        </p>
+      ) : null}
+      {calendar ? (
+        <p className="text-sm text-green-700 mt-2">
+          Add to calendar:{" "}
+          {[
+            ["Google", calendar.google],
+            ["Outlook.com", calendar.outlook],
+            ["Office 365", calendar.office365],
+            ["Apple / other (.ics)", calendar.ics],
+          ].map(([label, href], i) => (
+            <Fragment key={label}>
+              {i > 0 && " · "}
+              <a
+                href={href}
+                target={href.startsWith("/") ? undefined : "_blank"}
+                rel="noopener noreferrer"
+                className="font-medium text-green-800 underline"
+              >
+                {label}
+              </a>
+            </Fragment>
+          ))}
+        </p>
+      ) : null}
+    </div>
+  );
+}
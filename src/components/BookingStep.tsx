@@ -4,6 +4,8 @@
  *
  * Responsibilities:
  * - Fetches availability from /api/availability and renders ONLY the dates/slots provided by the API.
+ * - Pages through fixed-length date windows and prefetches the next one;
+ *   an empty window offers a "next available" jump.
  * - Applies epoch-based lead-time disabling in the UI as a secondary guard.
  * - Emits the selected ISO slot to its parent (BookingWizard).
  *
@@ -16,19 +18,32 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ChevronLeftIcon, ChevronRightIcon } from "@heroicons/react/24/outline";
 import {
+  addDaysToKey,
   addMinutesEpoch,
   nowEpoch,
   labelFromDateKey,
   labelFromSlotISO,
+  zonedParts,
 } from "@/lib/time";
 
 type ApiSlotsByDate = Record<string, { slots: string[] }>;
 
+type AvailabilityWindow = { slots: ApiSlotsByDate; endReached: boolean };
+
+// Visitors page through WINDOW_DAYS-day windows, one /api/availability
+// request each (the server trims ranges to 31 days and stops at the form's
+// maxDaysAhead). "Next available" searches at most MAX_SEARCH_WINDOWS ahead.
+const WINDOW_DAYS = 14;
+const MAX_SEARCH_WINDOWS = 8;
+
 type BookingStepProps = {
   formSlug: string;
   timezone: string;
   minLeadMinutes: number;
   onSelect: (slotISO: string) => void;
+  holdId?: string; // keeps the visitor's own held slot in the list
+  calendar?: string; // registry id: one of the form's calendars only
+  answers?: Record<string, string>; // known answers narrow the calendars
 };
 
 const BUTTON_BASE =
@@ -39,12 +54,19 @@ export default function BookingStep({
   timezone,
   minLeadMinutes,
   onSelect,
+  holdId,
+  calendar,
+  answers,
 }: BookingStepProps) {
   const [apiSlots, setApiSlots] = useState<ApiSlotsByDate>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeDateKey, setActiveDateKey] = useState<string | null>(null);
   const [selectedSlotISO, setSelectedSlotISO] = useState<string | null>(null);
+  const [windowIndex, setWindowIndex] = useState(0);
+  const [endReached, setEndReached] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [noneAhead, setNoneAhead] = useState(false);
 
   // Debounced availability fetching
   const fetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -54,59 +76,127 @@ export default function BookingStep({
     fetchTimer.current = setTimeout(cb, ms);
   };
 
+  // Window 0 starts today in the visitor's timezone
+  const todayKey = useMemo(
+    () => zonedParts(Date.now(), timezone).dateKey,
+    [timezone]
+  );
+  const windowRange = useCallback(
+    (i: number) => ({
+      startKey: addDaysToKey(todayKey, i * WINDOW_DAYS),
+      endKey: addDaysToKey(todayKey, (i + 1) * WINDOW_DAYS - 1),
+    }),
+    [todayKey]
+  );
+
+  // Compared by value: a new object with the same answers keeps the windows
+  const answersParam =
+    answers && Object.keys(answers).length ? JSON.stringify(answers) : "";
+
+  // Windows fetched (or in flight) for the current form/timezone/hold
+  const windows = useRef(new Map<number, Promise<AvailabilityWindow>>());
+
   const fetchAvailability = useCallback(
-    async (startDate: string, endDate: string) => {
-      if (!formSlug) return;
-
-      setLoading(true);
-      setError(null);
-
-      try {
-        const params = new URLSearchParams({
-          slug: formSlug,
-          start: startDate,
-          end: endDate,
-          tz: timezone,
-        });
-
-        const res = await fetch(`/api/availability?${params.toString()}`);
-        const data = await res.json();
-
-        if (!res.ok) {
-          // Show detailed error from server
-          const errorMessage =
-            data.detail?.message ||
-            data.error ||
-            "Failed to fetch availability";
-          throw new Error(errorMessage);
-        }
+    async (startDate: string, endDate: string): Promise<AvailabilityWindow> => {
+      const params = new URLSearchParams({
+        slug: formSlug,
+        start: startDate,
+        end: endDate,
+        tz: timezone,
+      });
+      if (holdId) params.set("hold", holdId);
+      if (calendar) params.set("calendar", calendar);
+      if (answersParam) params.set("answers", answersParam);
+
+      const res = await fetch(`/api/availability?${params.toString()}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        // Show detailed error from server
+        const errorMessage =
+          data.detail?.message || data.error || "Failed to fetch availability";
+        throw new Error(errorMessage);
+      }
+
+      // API returns object with date keys; keep this window's dates only
+      const slots: ApiSlotsByDate = {};
+      for (const [k, v] of Object.entries(
+        (data.slots || {}) as ApiSlotsByDate
+      ))
+        if (k >= startDate && k <= endDate) slots[k] = v;
+      return { slots, endReached: data.endReached === true };
+    },
+    [formSlug, timezone, holdId, calendar, answersParam]
+  );
 
-        // API returns object with date keys
-        const slotsByDate = (data.slots || {}) as ApiSlotsByDate;
-        setApiSlots(slotsByDate);
-      } catch (e: any) {
-        console.error("[BookingStep] availability error:", e);
-        setError(e.message || "Failed to load availability");
-      } finally {
-        setLoading(false);
+  const loadWindow = useCallback(
+    (i: number) => {
+      let p = windows.current.get(i);
+      if (!p) {
+        const { startKey, endKey } = windowRange(i);
+        p = fetchAvailability(startKey, endKey);
+        windows.current.set(i, p);
+        p.catch(() => windows.current.delete(i)); // retry on next visit
       }
+      return p;
     },
-    [formSlug, timezone]
+    [fetchAvailability, windowRange]
   );
 
-  // Fetch availability on mount (current month window)
+  // New form/timezone/hold: drop cached windows and start from today
   useEffect(() => {
-    const start = new Date();
-    start.setDate(1);
-    const end = new Date();
-    end.setMonth(end.getMonth() + 1);
-    end.setDate(0); // Last day of current month
-
-    const startStr = start.toISOString().split("T")[0];
-    const endStr = end.toISOString().split("T")[0];
+    windows.current = new Map();
+    setWindowIndex(0);
+  }, [loadWindow]);
 
-    debounce(() => fetchAvailability(startStr, endStr));
-  }, [fetchAvailability]);
+  // Show the current window, then prefetch the next one
+  useEffect(() => {
+    if (!formSlug) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setNoneAhead(false);
+    debounce(() => {
+      loadWindow(windowIndex)
+        .then((w) => {
+          if (cancelled) return;
+          setApiSlots(w.slots);
+          setEndReached(w.endReached);
+          if (!w.endReached) loadWindow(windowIndex + 1).catch(() => {});
+        })
+        .catch((e: Error) => {
+          if (cancelled) return;
+          console.error("[BookingStep] availability error:", e);
+          setError(e.message || "Failed to load availability");
+        })
+        .finally(() => !cancelled && setLoading(false));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [formSlug, windowIndex, loadWindow]);
+
+  // Walk forward to the first window with any dates
+  const jumpToNextAvailable = useCallback(async () => {
+    setSearching(true);
+    setNoneAhead(false);
+    try {
+      const last = windowIndex + MAX_SEARCH_WINDOWS;
+      for (let i = windowIndex + 1; i <= last; i++) {
+        const w = await loadWindow(i);
+        if (Object.keys(w.slots).length) {
+          setWindowIndex(i);
+          return;
+        }
+        if (w.endReached) break;
+      }
+      setNoneAhead(true);
+    } catch (e) {
+      setError((e as Error).message || "Failed to load availability");
+    } finally {
+      setSearching(false);
+    }
+  }, [windowIndex, loadWindow]);
 
   // Compute date keys strictly from API data
   const dateKeys = useMemo(() => {
@@ -157,10 +247,11 @@ export default function BookingStep({
     onSelect(iso);
   };
 
-  // Removed local month navigation; dates come strictly from API
-
   const formatDate = (dateStr: string) => labelFromDateKey(dateStr, timezone);
 
+  const { startKey, endKey } = windowRange(windowIndex);
+  const rangeLabel = `${formatDate(startKey)} – ${formatDate(endKey)}`;
+
   const formatTimeISO = (iso: string) => labelFromSlotISO(iso, timezone);
 
   const canContinue =
@@ -195,7 +286,29 @@ export default function BookingStep({
             <h3 className="text-sm font-medium text-gray-900">
               Available Dates
             </h3>
-            <div />
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => setWindowIndex((i) => Math.max(0, i - 1))}
+                disabled={windowIndex === 0 || loading}
+                aria-label="Previous dates"
+                className="p-1 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <ChevronLeftIcon className="h-5 w-5" />
+              </button>
+              <span className="text-xs text-gray-600 whitespace-nowrap">
+                {rangeLabel}
+              </span>
+              <button
+                type="button"
+                onClick={() => setWindowIndex((i) => i + 1)}
+                disabled={endReached || loading}
+                aria-label="Next dates"
+                className="p-1 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <ChevronRightIcon className="h-5 w-5" />
+              </button>
+            </div>
           </div>
 
           {loading ? (
@@ -208,9 +321,23 @@ export default function BookingStep({
               ))}
             </div>
           ) : dateKeys.length === 0 ? (
-            <div className="text-sm text-gray-500">
-              No available dates were returned by the API for this range. Try
-              another form, or verify calendar availability in LeadConnector.
+            <div className="space-y-3 text-sm text-gray-500">
+              <p>No available times between {rangeLabel}.</p>
+              {noneAhead || endReached ? (
+                <p>
+                  No availability in the coming weeks. Please check back
+                  later.
+                </p>
+              ) : (
+                <button
+                  type="button"
+                  onClick={jumpToNextAvailable}
+                  disabled={searching}
+                  className={`${BUTTON_BASE} border border-gray-300 bg-white text-gray-700 hover:bg-gray-50`}
+                >
+                  {searching ? "Searching…" : "Jump to next available"}
+                </button>
+              )}
             </div>
           ) : (
             <div className="space-y-2 max-h-64 overflow-y-auto">
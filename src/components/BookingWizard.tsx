@@ -5,6 +5,13 @@
  * Responsibilities:
  * - Step 1: Renders BookingStep (date/time selection) which fetches availability from /api/availability.
  * - Step 2: Renders LeadForm (contact details) and forwards the selected slot/timezone as prefill.
+ * - Times are shown in the visitor's zone (browser-detected unless prefilled), switchable
+ *   via TimezoneSelect; the step 2 summary also shows the business's time.
+ * - Continuing to step 2 holds the slot (POST /api/availability/hold) so other visitors
+ *   can't take it meanwhile; the hold is renewed while step 2 is open and released on Back.
+ * - `booking.order: "contact-first"` swaps the steps: LeadForm posts the lead to /api/lead
+ *   (tagged BookingStarted), then BookingStep offers times for its answers and booking
+ *   posts the returned contact token to /api/appointments.
  *
  * Notes:
  * - THIS COMPONENT DOES NOT CALL LEADCONNECTOR DIRECTLY.
@@ -12,11 +19,17 @@
  * - Source of truth for available dates/times is the server response consumed by BookingStep.
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import type { FormConfigResolved } from "@/lib/formsRegistry";
 import type { Prefill } from "@/lib/prefill";
+import type { CalendarLinks } from "@/lib/calendarInvite";
+import type { FormCaptchaConfig } from "@/lib/captchaConfig";
+import { detectTimeZone } from "@/lib/time";
+import AppointmentTimes from "./AppointmentTimes";
+import BookingConfirmation from "./BookingConfirmation";
 import BookingStep from "./BookingStep";
 import LeadForm from "./LeadForm";
+import TimezoneSelect from "./TimezoneSelect";
 
 type BookingWizardProps = {
   formSlug: string;
@@ -26,6 +39,40 @@ type BookingWizardProps = {
     terms?: { label: string; href: string };
   };
   prefill?: Prefill;
+  formToken?: string;
+  captcha?: FormCaptchaConfig | null; // resolved on the server page
+};
+
+const newHoldId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+type HoldResponse = {
+  ok: boolean;
+  error?: string;
+  message?: string;
+  expiresAt?: string;
+};
+
+type AppointmentResponse = {
+  ok: boolean;
+  error?: string;
+  message?: string;
+  alternatives?: string[];
+  appointmentId?: string;
+  manageUrl?: string;
+  calendar?: CalendarLinks;
+};
+
+// Contact-first: what /api/lead handed over for the booking step
+type CapturedLead = { contactToken: string; answers: Record<string, string> };
+
+type Booked = {
+  slotISO: string;
+  appointmentId?: string;
+  manageUrl?: string;
+  calendar?: CalendarLinks;
 };
 
 const BUTTON_BASE =
@@ -36,31 +83,188 @@ export default function BookingWizard({
   formConfig,
   legal,
   prefill,
+  formToken,
+  captcha,
 }: BookingWizardProps) {
   // Clean: removed dev marker logs
+  const contactFirst = formConfig.booking?.order === "contact-first";
   const [step, setStep] = useState<1 | 2>(1);
   const [selectedSlotISO, setSelectedSlotISO] = useState<string | null>(null);
+  const businessTimezone =
+    formConfig.booking?.timezone ||
+    process.env.BOOKING_TIMEZONE_DEFAULT ||
+    "America/New_York";
   const [timezone, setTimezone] = useState<string>(
-    prefill?.apptTz ||
-      formConfig.booking?.timezone ||
-      process.env.BOOKING_TIMEZONE_DEFAULT ||
-      "America/New_York"
+    prefill?.apptTz || businessTimezone
+  );
+
+  // Server render can't know the visitor's zone; switch once mounted
+  useEffect(() => {
+    if (prefill?.apptTz) return;
+    const detected = detectTimeZone();
+    if (detected) setTimezone(detected);
+  }, [prefill?.apptTz]);
+
+
+  // One hold id per wizard session (lib/slotHolds.ts)
+  const [holdId] = useState(newHoldId);
+  const [holdExpiresAt, setHoldExpiresAt] = useState<number | null>(null);
+  const [holding, setHolding] = useState(false);
+  const [holdError, setHoldError] = useState<string | null>(null);
+  const [pickerKey, setPickerKey] = useState(0);
+
+  const holdSlot = useCallback(
+    async (slotISO: string): Promise<HoldResponse | null> => {
+      try {
+        const res = await fetch("/api/availability/hold", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ formSlug, holdId, startISO: slotISO }),
+        });
+        return (await res.json()) as HoldResponse;
+      } catch {
+        return null; // network: go on unheld; /api/appointments re-verifies
+      }
+    },
+    [formSlug, holdId]
   );
 
+  const releaseHold = useCallback(() => {
+    setHoldExpiresAt(null);
+    fetch("/api/availability/hold", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ formSlug, holdId }),
+      keepalive: true,
+    }).catch(() => {});
+  }, [formSlug, holdId]);
+
   const handleSlotSelect = useCallback((slotISO: string) => {
     setSelectedSlotISO(slotISO);
+    setHoldError(null);
   }, []);
 
-  const handleContinue = useCallback(() => {
-    if (selectedSlotISO) {
-      setStep(2);
+  // Slots re-load in the new zone; the picked one may not be listed there
+  const handleTimezoneChange = useCallback((tz: string) => {
+    setTimezone(tz);
+    setSelectedSlotISO(null);
+    setHoldError(null);
+  }, []);
+
+  const handleContinue = useCallback(async () => {
+    if (!selectedSlotISO || holding) return;
+    setHolding(true);
+    const hold = await holdSlot(selectedSlotISO);
+    setHolding(false);
+    if (hold && !hold.ok && hold.error !== "rate_limited") {
+      // Taken or held by someone else: reload the picker without it
+      setHoldError(
+        hold.message ||
+          "This time is no longer available. Please pick another."
+      );
+      setSelectedSlotISO(null);
+      setPickerKey((k) => k + 1);
+      return;
     }
-  }, [selectedSlotISO]);
+    setHoldExpiresAt(hold?.expiresAt ? Date.parse(hold.expiresAt) : null);
+    setStep(2);
+  }, [selectedSlotISO, holding, holdSlot]);
 
   const handleBack = useCallback(() => {
+    releaseHold();
     setStep(1);
+  }, [releaseHold]);
+
+  // Renew the hold halfway to expiry while the contact step is open
+  useEffect(() => {
+    if (step !== 2 || !selectedSlotISO || !holdExpiresAt) return;
+    const delay = Math.max(5_000, (holdExpiresAt - Date.now()) / 2);
+    const timer = setTimeout(async () => {
+      const hold = await holdSlot(selectedSlotISO);
+      if (hold?.ok && hold.expiresAt)
+        setHoldExpiresAt(Date.parse(hold.expiresAt));
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [step, selectedSlotISO, holdExpiresAt, holdSlot]);
+
+  // Contact-first: the lead is in; pick a time for it
+  const [lead, setLead] = useState<CapturedLead | null>(null);
+  const [leadError, setLeadError] = useState<string | null>(null);
+  const [booking, setBooking] = useState(false);
+  const [booked, setBooked] = useState<Booked | null>(null);
+
+  const handleLeadCaptured = useCallback((captured: CapturedLead) => {
+    setLead(captured);
+    setLeadError(null);
+    setStep(2);
   }, []);
 
+  const handleBook = useCallback(async () => {
+    if (!lead || !selectedSlotISO || booking) return;
+    setBooking(true);
+    setHoldError(null);
+    let res: AppointmentResponse;
+    try {
+      const r = await fetch("/api/appointments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          formSlug,
+          contactToken: lead.contactToken, // carries the answers too
+          timezone,
+          startISO: selectedSlotISO,
+        }),
+      });
+      res =
+        r.status === 429
+          ? { ok: false, message: "Please try again in a moment." }
+          : ((await r.json()) as AppointmentResponse);
+    } catch {
+      res = {
+        ok: false,
+        message: "We couldn't reach the server. Please try again.",
+      };
+    }
+    setBooking(false);
+    if (res.ok) {
+      setBooked({
+        slotISO: selectedSlotISO,
+        appointmentId: res.appointmentId,
+        manageUrl: res.manageUrl,
+        calendar: res.calendar,
+      });
+      window.scrollTo({ top: 0, behavior: "smooth" });
+      return;
+    }
+    if (res.error === "contact_token_invalid") {
+      // Expired: the details have to be entered (and captured) again
+      setLead(null);
+      setLeadError(res.message || "Please enter your details again.");
+      setSelectedSlotISO(null);
+      setStep(1);
+      return;
+    }
+    const nearby = (res.alternatives ?? []).map((iso) =>
+      new Date(iso).toLocaleString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        timeZone: timezone,
+      })
+    );
+    setHoldError(
+      `${res.message || "This time can't be booked."}${
+        nearby.length ? ` Nearby open times: ${nearby.join(", ")}.` : ""
+      }`
+    );
+    if (res.error === "slot_taken" || res.error === "booking_rule") {
+      setSelectedSlotISO(null);
+      setPickerKey((k) => k + 1);
+    }
+  }, [lead, selectedSlotISO, booking, formSlug, timezone]);
+
   const handleFormSubmit = useCallback(async (formData: any) => {
     // This will be handled by the LeadForm component
     // The form will call /api/appointments instead of /api/lead
@@ -76,10 +280,16 @@ export default function BookingWizard({
         formConfig={formConfig}
         legal={legal}
         prefill={prefill}
+        formToken={formToken}
+        captcha={captcha}
       />
     );
   }
 
+  const stepLabels = contactFirst
+    ? ["Contact Info", "Select Time"]
+    : ["Select Time", "Contact Info"];
+
   return (
     <div className="space-y-6">
       {/* Progress indicator */}
@@ -110,33 +320,43 @@ export default function BookingWizard({
             step === 1 ? "text-blue-600" : "text-gray-500"
           }`}
         >
-          Select Time
+          {stepLabels[0]}
         </div>
         <div
           className={`text-sm font-medium ${
             step === 2 ? "text-blue-600" : "text-gray-500"
           }`}
         >
-          Contact Info
+          {stepLabels[1]}
         </div>
         {/* dev badge removed */}
       </div>
 
       {/* Step 1: Booking */}
-      {step === 1 && (
+      {!contactFirst && step === 1 && (
         <div className="space-y-6">
+          <TimezoneSelect value={timezone} onChange={handleTimezoneChange} />
+
           <BookingStep
+            key={pickerKey}
             formSlug={formSlug}
             timezone={timezone}
             minLeadMinutes={formConfig.booking?.minLeadMinutes ?? 60}
             onSelect={handleSlotSelect}
+            holdId={holdId}
           />
 
+          {holdError && (
+            <p className="text-sm text-red-600" role="alert">
+              {holdError}
+            </p>
+          )}
+
           <div className="flex justify-end">
             <button
               type="button"
               onClick={handleContinue}
-              disabled={!selectedSlotISO}
+              disabled={!selectedSlotISO || holding}
               className={`${BUTTON_BASE} ${
                 selectedSlotISO
                   ? "bg-blue-600 text-white hover:bg-blue-700"
@@ -150,7 +370,7 @@ export default function BookingWizard({
       )}
 
       {/* Step 2: Form */}
-      {step === 2 && (
+      {!contactFirst && step === 2 && (
         <div className="space-y-6">
           {/* Selected appointment summary */}
           {selectedSlotISO && (
@@ -158,15 +378,11 @@ export default function BookingWizard({
               <div className="flex items-center gap-2 text-sm text-blue-800">
                 <div>
                   <strong>Selected Appointment:</strong>{" "}
-                  {new Date(selectedSlotISO).toLocaleString("en-US", {
-                    weekday: "long",
-                    year: "numeric",
-                    month: "long",
-                    day: "numeric",
-                    hour: "numeric",
-                    minute: "2-digit",
-                    timeZone: timezone,
-                  })}
+                  <AppointmentTimes
+                    slotISO={selectedSlotISO}
+                    timezone={timezone}
+                    businessTimezone={businessTimezone}
+                  />
                 </div>
               </div>
             </div>
@@ -194,7 +410,92 @@ export default function BookingWizard({
             isBookingWizard={true}
             selectedSlotISO={selectedSlotISO}
             timezone={timezone}
+            formToken={formToken}
+            captcha={captcha}
+            holdId={holdId}
+          />
+        </div>
+      )}
+
+      {/* Contact-first step 1: the lead (/api/lead) */}
+      {contactFirst && step === 1 && (
+        <div className="space-y-6">
+          {leadError && (
+            <p className="text-sm text-red-600" role="alert">
+              {leadError}
+            </p>
+          )}
+          <LeadForm
+            formSlug={formSlug}
+            formConfig={formConfig}
+            legal={legal}
+            prefill={prefill}
+            formToken={formToken}
+            captcha={captcha}
+            onLeadCaptured={handleLeadCaptured}
+          />
+        </div>
+      )}
+
+      {/* Contact-first step 2: a time, booked for the captured contact */}
+      {contactFirst && step === 2 && lead && booked && (
+        <div role="status" aria-live="polite">
+          <h1 className="text-xl font-semibold text-gray-900">
+            Appointment Booked!
+          </h1>
+          <p className="mt-2 text-sm text-gray-600">
+            Your appointment has been successfully scheduled. We&apos;ll send
+            you a confirmation email shortly.
+          </p>
+          <BookingConfirmation
+            slotISO={booked.slotISO}
+            timezone={timezone}
+            businessTimezone={businessTimezone}
+            manageUrl={booked.manageUrl}
+            calendar={booked.calendar}
           />
+          {booked.appointmentId ? (
+            <p className="mt-2 text-xs text-gray-500">
+              Appointment ID:{" "}
+              <span className="font-mono">{booked.appointmentId}</span>
+            </p>
+          ) : null}
+        </div>
+      )}
+
+      {contactFirst && step === 2 && lead && !booked && (
+        <div className="space-y-6">
+          <TimezoneSelect value={timezone} onChange={handleTimezoneChange} />
+
+          <BookingStep
+            key={pickerKey}
+            formSlug={formSlug}
+            timezone={timezone}
+            minLeadMinutes={formConfig.booking?.minLeadMinutes ?? 60}
+            onSelect={handleSlotSelect}
+            answers={lead.answers}
+          />
+
+          {holdError && (
+            <p className="text-sm text-red-600" role="alert">
+              {holdError}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleBook}
+              disabled={!selectedSlotISO || booking}
+              className={`${BUTTON_BASE} ${
+                selectedSlotISO
+                  ? "bg-blue-600 text-white hover:bg-blue-700"
+                  : "opacity-50 cursor-not-allowed bg-gray-300 text-gray-600"
+              }`}
+            >
+              {booking ? "Booking…" : "Book Appointment"}
+            </button>
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,190 @@
+"use client";
+/**
+ * CaptchaWidget renders the challenge a form is configured for (see
+ * captchaConfig.ts) and hands tokens to its parent.
+ *
+ * - recaptcha-v2: checkbox (react-google-recaptcha); reset remounts it.
+ * - recaptcha-v3: invisible; a fresh token is fetched with execute() at
+ *   submit time, so the parent must not gate the button on a token.
+ * - turnstile / hcaptcha: explicit render into a container div.
+ *
+ * Tokens are single-use: call reset() after the server rejects one.
+ */
+
+import {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import dynamic from "next/dynamic";
+import type { CaptchaProviderName } from "@/lib/registrySchema";
+
+const ReCAPTCHA = dynamic(() => import("react-google-recaptcha"), {
+  ssr: false,
+});
+
+export type CaptchaWidgetHandle = {
+  /** Current token (v3: a freshly executed one); null when unsolved. */
+  execute(): Promise<string | null>;
+  reset(): void;
+};
+
+type CaptchaWidgetProps = {
+  provider: CaptchaProviderName;
+  siteKey: string;
+  action?: string;
+  onToken: (token: string | null) => void;
+};
+
+// Turnstile and hCaptcha expose the same explicit-render API
+type ChallengeApi = {
+  render(el: HTMLElement, opts: Record<string, unknown>): string;
+  reset(id?: string): void;
+  remove(id: string): void;
+};
+
+type RecaptchaV3Api = {
+  ready(cb: () => void): void;
+  execute(siteKey: string, opts: { action: string }): Promise<string>;
+};
+
+const SCRIPTS: Record<"turnstile" | "hcaptcha", string> = {
+  turnstile:
+    "https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit",
+  hcaptcha: "https://js.hcaptcha.com/1/api.js?render=explicit",
+};
+
+const recaptchaV3Src = (siteKey: string) =>
+  `https://www.google.com/recaptcha/api.js?render=${encodeURIComponent(
+    siteKey
+  )}`;
+
+const loading = new Map<string, Promise<void>>();
+
+// One <script> per src, however many widgets mount
+function loadScript(src: string): Promise<void> {
+  let p = loading.get(src);
+  if (!p) {
+    p = new Promise<void>((resolve, reject) => {
+      const el = document.createElement("script");
+      el.src = src;
+      el.async = true;
+      el.defer = true;
+      el.onload = () => resolve();
+      el.onerror = () => {
+        loading.delete(src);
+        reject(new Error(`Failed to load ${src}`));
+      };
+      document.head.appendChild(el);
+    });
+    loading.set(src, p);
+  }
+  return p;
+}
+
+const globalApi = <T,>(name: string): T | undefined =>
+  (window as unknown as Record<string, T | undefined>)[name];
+
+const CaptchaWidget = forwardRef<CaptchaWidgetHandle, CaptchaWidgetProps>(
+  function CaptchaWidget({ provider, siteKey, action, onToken }, ref) {
+    const tokenRef = useRef<string | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const widgetIdRef = useRef<string | null>(null);
+    const [v2Key, setV2Key] = useState(0);
+
+    // Latest callback without re-rendering the third-party widget
+    const onTokenRef = useRef(onToken);
+    onTokenRef.current = onToken;
+
+    const setToken = useCallback((token: string | null) => {
+      tokenRef.current = token;
+      onTokenRef.current(token);
+    }, []);
+
+    // reCAPTCHA v3: just load the script; tokens are minted on execute()
+    useEffect(() => {
+      if (provider !== "recaptcha-v3") return;
+      loadScript(recaptchaV3Src(siteKey)).catch((e) =>
+        console.error("[captcha]", e.message)
+      );
+    }, [provider, siteKey]);
+
+    // Turnstile / hCaptcha: explicit render, removed on unmount
+    useEffect(() => {
+      if (provider !== "turnstile" && provider !== "hcaptcha") return;
+      let cancelled = false;
+      loadScript(SCRIPTS[provider])
+        .then(() => {
+          const api = globalApi<ChallengeApi>(provider);
+          const el = containerRef.current;
+          if (cancelled || !api || !el) return;
+          widgetIdRef.current = api.render(el, {
+            sitekey: siteKey,
+            callback: (token: string) => setToken(token),
+            "expired-callback": () => setToken(null),
+            "error-callback": () => setToken(null),
+          });
+        })
+        .catch((e) => console.error("[captcha]", e.message));
+      return () => {
+        cancelled = true;
+        const api = globalApi<ChallengeApi>(provider);
+        if (api && widgetIdRef.current) api.remove(widgetIdRef.current);
+        widgetIdRef.current = null;
+      };
+    }, [provider, siteKey, setToken]);
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        async execute() {
+          if (provider !== "recaptcha-v3") return tokenRef.current;
+          try {
+            await loadScript(recaptchaV3Src(siteKey));
+            const api = globalApi<RecaptchaV3Api>("grecaptcha");
+            if (!api) return null;
+            await new Promise<void>((resolve) => api.ready(resolve));
+            const token = await api.execute(siteKey, {
+              action: action || "submit",
+            });
+            setToken(token);
+            return token;
+          } catch (e) {
+            console.error("[captcha] execute failed", e);
+            return null;
+          }
+        },
+        reset() {
+          setToken(null);
+          if (provider === "recaptcha-v2") setV2Key((k) => k + 1);
+          const api =
+            provider === "turnstile" || provider === "hcaptcha"
+              ? globalApi<ChallengeApi>(provider)
+              : undefined;
+          if (api && widgetIdRef.current) api.reset(widgetIdRef.current);
+        },
+      }),
+      [provider, siteKey, action, setToken]
+    );
+
+    if (provider === "recaptcha-v3") return null; // badge is injected by Google
+
+    if (provider === "recaptcha-v2")
+      return (
+        <ReCAPTCHA
+          key={v2Key}
+          sitekey={siteKey}
+          onChange={(token: string | null) => setToken(token)}
+          onExpired={() => setToken(null)}
+          onErrored={() => setToken(null)}
+        />
+      );
+
+    return <div ref={containerRef} />;
+  }
+);
+
+export default CaptchaWidget;
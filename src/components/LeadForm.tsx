@@ -7,19 +7,36 @@ import React, {
   useRef,
   useState,
 } from "react";
-import dynamic from "next/dynamic";
-import type { FormConfig } from "@/lib/formsRegistry";
+import type {
+  FieldConfig,
+  FieldShowIf,
+  FormConfigResolved,
+} from "@/lib/formsRegistry";
 import type { Prefill } from "@/lib/prefill";
-import { toNationalDigits, toE164, onlyDigits } from "@/lib/phone";
-import { isRecaptchaRequiredForSlug, getRecaptchaSiteKey } from "@/lib/env";
-import { mustBeValidUSLength } from "@/lib/phonevalidator";
-
-const ReCAPTCHA = dynamic(() => import("react-google-recaptcha"), {
-  ssr: false,
-});
+import type { CalendarLinks } from "@/lib/calendarInvite";
+import {
+  toNationalDigits,
+  toE164,
+  onlyDigits,
+  checkPhoneShape,
+} from "@/lib/phone";
+import { PHONE_COUNTRIES } from "@/lib/phoneMetadata";
+import { getCaptchaSiteKey } from "@/lib/env";
+import {
+  isInvisibleCaptcha,
+  type FormCaptchaConfig,
+} from "@/lib/captchaConfig";
+import CaptchaWidget, { type CaptchaWidgetHandle } from "./CaptchaWidget";
+import BookingConfirmation from "./BookingConfirmation";
 
 const devLog = (..._args: any[]) => {};
 
+// Country picker: the markets we see most first, then everyone A–Z
+const PREFERRED_COUNTRIES = ["US", "CA", "GB", "PA", "AU"];
+const OTHER_COUNTRIES = PHONE_COUNTRIES.filter(
+  (c) => !PREFERRED_COUNTRIES.includes(c.iso)
+);
+
 // NOTE: These presentational components are defined at file scope to avoid
 // unstable nested component identities that can cause input remounts/blur.
 function Spinner({
@@ -90,7 +107,7 @@ function PhoneHelper({
 }
 
 type RenderFieldProps = {
-  field: any;
+  field: FieldConfig;
   value: string;
   onChange: (v: string) => void;
   error?: string;
@@ -105,7 +122,7 @@ function RenderField({ field, value, onChange, error }: RenderFieldProps) {
           {field.required ? <span className="text-red-500">*</span> : null}
         </label>
         <div className="space-y-2">
-          {(field.options || []).map((opt: any) => (
+          {field.options.map((opt) => (
             <label key={opt.value} className="flex items-center gap-2">
               <input
                 type="radio"
@@ -138,7 +155,7 @@ function RenderField({ field, value, onChange, error }: RenderFieldProps) {
           required={field.required}
         >
           <option value="" disabled hidden></option>
-          {(field.options || []).map((opt: any) => (
+          {field.options.map((opt) => (
             <option key={opt.value} value={opt.value}>
               {opt.label}
             </option>
@@ -188,6 +205,40 @@ function RenderField({ field, value, onChange, error }: RenderFieldProps) {
   );
 }
 
+const SUBMIT_TRIES = 4;
+
+const newIdempotencyKey = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Every try carries the same Idempotency-Key (lib/idempotency.ts), so a retry
+// after a lost response replays the first result instead of submitting twice.
+async function postIdempotent(
+  url: string,
+  body: string,
+  key: string
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+        body,
+      });
+      if (res.status !== 409 || attempt >= SUBMIT_TRIES) return res;
+      const err = await res
+        .clone()
+        .json()
+        .catch(() => null);
+      if (err?.error !== "idempotency_in_progress") return res;
+    } catch (e) {
+      if (attempt >= SUBMIT_TRIES) throw e; // offline
+    }
+    await new Promise((r) => setTimeout(r, 1000 * attempt));
+  }
+}
+
 type ValidateResponse = {
   emailValid?: boolean | null;
   emailReason?: string;
@@ -212,9 +263,13 @@ export default function LeadForm({
   tagsOnSubmit,
   hiddenMeta,
   prefillValidate = true,
+  formToken,
+  captcha = null,
+  holdId,
+  onLeadCaptured,
 }: {
   formSlug: string;
-  formConfig: FormConfig;
+  formConfig: FormConfigResolved;
   legal?: {
     privacy?: { label: string; href: string };
     terms?: { label: string; href: string };
@@ -234,6 +289,16 @@ export default function LeadForm({
   tagsOnSubmit?: string[];
   hiddenMeta?: Record<string, string | undefined>;
   prefillValidate?: boolean;
+  formToken?: string; // signed render time (lib/formToken.ts)
+  // Resolved by the server page: RECAPTCHA_FOR_SLUGS isn't in the client bundle
+  captcha?: FormCaptchaConfig | null;
+  holdId?: string; // wizard slot hold (lib/slotHolds.ts)
+  // Contact-first booking wizard: the lead starts a booking, and the wizard
+  // moves on to the time picker instead of showing the success panel
+  onLeadCaptured?: (lead: {
+    contactToken: string;
+    answers: Record<string, string>;
+  }) => void;
 }) {
   const [firstName, setFirstName] = useState(
     initialValues?.firstName ?? prefill?.firstName ?? ""
@@ -265,18 +330,20 @@ export default function LeadForm({
 
   const [submitting, setSubmitting] = useState(false);
   const [captchaToken, setCaptchaToken] = useState<string | null>(null);
-  const captchaRequired = useMemo(
-    () =>
-      isRecaptchaRequiredForSlug(
-        formSlug,
-        (formConfig as any)?.captcha === true
-      ),
-    [formSlug, formConfig]
-  );
-  const siteKey = getRecaptchaSiteKey();
+  const [captchaError, setCaptchaError] = useState("");
+  const captchaRef = useRef<CaptchaWidgetHandle>(null);
+  // Bot-scoring signals (lib/botScore.ts): bots fill the hidden field and
+  // rarely produce real key/pointer events
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const interactions = useRef({ keys: 0, pointer: 0 });
+  // One key per submit attempt; reused while the payload is unchanged
+  const attemptRef = useRef<{ key: string; payload: string } | null>(null);
+  const submitLock = useRef(false); // double-click lands before re-render
+  const siteKey = captcha ? getCaptchaSiteKey(captcha.provider) : null;
 
   useEffect(() => {
     setCaptchaToken(null);
+    setCaptchaError("");
   }, [formSlug]);
 
   const [emailPending, setEmailPending] = useState(false);
@@ -299,6 +366,8 @@ export default function LeadForm({
     isBookingWizard?: boolean;
     selectedSlotISO?: string | null;
     timezone?: string;
+    manageUrl?: string;
+    calendar?: CalendarLinks;
   } | null>(null);
 
   // "attempted" flags - only show validation state after user interaction
@@ -342,25 +411,18 @@ export default function LeadForm({
     ref.current = setTimeout(cb, ms);
   };
 
-  // Convert national phone format to E.164
-  const toE164 = (nationalPhone: string, countryCode: string): string => {
-    if (!nationalPhone.trim()) return "";
-    const digits = nationalPhone.replace(/[^\d]/g, "");
-    if (countryCode === "US" || countryCode === "CA") {
-      return `+1${digits}`;
-    }
-    // For other countries, you'd need a proper mapping
-    return `+${digits}`;
-  };
   // Visibility helpers for conditional fields
   const isEqual = (val: unknown, target: string | string[]) => {
     if (Array.isArray(target)) return target.includes(String(val ?? ""));
     return String(val ?? "") === target;
   };
 
-  const isVisible = (field: any, ans: Record<string, any>) => {
-    if (!("showIf" in field) || !field.showIf) return true;
-    const cond = field.showIf as { fieldId: string; equals: string | string[] };
+  const isVisible = (
+    field: { showIf?: FieldShowIf },
+    ans: Record<string, unknown>
+  ) => {
+    if (!field.showIf) return true;
+    const cond = field.showIf;
     return isEqual(ans[cond.fieldId], cond.equals);
   };
 
@@ -397,7 +459,9 @@ export default function LeadForm({
     );
     const anyPending =
       submitting || emailPending || phonePending || firstPending || lastPending;
-    const mustSolveCaptcha = captchaRequired && !!siteKey;
+    // Invisible v3 mints its token on submit, so there is nothing to solve
+    const mustSolveCaptcha =
+      !!captcha && !!siteKey && !isInvisibleCaptcha(captcha.provider);
     const captchaOk = !mustSolveCaptcha || Boolean(captchaToken);
     return (
       anyPending ||
@@ -422,7 +486,7 @@ export default function LeadForm({
     lastPending,
     submitting,
     captchaToken,
-    captchaRequired,
+    captcha,
     siteKey,
   ]);
 
@@ -467,7 +531,7 @@ export default function LeadForm({
       const res = await fetch("/api/validate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email: value }),
+        body: JSON.stringify({ email: value, formSlug }), // per-form policy
       });
       const data = await res.json();
       // green only when true; null and false are both non-green in UI
@@ -501,25 +565,23 @@ export default function LeadForm({
     setPhoneAttempted(true);
     setPhonePending(true);
 
-    // Client-side NANP precheck for US numbers
-    const country = ctry.toUpperCase();
-    if (country === "US" || country === "CA" || !country) {
-      const precheck = mustBeValidUSLength(value);
-      if (!precheck.ok) {
-        setPhoneValid(false);
-        setPhoneReason(precheck.message || "Invalid US phone format.");
-        setPhoneConfidence("low");
-        setPhoneLineType("UNKNOWN");
-        setPhonePending(false);
-        return;
-      }
+    // Client-side shape precheck (NANP rules for +1, lengths elsewhere)
+    const precheck = checkPhoneShape(value, ctry.toUpperCase() || undefined);
+    if (!precheck.ok) {
+      setPhoneValid(false);
+      setPhoneReason(precheck.reason || "Invalid phone format.");
+      setPhoneConfidence("low");
+      setPhoneLineType("UNKNOWN");
+      setPhonePending(false);
+      return;
     }
 
     try {
       const res = await fetch("/api/validate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ phone: value, country: ctry }), // IMPORTANT: send country
+        // IMPORTANT: send country; formSlug selects the form's policy
+        body: JSON.stringify({ phone: value, country: ctry, formSlug }),
       });
       const data = await res.json();
       setPhoneValid(
@@ -716,8 +778,8 @@ export default function LeadForm({
       const reqErrors: Record<string, string> = {};
       for (const section of formConfig.sections || []) {
         for (const field of section.fields || []) {
-          if (!isVisible(field as any, answers)) continue;
-          if ("map" in field && field.map && CORE_MAPS.has(field.map)) continue;
+          if (!isVisible(field, answers)) continue;
+          if (field.map && CORE_MAPS.has(field.map)) continue;
           if (field.required && !answers[field.id]) {
             reqErrors[field.id] = "This field is required.";
           }
@@ -728,11 +790,20 @@ export default function LeadForm({
         return;
       }
 
-      if (formBlocked) return;
+      if (formBlocked || submitLock.current) return;
+      submitLock.current = true;
       setSubmitting(true);
       try {
         // Choose API endpoint based on booking wizard mode
         const apiEndpoint = isBookingWizard ? "/api/appointments" : "/api/lead";
+        // v3 mints a fresh token here; the other widgets return the solved one
+        const token =
+          (await captchaRef.current?.execute()) ?? captchaToken ?? undefined;
+        const botCheck = {
+          formToken,
+          honeypot: honeypotRef.current?.value || undefined,
+          ...interactions.current,
+        };
 
         const payload = isBookingWizard
           ? {
@@ -748,10 +819,12 @@ export default function LeadForm({
               // calendarId is resolved from form config on server side
               timezone:
                 timezone ||
-                (formConfig.booking as any)?.timezone ||
+                formConfig.booking?.timezone ||
                 "America/New_York",
               startISO: selectedSlotISO,
-              captchaToken: captchaToken ?? undefined,
+              holdId,
+              captchaToken: token,
+              botCheck,
             }
           : {
               formSlug: formSlug || "form-testing-n8n",
@@ -771,13 +844,25 @@ export default function LeadForm({
               // Include additional tags and meta for forms-go
               ...(tagsOnSubmit && { tags: tagsOnSubmit }),
               ...(hiddenMeta && { meta: hiddenMeta }),
+              ...(onLeadCaptured && { bookingStarted: true }),
+              captchaToken: token,
+              botCheck,
             };
 
-        const res = await fetch(apiEndpoint, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(payload),
+        // captcha/bot fields change on every try without changing the lead
+        const stable = JSON.stringify({
+          ...payload,
+          captchaToken: undefined,
+          botCheck: undefined,
         });
+        if (attemptRef.current?.payload !== stable)
+          attemptRef.current = { key: newIdempotencyKey(), payload: stable };
+
+        const res = await postIdempotent(
+          apiEndpoint,
+          JSON.stringify(payload),
+          attemptRef.current.key
+        );
         if (res.status === 429) {
           alert("Please try again in a moment.");
           return;
@@ -789,10 +874,44 @@ export default function LeadForm({
           } catch {}
           console.error("Submit error", res.status, errJson);
 
-          // Handle slot taken error for booking wizard
-          if (isBookingWizard && errJson?.error === "slot_taken") {
+          // Server-side captcha check failed: reset the widget, show why
+          if (String(errJson?.error || "").startsWith("captcha_")) {
+            captchaRef.current?.reset();
+            setCaptchaError(
+              errJson?.message || "Please complete the captcha again."
+            );
+            return;
+          }
+
+          // Slot taken or against the booking rules: suggest nearby times
+          if (
+            isBookingWizard &&
+            (errJson?.error === "slot_taken" ||
+              errJson?.error === "booking_rule")
+          ) {
+            const nearby: string[] = Array.isArray(errJson.alternatives)
+              ? errJson.alternatives.map((iso: string) =>
+                  new Date(iso).toLocaleString("en-US", {
+                    weekday: "short",
+                    month: "short",
+                    day: "numeric",
+                    hour: "numeric",
+                    minute: "2-digit",
+                    timeZone:
+                      timezone ||
+                      formConfig.booking?.timezone ||
+                      "America/New_York",
+                  })
+                )
+              : [];
             alert(
-              "This time slot is no longer available. Please go back and select a different time."
+              `${
+                errJson.error === "slot_taken"
+                  ? "This time slot is no longer available."
+                  : errJson.message || "This time can't be booked."
+              } Please go back and select a different time.${
+                nearby.length ? `\n\nNearby open times:\n${nearby.join("\n")}` : ""
+              }`
             );
             return;
           }
@@ -821,6 +940,14 @@ export default function LeadForm({
         // Dev logging to verify what was sent
         // success
 
+        // Contact-first booking: on to the time picker. Without a token (the
+        // lead was queued or dropped) there is no contact to book for yet,
+        // so the regular success panel shows instead.
+        if (onLeadCaptured && data.contactToken) {
+          onLeadCaptured({ contactToken: data.contactToken, answers });
+          return;
+        }
+
         // Clear form and show success panel
         setFirstName("");
         setLastName("");
@@ -834,15 +961,24 @@ export default function LeadForm({
         setEmailReason("");
         setPhoneReason("");
         setAnswers({});
+        captchaRef.current?.reset(); // the token was spent on this submit
+        attemptRef.current = null;
         setSubmitSuccess({
-          contactId: data.contactId,
+          // queued leads (LeadConnector down) only have an outbox id for now
+          contactId: data.contactId ?? data.submissionId,
           appointmentId: data.appointmentId,
           isBookingWizard,
           selectedSlotISO,
           timezone,
+          manageUrl: data.manageUrl,
+          calendar: data.calendar,
         });
         window.scrollTo({ top: 0, behavior: "smooth" });
+      } catch (err) {
+        console.error("Submit failed", err);
+        alert("We couldn't reach the server. Please check your connection.");
       } finally {
+        submitLock.current = false;
         setSubmitting(false);
       }
     },
@@ -858,6 +994,10 @@ export default function LeadForm({
       answers,
       formConfig,
       formSlug,
+      captchaToken,
+      formToken,
+      holdId,
+      onLeadCaptured,
     ]
   );
 
@@ -867,7 +1007,7 @@ export default function LeadForm({
     const visibleIds = new Set<string>();
     for (const section of formConfig.sections || []) {
       for (const f of section.fields || []) {
-        if (isVisible(f as any, answers)) visibleIds.add(f.id);
+        if (isVisible(f, answers)) visibleIds.add(f.id);
       }
     }
 
@@ -902,22 +1042,15 @@ export default function LeadForm({
         </p>
 
         {submitSuccess.isBookingWizard && submitSuccess.selectedSlotISO && (
-          <div className="mt-4 p-4 bg-green-50 rounded-md">
-            <p className="text-sm text-green-800">
-              <strong>Appointment Details:</strong>
-            </p>
-            <p className="text-sm text-green-700 mt-1">
-              {new Date(submitSuccess.selectedSlotISO).toLocaleString("en-US", {
-                weekday: "long",
-                year: "numeric",
-                month: "long",
-                day: "numeric",
-                hour: "numeric",
-                minute: "2-digit",
-                timeZone: submitSuccess.timezone || "America/New_York",
-              })}
-            </p>
-          </div>
+          <BookingConfirmation
+            slotISO={submitSuccess.selectedSlotISO}
+            timezone={submitSuccess.timezone || "America/New_York"}
+            businessTimezone={
+              formConfig.booking?.timezone || "America/New_York"
+            }
+            manageUrl={submitSuccess.manageUrl}
+            calendar={submitSuccess.calendar}
+          />
         )}
 
         {submitSuccess.contactId ? (
@@ -959,7 +1092,28 @@ export default function LeadForm({
   }
 
   return (
-    <form onSubmit={onSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+    <form
+      onSubmit={onSubmit}
+      onKeyDown={() => interactions.current.keys++}
+      onPointerDown={() => interactions.current.pointer++}
+      className="grid grid-cols-1 sm:grid-cols-2 gap-6"
+    >
+      {/* Honeypot: off-screen (not display:none, which bots skip) */}
+      <div
+        aria-hidden="true"
+        className="absolute -left-[9999px] h-px w-px overflow-hidden"
+      >
+        <label htmlFor="website">Website</label>
+        <input
+          ref={honeypotRef}
+          id="website"
+          name="website"
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          defaultValue=""
+        />
+      </div>
       <div className="space-y-1.5 sm:col-span-1">
         <label
           htmlFor="firstName"
@@ -1258,11 +1412,17 @@ export default function LeadForm({
                   value={country}
                   onChange={(e) => onCountryChange(e.target.value)}
                 >
-                  <option value="US">US</option>
-                  <option value="CA">CA</option>
-                  <option value="GB">GB</option>
-                  <option value="PA">PA</option>
-                  <option value="AU">AU</option>
+                  {PREFERRED_COUNTRIES.map((iso) => (
+                    <option key={iso} value={iso}>
+                      {iso}
+                    </option>
+                  ))}
+                  <option disabled>──────</option>
+                  {OTHER_COUNTRIES.map((c) => (
+                    <option key={c.iso} value={c.iso}>
+                      {c.iso} +{c.callingCode}
+                    </option>
+                  ))}
                 </select>
               </div>
               <input
@@ -1333,10 +1493,10 @@ export default function LeadForm({
       </div>
 
       {/* Dynamic (non-core) fields from registry */}
-      {(formConfig.sections || []).map((section: any, idx: number) => {
+      {(formConfig.sections || []).map((section, idx) => {
         const nonCore = (section.fields || [])
-          .filter((f: any) => !(f.map && CORE_MAPS.has(f.map)))
-          .filter((f: any) => isVisible(f, answers));
+          .filter((f) => !(f.map && CORE_MAPS.has(f.map)))
+          .filter((f) => isVisible(f, answers));
         if (!nonCore.length) return null;
         return (
           <div key={idx} className="space-y-4 sm:col-span-2">
@@ -1346,7 +1506,7 @@ export default function LeadForm({
               </h3>
             ) : null}
             <div className="space-y-4">
-              {nonCore.map((field: any) => (
+              {nonCore.map((field) => (
                 <RenderField
                   key={field.id}
                   field={field}
@@ -1397,17 +1557,26 @@ export default function LeadForm({
         </div>
       </div>
 
-      {/* reCAPTCHA widget (Contact Info step; above Submit) */}
-      {captchaRequired && siteKey ? (
+      {/* Captcha widget (Contact Info step; above Submit) */}
+      {captcha && siteKey ? (
         <div className="sm:col-span-2 mt-4 mb-2 flex justify-center">
-          <ReCAPTCHA
-            sitekey={siteKey}
-            onChange={(token: string | null) => setCaptchaToken(token)}
-            onExpired={() => setCaptchaToken(null)}
-            onErrored={() => setCaptchaToken(null)}
+          <CaptchaWidget
+            ref={captchaRef}
+            provider={captcha.provider}
+            siteKey={siteKey}
+            action={captcha.action}
+            onToken={(token) => {
+              setCaptchaToken(token);
+              if (token) setCaptchaError("");
+            }}
           />
         </div>
       ) : null}
+      {captchaError ? (
+        <p className="sm:col-span-2 -mt-1 mb-2 text-center text-sm text-red-600">
+          {captchaError}
+        </p>
+      ) : null}
 
       <hr className="sm:col-span-2 my-6 border-gray-200" />
 
@@ -1444,7 +1613,11 @@ export default function LeadForm({
               : "bg-blue-600 text-white hover:bg-blue-700"
           }`}
         >
-          {submitting ? "Submitting..." : "Submit"}
+          {submitting
+            ? "Submitting..."
+            : onLeadCaptured
+              ? "Continue to Time Selection"
+              : "Submit"}
         </button>
       </div>
     </form>
@@ -0,0 +1,238 @@
+"use client";
+/**
+ * ManageBooking is the interactive part of /booking/<token>: it shows the
+ * booked time and lets the visitor move it (BookingStep picks the new slot)
+ * or cancel it. Both go through /api/booking/<token>; a reschedule returns a
+ * fresh link, which replaces the one in the address bar.
+ */
+
+import { useCallback, useState } from "react";
+import AppointmentTimes from "./AppointmentTimes";
+import BookingStep from "./BookingStep";
+import TimezoneSelect from "./TimezoneSelect";
+
+type ManageBookingProps = {
+  token: string;
+  formSlug: string;
+  calendar: string; // registry id of the appointment's calendar
+  startISO: string;
+  timezone: string; // visitor's zone at booking time
+  businessTimezone: string;
+  minLeadMinutes: number;
+  cancelled: boolean;
+};
+
+type ManageResponse = {
+  ok: boolean;
+  error?: string;
+  message?: string;
+  startISO?: string;
+  manageUrl?: string;
+  alternatives?: string[];
+};
+
+const BUTTON_BASE =
+  "inline-flex items-center justify-center rounded-md px-4 py-2 text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export default function ManageBooking({
+  token: initialToken,
+  formSlug,
+  calendar,
+  startISO: initialStartISO,
+  timezone: initialTimezone,
+  businessTimezone,
+  minLeadMinutes,
+  cancelled: initiallyCancelled,
+}: ManageBookingProps) {
+  const [token, setToken] = useState(initialToken);
+  const [startISO, setStartISO] = useState(initialStartISO);
+  const [timezone, setTimezone] = useState(initialTimezone);
+  const [cancelled, setCancelled] = useState(initiallyCancelled);
+  const [mode, setMode] = useState<"view" | "reschedule">("view");
+  const [selectedSlotISO, setSelectedSlotISO] = useState<string | null>(null);
+  const [pickerKey, setPickerKey] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const send = useCallback(
+    async (init: RequestInit): Promise<ManageResponse> => {
+      try {
+        const res = await fetch(`/api/booking/${token}`, {
+          ...init,
+          headers: { "Content-Type": "application/json" },
+        });
+        return (await res.json()) as ManageResponse;
+      } catch {
+        return {
+          ok: false,
+          message: "We couldn't reach the server. Please try again.",
+        };
+      }
+    },
+    [token]
+  );
+
+  const handleTimezoneChange = useCallback((tz: string) => {
+    setTimezone(tz);
+    setSelectedSlotISO(null);
+  }, []);
+
+  const handleReschedule = useCallback(async () => {
+    if (!selectedSlotISO || busy) return;
+    setBusy(true);
+    setError(null);
+    const res = await send({
+      method: "PATCH",
+      body: JSON.stringify({ startISO: selectedSlotISO, timezone }),
+    });
+    setBusy(false);
+    if (!res.ok) {
+      const nearby = (res.alternatives ?? []).map((iso) =>
+        new Date(iso).toLocaleString("en-US", {
+          weekday: "short",
+          month: "short",
+          day: "numeric",
+          hour: "numeric",
+          minute: "2-digit",
+          timeZone: timezone,
+        })
+      );
+      setError(
+        `${res.message || "This time can't be booked."}${
+          nearby.length ? ` Nearby open times: ${nearby.join(", ")}.` : ""
+        }`
+      );
+      setSelectedSlotISO(null);
+      setPickerKey((k) => k + 1);
+      return;
+    }
+    if (res.startISO) setStartISO(res.startISO);
+    if (res.manageUrl) {
+      // The old link expires at the old start time; keep the new one
+      setToken(res.manageUrl.split("/").pop() || token);
+      window.history.replaceState(null, "", res.manageUrl);
+    }
+    setSelectedSlotISO(null);
+    setMode("view");
+    setNotice("Your appointment was rescheduled.");
+  }, [selectedSlotISO, busy, send, timezone, token]);
+
+  const handleCancel = useCallback(async () => {
+    if (busy) return;
+    if (!window.confirm("Cancel this appointment?")) return;
+    setBusy(true);
+    setError(null);
+    const res = await send({ method: "DELETE" });
+    setBusy(false);
+    if (!res.ok) {
+      setError(res.message || "We couldn't cancel this appointment.");
+      return;
+    }
+    setCancelled(true);
+    setMode("view");
+    setNotice("Your appointment was cancelled.");
+  }, [busy, send]);
+
+  return (
+    <div className="space-y-6" aria-live="polite">
+      <div
+        className={`rounded-md p-3 md:p-4 text-sm ${
+          cancelled ? "bg-gray-100 text-gray-700" : "bg-blue-50 text-blue-800"
+        }`}
+      >
+        <strong>
+          {cancelled ? "Cancelled appointment:" : "Your appointment:"}
+        </strong>{" "}
+        <span className={cancelled ? "line-through" : undefined}>
+          <AppointmentTimes
+            slotISO={startISO}
+            timezone={timezone}
+            businessTimezone={businessTimezone}
+          />
+        </span>
+      </div>
+
+      {notice && (
+        <p className="text-sm text-green-700" role="status">
+          {notice}
+        </p>
+      )}
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      {!cancelled && mode === "view" && (
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="button"
+            onClick={() => {
+              setMode("reschedule");
+              setNotice(null);
+              setError(null);
+            }}
+            className={`${BUTTON_BASE} bg-blue-600 text-white hover:bg-blue-700`}
+          >
+            Reschedule
+          </button>
+          <button
+            type="button"
+            onClick={handleCancel}
+            disabled={busy}
+            className={`${BUTTON_BASE} border border-gray-300 bg-white text-gray-700 hover:bg-gray-50`}
+          >
+            Cancel appointment
+          </button>
+        </div>
+      )}
+
+      {!cancelled && mode === "reschedule" && (
+        <div className="space-y-6">
+          <TimezoneSelect value={timezone} onChange={handleTimezoneChange} />
+
+          <BookingStep
+            key={pickerKey}
+            formSlug={formSlug}
+            calendar={calendar}
+            timezone={timezone}
+            minLeadMinutes={minLeadMinutes}
+            onSelect={setSelectedSlotISO}
+          />
+
+          <div className="flex justify-between">
+            <button
+              type="button"
+              onClick={() => {
+                setMode("view");
+                setSelectedSlotISO(null);
+                setError(null);
+              }}
+              className={`${BUTTON_BASE} border border-gray-300 bg-white text-gray-700 hover:bg-gray-50`}
+            >
+              Keep current time
+            </button>
+            <button
+              type="button"
+              onClick={handleReschedule}
+              disabled={!selectedSlotISO || busy}
+              className={`${BUTTON_BASE} bg-blue-600 text-white hover:bg-blue-700`}
+            >
+              {busy ? "Saving…" : "Confirm new time"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {cancelled && (
+        <a
+          href={`/forms/${formSlug}`}
+          className={`${BUTTON_BASE} bg-blue-600 text-white hover:bg-blue-700`}
+        >
+          Book a new appointment
+        </a>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+/**
+ * TimezoneSelect shows which zone booking times are listed in and lets the
+ * visitor switch. Typing filters the runtime's IANA zones by city or region
+ * ("los angeles", "europe/"); picking one calls onChange.
+ */
+
+import { useMemo, useState } from "react";
+import { zoneOffsetLabel } from "@/lib/time";
+
+type TimezoneSelectProps = {
+  value: string;
+  onChange: (tz: string) => void;
+};
+
+// Older browsers without Intl.supportedValuesOf get the common zones
+const FALLBACK_ZONES = [
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Phoenix",
+  "America/Los_Angeles",
+  "America/Anchorage",
+  "Pacific/Honolulu",
+  "America/Toronto",
+  "America/Vancouver",
+  "Europe/London",
+  "Europe/Paris",
+  "Asia/Kolkata",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "UTC",
+];
+
+const MAX_MATCHES = 8;
+
+const zoneName = (tz: string) => tz.replace(/_/g, " ");
+
+export default function TimezoneSelect({
+  value,
+  onChange,
+}: TimezoneSelectProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const zones = useMemo(() => {
+    try {
+      return Intl.supportedValuesOf("timeZone");
+    } catch {
+      return FALLBACK_ZONES;
+    }
+  }, []);
+
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase().replace(/\s+/g, "_");
+    if (!q) return [];
+    return zones
+      .filter((tz) => tz.toLowerCase().includes(q))
+      .slice(0, MAX_MATCHES);
+  }, [zones, query]);
+
+  const pick = (tz: string) => {
+    onChange(tz);
+    setOpen(false);
+    setQuery("");
+  };
+
+  return (
+    <div className="text-sm text-gray-600">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>
+          Times shown in{" "}
+          <strong className="font-medium text-gray-900">
+            {zoneName(value)}
+          </strong>{" "}
+          ({zoneOffsetLabel(value)})
+        </span>
+        <button
+          type="button"
+          onClick={() => setOpen((o) => !o)}
+          className="text-blue-600 hover:underline"
+          aria-expanded={open}
+        >
+          {open ? "Cancel" : "Change"}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-2 space-y-1">
+          <input
+            type="search"
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search city or region, e.g. Los Angeles"
+            aria-label="Search time zones"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {matches.length > 0 && (
+            <ul className="max-h-48 overflow-y-auto rounded-md border border-gray-200">
+              {matches.map((tz) => (
+                <li key={tz}>
+                  <button
+                    type="button"
+                    onClick={() => pick(tz)}
+                    className="flex w-full justify-between px-3 py-2 text-left hover:bg-gray-100"
+                  >
+                    <span className="text-gray-900">{zoneName(tz)}</span>
+                    <span className="text-gray-500">
+                      {zoneOffsetLabel(tz)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {query.trim() && matches.length === 0 && (
+            <p className="text-gray-500">No matching time zones.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
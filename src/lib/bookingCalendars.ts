@@ -0,0 +1,219 @@
+// src/lib/bookingCalendars.ts
+// Forms can book on several LeadConnector calendars (`booking.calendars`),
+// each optionally limited to visitors whose answers match its `showIf` (same
+// shape as field conditions). An answer that isn't known yet never rules a
+// calendar out: a booking-first wizard's time picker offers every calendar's
+// times, and the answers submitted with the booking decide.
+//
+// /api/availability merges the bookable slots of the matching calendars.
+// The hold and appointment routes verify the chosen start on each of them
+// and pick one that has it free, by `booking.assignment`: round-robin (the
+// least recently assigned calendar) or least-loaded (fewest appointments in
+// the seven days from the slot's day; round-robin breaks ties).
+import { getCache, setCache } from "./cache";
+import type { BookingCalendar, BookingConfig } from "./formsRegistry";
+import {
+  cachedAlternatives,
+  getBookableSlots,
+  nearestStarts,
+  verifySlot,
+  type BookableSlots,
+  type SlotsByDate,
+} from "./freeSlots";
+import { lcGetCalendarEvents } from "./leadconnector";
+import { zonedParts } from "./time";
+
+export type BookingAnswers = Record<string, unknown>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOAD_WINDOW_MS = 7 * DAY_MS;
+// Round-robin memory; a calendar unused for longer simply goes first
+const ASSIGNED_TTL_MS = 90 * DAY_MS;
+
+const assignedKey = (calendarId: string) =>
+  `lc:calendar-assigned:${calendarId}`;
+
+export function calendarMatches(
+  cal: BookingCalendar,
+  answers: BookingAnswers = {}
+): boolean {
+  const cond = cal.showIf;
+  if (!cond) return true;
+  const v = answers[cond.fieldId];
+  if (v === undefined || v === null || v === "") return true; // not answered
+  const wanted = Array.isArray(cond.equals) ? cond.equals : [cond.equals];
+  const given = Array.isArray(v) ? v.map(String) : [String(v)];
+  return given.some((g) => wanted.includes(g));
+}
+
+export function matchingCalendars(
+  booking: BookingConfig,
+  answers?: BookingAnswers
+): BookingCalendar[] {
+  return booking.calendars.filter((cal) => calendarMatches(cal, answers));
+}
+
+/** `booking` narrowed to one calendar, for the single-calendar helpers. */
+export function onCalendar(
+  booking: BookingConfig,
+  cal: BookingCalendar
+): BookingConfig & { calendarId: string } {
+  return { ...booking, calendarId: cal.calendarId };
+}
+
+/**
+ * getBookableSlots over several calendars: a start is listed when any of
+ * them has it free. A calendar whose free-slots call fails is skipped with a
+ * warning; this only throws when every calendar fails.
+ */
+export async function getMergedBookableSlots(
+  booking: BookingConfig,
+  calendars: BookingCalendar[],
+  opts: Parameters<typeof getBookableSlots>[1]
+): Promise<BookableSlots> {
+  if (calendars.length === 1)
+    return getBookableSlots(onCalendar(booking, calendars[0]), opts);
+
+  const results = await Promise.allSettled(
+    calendars.map((cal) => getBookableSlots(onCalendar(booking, cal), opts))
+  );
+  const ok: BookableSlots[] = [];
+  results.forEach((r, i) => {
+    if (r.status === "fulfilled") ok.push(r.value);
+    else
+      console.warn(
+        `[bookingCalendars] free slots for "${calendars[i].id}" failed:`,
+        (r.reason as Error)?.message
+      );
+  });
+  if (!ok.length) throw (results[0] as PromiseRejectedResult).reason;
+
+  const byDate = new Map<string, Map<number, string>>();
+  for (const { slots } of ok)
+    for (const [dateKey, { slots: isos }] of Object.entries(slots)) {
+      const day = byDate.get(dateKey) ?? new Map<number, string>();
+      for (const iso of isos)
+        if (!day.has(Date.parse(iso))) day.set(Date.parse(iso), iso);
+      byDate.set(dateKey, day);
+    }
+  const slots: SlotsByDate = {};
+  for (const dateKey of [...byDate.keys()].sort()) {
+    const day = [...byDate.get(dateKey)!].sort(([a], [b]) => a - b);
+    slots[dateKey] = { slots: day.map(([, iso]) => iso) };
+  }
+  return { ...ok[0], slots };
+}
+
+export type CalendarVerification =
+  | { ok: true; verified: boolean; owners: BookingCalendar[] }
+  | { ok: false; alternatives: string[] };
+
+/**
+ * verifySlot on each calendar. `owners` are the calendars that have the
+ * start free (or, when none could be checked, every calendar: fail open);
+ * otherwise `alternatives` merges every calendar's nearest starts.
+ */
+export async function verifySlotOnCalendars(
+  booking: BookingConfig,
+  calendars: BookingCalendar[],
+  startMs: number,
+  tz: string,
+  holdId?: string
+): Promise<CalendarVerification> {
+  const results = await Promise.all(
+    calendars.map((cal) =>
+      verifySlot(onCalendar(booking, cal), startMs, tz, holdId)
+    )
+  );
+  const verified = calendars.filter((_, i) => {
+    const r = results[i];
+    return r.ok && r.verified;
+  });
+  if (verified.length) return { ok: true, verified: true, owners: verified };
+  const unchecked = calendars.filter((_, i) => results[i].ok);
+  if (unchecked.length)
+    return { ok: true, verified: false, owners: unchecked };
+  return {
+    ok: false,
+    alternatives: nearestStarts(
+      results.flatMap((r) => (r.ok ? [] : r.alternatives)),
+      startMs
+    ),
+  };
+}
+
+/** cachedAlternatives merged over the calendars; no free-slots fetch. */
+export async function cachedAlternativesOnCalendars(
+  booking: BookingConfig,
+  calendars: BookingCalendar[],
+  startMs: number,
+  tz: string,
+  holdId?: string
+): Promise<string[]> {
+  const starts = await Promise.all(
+    calendars.map((cal) =>
+      cachedAlternatives(onCalendar(booking, cal), startMs, tz, holdId)
+    )
+  );
+  return nearestStarts(starts.flat(), startMs);
+}
+
+// Appointments on a calendar in the week from the slot's day (not cancelled)
+async function calendarLoad(
+  cal: BookingCalendar,
+  locationId: string,
+  startMs: number,
+  tz: string
+): Promise<number> {
+  const dayStartMs = startMs - zonedParts(startMs, tz).minutes * 60 * 1000;
+  const events = await lcGetCalendarEvents({
+    locationId,
+    calendarId: cal.calendarId,
+    startMs: dayStartMs,
+    endMs: dayStartMs + LOAD_WINDOW_MS,
+  });
+  return events.filter((e) => !/^cancel/i.test(e.appointmentStatus ?? ""))
+    .length;
+}
+
+/** Which of `owners` (all free at `startMs`) gets the booking. */
+export async function assignCalendar(
+  booking: BookingConfig,
+  owners: BookingCalendar[],
+  {
+    startMs,
+    tz,
+    locationId,
+  }: { startMs: number; tz: string; locationId?: string }
+): Promise<BookingCalendar> {
+  if (owners.length === 1) return owners[0];
+
+  // Round-robin: least recently assigned first, registry order on ties
+  const lastAssigned = await Promise.all(
+    owners.map((cal) => getCache<number>(assignedKey(cal.calendarId)))
+  );
+  const queue = owners
+    .map((cal, i) => ({ cal, at: lastAssigned[i] ?? 0, i }))
+    .sort((a, b) => a.at - b.at || a.i - b.i)
+    .map((q) => q.cal);
+  if (booking.assignment !== "least-loaded" || !locationId) return queue[0];
+
+  try {
+    const loads = await Promise.all(
+      queue.map((cal) => calendarLoad(cal, locationId, startMs, tz))
+    );
+    const least = loads.indexOf(Math.min(...loads));
+    return queue[least];
+  } catch (e) {
+    console.warn(
+      "[bookingCalendars] load lookup failed; using round-robin:",
+      (e as Error).message
+    );
+    return queue[0];
+  }
+}
+
+/** Remember the assignment, so round-robin moves on to the next calendar. */
+export async function recordAssignment(cal: BookingCalendar): Promise<void> {
+  await setCache(assignedKey(cal.calendarId), Date.now(), ASSIGNED_TTL_MS);
+}
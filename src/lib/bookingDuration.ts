@@ -0,0 +1,101 @@
+// src/lib/bookingDuration.ts
+// How long a booked appointment lasts. The registry sets
+// `booking.durationMinutes` (default 60) and `bufferMinutes`; with
+// `durationFromCalendar` the LeadConnector calendar's own slot length wins,
+// so the badge, the offered slots and the created appointment all agree with
+// what the calendar owner configured. Calendar lookups are cached for an hour
+// and fall back to the registry value when LeadConnector can't be reached.
+import { getCache, setCache } from "./cache";
+import type { BookingConfig } from "./formsRegistry";
+import { lcGetCalendar } from "./leadconnector";
+
+export type BookingDuration = {
+  durationMinutes: number;
+  bufferMinutes: number;
+  source: "registry" | "calendar";
+};
+
+const CALENDAR_TTL_MS = 60 * 60 * 1000;
+
+// The calendar's own slot length in minutes; undefined when unreadable
+export async function getCalendarSlotMinutes(
+  calendarId: string
+): Promise<number | undefined> {
+  const key = `lc:calendar-duration:${calendarId}`;
+  const cached = await getCache<number>(key);
+  if (cached) return cached;
+  try {
+    const cal = await lcGetCalendar(calendarId);
+    const n = Number(cal.slotDuration);
+    if (!(n > 0)) return undefined;
+    const minutes = /^hour/i.test(cal.slotDurationUnit ?? "") ? n * 60 : n;
+    await setCache(key, minutes, CALENDAR_TTL_MS);
+    return minutes;
+  } catch (e) {
+    console.warn(
+      `[bookingDuration] calendar ${calendarId} lookup failed:`,
+      (e as Error).message
+    );
+    return undefined;
+  }
+}
+
+export async function resolveBookingDuration(
+  booking: BookingConfig
+): Promise<BookingDuration> {
+  const fromRegistry: BookingDuration = {
+    durationMinutes: booking.durationMinutes,
+    bufferMinutes: booking.bufferMinutes,
+    source: "registry",
+  };
+  if (!booking.durationFromCalendar || !booking.calendarId)
+    return fromRegistry;
+  const minutes = await getCalendarSlotMinutes(booking.calendarId);
+  return minutes
+    ? { ...fromRegistry, durationMinutes: minutes, source: "calendar" }
+    : fromRegistry;
+}
+
+// "30 Mins", "1 Hr", "1 Hr 30 Mins" (the intro card badge)
+export function formatDurationLabel(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  const parts = [
+    h ? `${h} ${h === 1 ? "Hr" : "Hrs"}` : "",
+    m ? `${m} ${m === 1 ? "Min" : "Mins"}` : "",
+  ];
+  return parts.filter(Boolean).join(" ");
+}
+
+/**
+ * Keep only the slots that are free for the whole appointment plus buffer.
+ * LeadConnector only guarantees `slotMinutes` (the calendar's slot length)
+ * after each listed start, so when we need longer, the slot must be followed
+ * by further listed starts covering the rest. Without a known slot length the
+ * spacing between listed starts stands in for it.
+ */
+export function slotsThatFit(
+  slots: string[],
+  { durationMinutes, bufferMinutes }: BookingDuration,
+  slotMinutes?: number
+): string[] {
+  const needMs = (durationMinutes + bufferMinutes) * 60 * 1000;
+  const times = slots.map((iso) => Date.parse(iso));
+  const free = new Set(times);
+
+  let coverMs = (slotMinutes ?? 0) * 60 * 1000;
+  if (!coverMs) {
+    const sorted = [...free].sort((a, b) => a - b);
+    coverMs = Infinity;
+    for (let i = 1; i < sorted.length; i++)
+      coverMs = Math.min(coverMs, sorted[i] - sorted[i - 1]);
+  }
+  if (!Number.isFinite(coverMs) || coverMs <= 0 || coverMs >= needMs)
+    return slots;
+
+  return slots.filter((_, i) => {
+    for (let t = times[i] + coverMs; t < times[i] + needMs; t += coverMs)
+      if (!free.has(t)) return false;
+    return true;
+  });
+}
@@ -0,0 +1,90 @@
+// src/lib/bookingLinkStore.ts
+// Current manage-link version per appointment. Every manage token carries
+// the version it was issued at; a reschedule bumps the appointment's version
+// and hands out a link with the new one, so every older link (and its .ics
+// link) stops working, even one that would otherwise sign the same bytes.
+//
+// Versions live in a BookingLinkStore: process-local memory, or Redis
+// (INCR) so every instance of a multi-instance deploy agrees. Unlike the
+// other stores it does not fail open: an outage surfaces as an error
+// rather than letting a superseded link through.
+import { getRedisClient, type RespClient } from "./resp";
+
+export interface BookingLinkStore {
+  readonly kind: "memory" | "redis";
+  /** The appointment's current link version (0 until first rescheduled). */
+  version(appointmentId: string): Promise<number>;
+  /** Move to the next version, kept for `ttlMs`; returns it. */
+  bump(appointmentId: string, ttlMs: number): Promise<number>;
+}
+
+// Process-local versions; fine for dev and single-instance deploys.
+export class MemoryBookingLinkStore implements BookingLinkStore {
+  readonly kind = "memory" as const;
+  private versions = new Map<string, { version: number; expiresAt: number }>();
+
+  async version(appointmentId: string) {
+    const v = this.versions.get(appointmentId);
+    return v && v.expiresAt > Date.now() ? v.version : 0;
+  }
+
+  async bump(appointmentId: string, ttlMs: number) {
+    const version = (await this.version(appointmentId)) + 1;
+    this.versions.set(appointmentId, {
+      version,
+      expiresAt: Date.now() + ttlMs,
+    });
+    return version;
+  }
+}
+
+const BUMP_LUA = `
+local v = redis.call("INCR", KEYS[1])
+redis.call("PEXPIRE", KEYS[1], ARGV[1])
+return v
+`;
+
+export class RedisBookingLinkStore implements BookingLinkStore {
+  readonly kind = "redis" as const;
+
+  constructor(private client: RespClient, private prefix = "ghlv:link:") {}
+
+  async version(appointmentId: string) {
+    const raw = await this.client.command(["GET", this.prefix + appointmentId]);
+    return typeof raw === "string" ? Number(raw) || 0 : 0;
+  }
+
+  async bump(appointmentId: string, ttlMs: number) {
+    const out = await this.client.command([
+      "EVAL",
+      BUMP_LUA,
+      1,
+      this.prefix + appointmentId,
+      Math.max(Math.ceil(ttlMs), 1),
+    ]);
+    return Number(out);
+  }
+}
+
+let store: BookingLinkStore | null = null;
+
+/**
+ * BOOKING_LINK_STORE=memory | redis (default: redis when CACHE_STORE=redis).
+ * Redis needs REDIS_URL (see resp.ts).
+ */
+export function getBookingLinkStore(): BookingLinkStore {
+  if (store) return store;
+  const kind = (
+    process.env.BOOKING_LINK_STORE ||
+    (process.env.CACHE_STORE === "redis" ? "redis" : "memory")
+  ).toLowerCase();
+  const redis = kind === "redis" ? getRedisClient() : null;
+  if (kind !== "memory" && !redis)
+    console.warn(
+      `[bookingLinks] BOOKING_LINK_STORE=${kind} unusable; using memory (REDIS_URL set?)`
+    );
+  store = redis
+    ? new RedisBookingLinkStore(redis)
+    : new MemoryBookingLinkStore();
+  return store;
+}
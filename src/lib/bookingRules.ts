@@ -0,0 +1,156 @@
+// src/lib/bookingRules.ts
+// When a form takes bookings: allowed weekdays, a daily window, blackout
+// dates, same-day and how far ahead. /api/availability uses it to decide
+// which slots to offer and /api/appointments to re-check the chosen one, so
+// the two can never disagree. Everything is evaluated in the booking
+// timezone (the business's), not the visitor's.
+import {
+  WEEKDAYS,
+  type BookingRulesDefinition,
+  type Weekday,
+} from "./registrySchema";
+import { daysBetweenKeys, zonedParts } from "./time";
+
+export type BookingRules = {
+  weekdays: Weekday[];
+  hours: { start: number; end: number } | null; // minutes past midnight
+  blackouts: { from: string; to: string }[]; // inclusive date keys
+  allowSameDay: boolean;
+  maxDaysAhead: number | null;
+};
+
+// The rules this app always had: Monday–Friday, from tomorrow on
+export const DEFAULT_BOOKING_RULES: BookingRules = {
+  weekdays: ["mon", "tue", "wed", "thu", "fri"],
+  hours: null,
+  blackouts: [],
+  allowSameDay: false,
+  maxDaysAhead: null,
+};
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+};
+
+export function resolveBookingRules(
+  def?: BookingRulesDefinition
+): BookingRules {
+  return {
+    weekdays: def?.weekdays ?? DEFAULT_BOOKING_RULES.weekdays,
+    hours: def?.hours
+      ? { start: toMinutes(def.hours.start), end: toMinutes(def.hours.end) }
+      : null,
+    blackouts: (def?.blackoutDates ?? []).map((d) => {
+      const [from, to] = d.split("..");
+      return { from, to: to ?? from };
+    }),
+    allowSameDay: def?.allowSameDay ?? DEFAULT_BOOKING_RULES.allowSameDay,
+    maxDaysAhead: def?.maxDaysAhead ?? null,
+  };
+}
+
+export type BookingRuleViolation =
+  | "lead_time"
+  | "same_day"
+  | "weekday"
+  | "outside_hours"
+  | "blackout"
+  | "too_far_ahead";
+
+export type SlotCheck =
+  | { ok: true }
+  | { ok: false; rule: BookingRuleViolation; message: string };
+
+const DAY_NAMES: Record<Weekday, string> = {
+  sun: "Sunday",
+  mon: "Monday",
+  tue: "Tuesday",
+  wed: "Wednesday",
+  thu: "Thursday",
+  fri: "Friday",
+  sat: "Saturday",
+};
+
+const hhmm = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+    minutes % 60
+  ).padStart(2, "0")}`;
+
+function weekdayMessage(days: Weekday[]): string {
+  const sorted = WEEKDAYS.filter((d) => days.includes(d));
+  if (sorted.join() === "mon,tue,wed,thu,fri")
+    return "Weekend bookings are not available. Please choose Monday–Friday.";
+  const names = sorted.map((d) => DAY_NAMES[d]);
+  const list =
+    names.length > 1
+      ? `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}`
+      : names[0];
+  return `Bookings are not available on that day. Please choose ${list}.`;
+}
+
+/**
+ * Check one appointment start against the rules. `minLeadMinutes` is the
+ * form's lead time; `durationMinutes` must fit inside the daily window.
+ */
+export function checkSlot(
+  startMs: number,
+  rules: BookingRules,
+  opts: {
+    tz: string;
+    durationMinutes: number;
+    minLeadMinutes: number;
+    now?: number;
+  }
+): SlotCheck {
+  const now = opts.now ?? Date.now();
+  const fail = (rule: BookingRuleViolation, message: string): SlotCheck => ({
+    ok: false,
+    rule,
+    message,
+  });
+  const start = zonedParts(startMs, opts.tz);
+  const today = zonedParts(now, opts.tz).dateKey;
+
+  if (startMs < now + opts.minLeadMinutes * 60_000)
+    return fail(
+      "lead_time",
+      "That time is too soon. Please choose a later time."
+    );
+  if (!rules.allowSameDay && start.dateKey === today)
+    return fail(
+      "same_day",
+      "Same-day bookings are not allowed. Please choose a time starting tomorrow."
+    );
+  if (!rules.weekdays.includes(WEEKDAYS[start.weekday]))
+    return fail("weekday", weekdayMessage(rules.weekdays));
+  if (rules.hours) {
+    const end = zonedParts(startMs + opts.durationMinutes * 60_000, opts.tz);
+    const endMinutes =
+      end.dateKey === start.dateKey ? end.minutes : 24 * 60 + end.minutes;
+    if (start.minutes < rules.hours.start || endMinutes > rules.hours.end)
+      return fail(
+        "outside_hours",
+        `Bookings are available between ${hhmm(rules.hours.start)} and ${hhmm(
+          rules.hours.end
+        )}. Please choose another time.`
+      );
+  }
+  const blackedOut = rules.blackouts.some(
+    (b) => start.dateKey >= b.from && start.dateKey <= b.to
+  );
+  if (blackedOut)
+    return fail(
+      "blackout",
+      "We're not taking bookings on that date. Please choose another day."
+    );
+  if (
+    rules.maxDaysAhead !== null &&
+    daysBetweenKeys(today, start.dateKey) > rules.maxDaysAhead
+  )
+    return fail(
+      "too_far_ahead",
+      `Bookings can be made up to ${rules.maxDaysAhead} days ahead. Please choose an earlier date.`
+    );
+  return { ok: true };
+}
@@ -0,0 +1,131 @@
+// src/lib/bookingToken.ts
+// Signed manage-booking links (/booking/<token>). After /api/appointments
+// books, the visitor gets a link that can show, reschedule or cancel that one
+// appointment without an account. The token is `<payload>.<hmac>`: base64url
+// JSON naming the appointment, contact and form. It carries no expiry of its
+// own: manageBooking.ts retires it once the LeadConnector appointment starts
+// or a reschedule issues a fresh link.
+//
+// Contact tokens are the same shape for contact-first booking wizards: the
+// lead step (/api/lead) returns one naming the contact it upserted and the
+// answers it saw, and the appointment step presents it instead of the contact
+// details. Each carries an `id` so /api/appointments can honor it only once.
+//
+// BOOKING_LINK_SECRET signs links; it falls back to FORM_TOKEN_SECRET. Set
+// one of them in production: a per-process secret breaks links on restart.
+import crypto from "node:crypto";
+import { getTokenSecret } from "./formToken";
+
+export type BookingTokenPayload = {
+  appointmentId: string;
+  contactId: string;
+  formSlug: string;
+  startISO: string; // as booked; LeadConnector's start wins once moved
+  timezone?: string; // the visitor's zone at booking time
+  version?: number; // link version (bookingLinkStore.ts); unset at booking
+};
+
+export type BookingTokenCheck =
+  | { status: "ok"; booking: BookingTokenPayload }
+  | { status: "invalid" };
+
+export type ContactTokenPayload = {
+  id: string; // single-use: /api/appointments claims it
+  contactId: string;
+  formSlug: string;
+  answers: Record<string, unknown>; // as validated by /api/lead
+  expiresAt: number; // epoch ms
+};
+
+export type ContactTokenCheck =
+  | { status: "ok"; contact: ContactTokenPayload }
+  | { status: "invalid" | "expired" };
+
+// Long enough to pick a time, short enough that a leaked token goes stale
+const CONTACT_TOKEN_TTL_MS = 2 * 60 * 60 * 1000;
+
+// The purpose keeps one kind of token from passing as the other
+function sign(data: string, purpose = "booking"): string {
+  const secret = process.env.BOOKING_LINK_SECRET?.trim() || getTokenSecret();
+  return crypto
+    .createHmac("sha256", `${purpose}:${secret}`)
+    .update(data)
+    .digest("base64url");
+}
+
+// `<payload>` of a well-signed token, else null
+function verified(token: unknown, purpose?: string): string | null {
+  if (typeof token !== "string") return null;
+  const [data, sig] = token.split(".");
+  if (!data || !sig) return null;
+
+  const expected = Buffer.from(sign(data, purpose));
+  const given = Buffer.from(sig);
+  if (
+    expected.length !== given.length ||
+    !crypto.timingSafeEqual(expected, given)
+  )
+    return null;
+  return data;
+}
+
+function decode<T>(data: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(data, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+export function issueBookingToken(booking: BookingTokenPayload): string {
+  const data = Buffer.from(JSON.stringify(booking)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+export function manageBookingPath(booking: BookingTokenPayload): string {
+  return `/booking/${issueBookingToken(booking)}`;
+}
+
+/** A well-formed, correctly signed link; expiry is the caller's call. */
+export function checkBookingToken(token: unknown): BookingTokenCheck {
+  const data = verified(token);
+  const booking = data ? decode<BookingTokenPayload>(data) : null;
+  if (!booking?.appointmentId || !booking.contactId || !booking.formSlug)
+    return { status: "invalid" };
+  if (isNaN(Date.parse(booking.startISO))) return { status: "invalid" };
+  return { status: "ok", booking };
+}
+
+export function issueContactToken(
+  contactId: string,
+  formSlug: string,
+  answers: Record<string, unknown>,
+  now = Date.now()
+): string {
+  const contact: ContactTokenPayload = {
+    id: crypto.randomUUID(),
+    contactId,
+    formSlug,
+    answers,
+    expiresAt: now + CONTACT_TOKEN_TTL_MS,
+  };
+  const data = Buffer.from(JSON.stringify(contact)).toString("base64url");
+  return `${data}.${sign(data, "contact")}`;
+}
+
+/** A contact token issued for `formSlug`; other forms' tokens are invalid. */
+export function checkContactToken(
+  token: unknown,
+  formSlug: string,
+  now = Date.now()
+): ContactTokenCheck {
+  const data = verified(token, "contact");
+  const contact = data ? decode<ContactTokenPayload>(data) : null;
+  if (!contact?.id || !contact.contactId || contact.formSlug !== formSlug)
+    return { status: "invalid" };
+  if (!contact.answers || typeof contact.answers !== "object")
+    return { status: "invalid" };
+  if (typeof contact.expiresAt !== "number") return { status: "invalid" };
+  if (now >= contact.expiresAt) return { status: "expired" };
+  return { status: "ok", contact };
+}
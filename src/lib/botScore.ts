@@ -0,0 +1,112 @@
+// src/lib/botScore.ts
+// Spam defence beyond the captcha. Each signal (honeypot, time-to-submit,
+// interaction counts, name and email quality) adds weight to a 0..1 score;
+// the form's policy decides whether a high score silently tags the contact or
+// drops the lead. Signals rather than hard blocks, because any one of them can
+// misfire on a real person (autofill, password managers, an old tab).
+import { BOT_MIN_SUBMIT_SECONDS, BOT_TAG, BOT_TAG_THRESHOLD } from "./config";
+import { checkFormToken } from "./formToken";
+import { validateHumanName } from "./name";
+import type { BotPolicyDefinition } from "./registrySchema";
+import type { EmailResult } from "./validationTypes";
+
+export type BotPolicy = {
+  enabled: boolean;
+  tagThreshold: number;
+  rejectThreshold: number | null; // null: never drop, only tag
+  tag: string;
+  minSubmitSeconds: number;
+};
+
+export const DEFAULT_BOT_POLICY: BotPolicy = {
+  enabled: true,
+  tagThreshold: BOT_TAG_THRESHOLD,
+  rejectThreshold: null,
+  tag: BOT_TAG,
+  minSubmitSeconds: BOT_MIN_SUBMIT_SECONDS,
+};
+
+export function resolveBotPolicy(def?: BotPolicyDefinition): BotPolicy {
+  return { ...DEFAULT_BOT_POLICY, ...def };
+}
+
+// Sent by LeadForm as `botCheck` next to the contact fields
+export type BotCheckPayload = {
+  formToken?: string; // issueFormToken() from the page render
+  honeypot?: string; // hidden "website" input; humans leave it empty
+  keys?: number; // keydown count
+  pointer?: number; // pointerdown count (mouse, touch, pen)
+};
+
+export type BotSignal =
+  | "honeypot"
+  | "too_fast"
+  | "token_missing"
+  | "token_invalid"
+  | "token_expired"
+  | "no_interaction"
+  | "suspicious_name"
+  | "low_email_confidence";
+
+const WEIGHTS: Record<BotSignal, number> = {
+  honeypot: 1,
+  too_fast: 0.6,
+  token_missing: 0.4, // scripted POST that never loaded the page
+  token_invalid: 0.4,
+  token_expired: 0.2,
+  no_interaction: 0.3,
+  suspicious_name: 0.3,
+  low_email_confidence: 0.2,
+};
+
+export type BotVerdict = {
+  score: number;
+  signals: BotSignal[];
+  action: "pass" | "tag" | "reject";
+};
+
+export function scoreSubmission(
+  input: {
+    slug: string;
+    check?: BotCheckPayload | null;
+    firstName?: string;
+    lastName?: string;
+    email?: EmailResult;
+  },
+  policy: BotPolicy = DEFAULT_BOT_POLICY,
+  now = Date.now()
+): BotVerdict {
+  if (!policy.enabled) return { score: 0, signals: [], action: "pass" };
+  const check = input.check ?? {};
+  const signals: BotSignal[] = [];
+
+  if (typeof check.honeypot === "string" && check.honeypot.trim())
+    signals.push("honeypot");
+
+  const token = checkFormToken(input.slug, check.formToken, now);
+  if (token.status === "ok") {
+    if (token.ageMs < policy.minSubmitSeconds * 1000) signals.push("too_fast");
+  } else {
+    signals.push(`token_${token.status}` as const);
+  }
+
+  if (!(Number(check.keys) > 0 || Number(check.pointer) > 0))
+    signals.push("no_interaction");
+
+  const names = [input.firstName ?? "", input.lastName ?? ""];
+  if (names.some((n) => !validateHumanName(n).valid))
+    signals.push("suspicious_name");
+
+  // "unknown" means the providers were down, which says nothing about bots
+  if (input.email?.confidence === "low") signals.push("low_email_confidence");
+
+  const sum = signals.reduce((acc, s) => acc + WEIGHTS[s], 0);
+  const score = Math.min(1, Math.round(sum * 100) / 100);
+  const action =
+    policy.rejectThreshold !== null && score >= policy.rejectThreshold
+      ? "reject"
+      : score >= policy.tagThreshold
+      ? "tag"
+      : "pass";
+  return { score, signals, action };
+}
@@ -1,26 +1,45 @@
-// Simple in-memory TTL cache
-type CacheEntry<T> = { value: T; expiresAt: number };
+// Simple TTL cache over the configured CacheStore (memory, file or Redis;
+// see cacheStore.ts). A cache must never fail a validation, so backend
+// errors are logged and treated as a miss / skipped write.
+import { getCacheStore } from "./cacheStore";
 
-const cacheStore = new Map<string, CacheEntry<any>>();
-
-export function getCache<T = any>(key: string): T | undefined {
-  const entry = cacheStore.get(key);
-  if (!entry) return undefined;
-  if (Date.now() > entry.expiresAt) {
-    cacheStore.delete(key);
+export async function getCache<T = any>(key: string): Promise<T | undefined> {
+  try {
+    return await getCacheStore().get<T>(key);
+  } catch (e) {
+    console.warn("[cache] get failed:", (e as Error).message);
     return undefined;
   }
-  return entry.value as T;
 }
 
-export function setCache<T = any>(key: string, value: T, ttlMs: number): void {
-  cacheStore.set(key, { value, expiresAt: Date.now() + ttlMs });
+export async function setCache<T = any>(
+  key: string,
+  value: T,
+  ttlMs: number
+): Promise<void> {
+  try {
+    await getCacheStore().set(key, value, ttlMs);
+  } catch (e) {
+    console.warn("[cache] set failed:", (e as Error).message);
+  }
 }
 
-export function clearCacheKey(key: string): void {
-  cacheStore.delete(key);
+export async function clearCacheKey(key: string): Promise<void> {
+  try {
+    await getCacheStore().delete(key);
+  } catch (e) {
+    console.warn("[cache] delete failed:", (e as Error).message);
+  }
 }
 
-export function getCacheStats(): { size: number } {
-  return { size: cacheStore.size };
+export async function getCacheStats(): Promise<{
+  store: string;
+  size: number | null; // null when the backend is unreachable
+}> {
+  const store = getCacheStore();
+  try {
+    return { store: store.kind, size: await store.size() };
+  } catch {
+    return { store: store.kind, size: null };
+  }
 }
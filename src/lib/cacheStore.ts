@@ -0,0 +1,196 @@
+// src/lib/cacheStore.ts
+// Storage backends for the validation cache (cache.ts). The process-local
+// map is fine for `next dev` and single-instance deploys; on serverless or
+// multi-instance deploys use the Redis store so every instance shares the
+// same ZeroBounce / PhoneValidator answers.
+import { promises as fs } from "node:fs";
+import crypto from "node:crypto";
+import os from "node:os";
+import path from "node:path";
+import { getRedisClient, type RespClient } from "./resp";
+
+export type CacheStoreKind = "memory" | "file" | "redis";
+
+export interface CacheStore {
+  readonly kind: CacheStoreKind;
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  set<T = unknown>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Remaining lifetime in ms; undefined when the key is missing/expired. */
+  ttl(key: string): Promise<number | undefined>;
+  /** Live entries (Redis: keys in the selected database). */
+  size(): Promise<number>;
+}
+
+type CacheEntry<T> = { value: T; expiresAt: number };
+
+const isLive = (e: CacheEntry<unknown>, now = Date.now()) => e.expiresAt > now;
+
+// Process-local TTL map (the original cache).
+export class MemoryCacheStore implements CacheStore {
+  readonly kind = "memory" as const;
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  private live(key: string): CacheEntry<unknown> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (!isLive(entry)) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.live(key)?.value as T | undefined;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async ttl(key: string): Promise<number | undefined> {
+    const entry = this.live(key);
+    return entry ? entry.expiresAt - Date.now() : undefined;
+  }
+
+  async size(): Promise<number> {
+    const now = Date.now();
+    for (const [k, e] of this.entries)
+      if (!isLive(e, now)) this.entries.delete(k);
+    return this.entries.size;
+  }
+}
+
+// One JSON file per key (hashed name), written via temp file + rename.
+// Shared by every process on the same disk (e.g. PM2 cluster workers).
+export class FileCacheStore implements CacheStore {
+  readonly kind = "file" as const;
+
+  constructor(private dir: string) {}
+
+  private fileFor(key: string) {
+    const hash = crypto.createHash("sha256").update(key).digest("hex");
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  private async read(file: string): Promise<CacheEntry<unknown> | undefined> {
+    try {
+      const entry = JSON.parse(await fs.readFile(file, "utf8"));
+      if (isLive(entry)) return entry;
+      await fs.rm(file, { force: true });
+    } catch {
+      // missing or half-written file → miss
+    }
+    return undefined;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return (await this.read(this.fileFor(key)))?.value as T | undefined;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.fileFor(key);
+    const tmp = `${file}.${process.pid}.tmp`;
+    const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttlMs };
+    await fs.writeFile(tmp, JSON.stringify(entry), "utf8");
+    await fs.rename(tmp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async ttl(key: string): Promise<number | undefined> {
+    const entry = await this.read(this.fileFor(key));
+    return entry ? entry.expiresAt - Date.now() : undefined;
+  }
+
+  // Also sweeps expired files, so calling it now and then keeps the dir small
+  async size(): Promise<number> {
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch {
+      return 0;
+    }
+    let count = 0;
+    for (const name of names) {
+      if (!name.endsWith(".json")) continue;
+      if (await this.read(path.join(this.dir, name))) count++;
+    }
+    return count;
+  }
+}
+
+// Any RESP server (Redis, Valkey, Upstash's Redis endpoint...). Values are
+// JSON strings under `prefix`, expiry is native (SET ... PX).
+export class RedisCacheStore implements CacheStore {
+  readonly kind = "redis" as const;
+
+  constructor(private client: RespClient, private prefix = "ghlv:") {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const raw = await this.client.command(["GET", this.prefix + key]);
+    return typeof raw === "string" ? (JSON.parse(raw) as T) : undefined;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await this.client.command([
+      "SET",
+      this.prefix + key,
+      JSON.stringify(value),
+      "PX",
+      Math.max(1, Math.round(ttlMs)),
+    ]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command(["DEL", this.prefix + key]);
+  }
+
+  async ttl(key: string): Promise<number | undefined> {
+    const ms = await this.client.command(["PTTL", this.prefix + key]);
+    // -2: no such key; -1: no expiry (not written by us)
+    if (typeof ms !== "number" || ms === -2) return undefined;
+    return ms === -1 ? Number.POSITIVE_INFINITY : ms;
+  }
+
+  async size(): Promise<number> {
+    const n = await this.client.command(["DBSIZE"]);
+    return typeof n === "number" ? n : 0;
+  }
+}
+
+let store: CacheStore | null = null;
+
+/**
+ * CACHE_STORE=memory (default) | file | redis
+ * CACHE_DIR defaults to <os tmpdir>/ghl-validation-cache (file store).
+ * REDIS_URL (see resp.ts), CACHE_PREFIX (default "ghlv:").
+ */
+export function getCacheStore(): CacheStore {
+  if (store) return store;
+  const kind = (process.env.CACHE_STORE || "memory").toLowerCase();
+
+  const redis = kind === "redis" ? getRedisClient() : null;
+  if (redis) {
+    store = new RedisCacheStore(redis, process.env.CACHE_PREFIX ?? "ghlv:");
+  } else if (kind === "file") {
+    store = new FileCacheStore(
+      process.env.CACHE_DIR || path.join(os.tmpdir(), "ghl-validation-cache")
+    );
+  } else {
+    if (kind !== "memory")
+      console.warn(
+        `[cacheStore] CACHE_STORE=${kind} unusable; using memory (REDIS_URL set?)`
+      );
+    store = new MemoryCacheStore();
+  }
+  return store;
+}
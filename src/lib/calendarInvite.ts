@@ -0,0 +1,268 @@
+// src/lib/calendarInvite.ts
+// "Add to calendar" for booked appointments: an RFC 5545 iCalendar file
+// (served by /api/appointments/<id>/ics) and Google / Outlook compose links
+// for the booking confirmation.
+//
+// Times are written in the business's zone with a VTIMEZONE built from the
+// runtime's tz data (the zone's transitions a year either side of the
+// appointment), so calendar apps show the right local time without having
+// to know the IANA name.
+import type { FormConfigResolved } from "./formsRegistry";
+import { zonedParts, zoneOffsetMinutes } from "./time";
+import { BOOKING_ORGANIZER_EMAIL, BOOKING_ORGANIZER_NAME } from "./config";
+
+export type CalendarEvent = {
+  uid: string;
+  title: string;
+  startISO: string;
+  endISO: string;
+  timezone: string; // IANA; TZID of DTSTART/DTEND
+  description?: string;
+  url?: string;
+  cancelled?: boolean;
+};
+
+export type CalendarLinks = {
+  ics: string;
+  google: string;
+  outlook: string;
+  office365: string;
+};
+
+const DAY_MS = 86_400_000;
+const WEEK_MS = 7 * DAY_MS;
+
+/** The event for a LeadConnector appointment booked through `form`. */
+export function bookingCalendarEvent(args: {
+  appointmentId: string;
+  form: FormConfigResolved;
+  startISO: string;
+  endISO: string;
+  timezone: string;
+  description?: string;
+  url?: string;
+  cancelled?: boolean;
+}): CalendarEvent {
+  const { appointmentId, form, ...rest } = args;
+  return {
+    ...rest,
+    uid: `lc-appointment-${appointmentId}`,
+    title: `${form.name || "Appointment"} with ${BOOKING_ORGANIZER_NAME}`,
+  };
+}
+
+/**
+ * Description lines from the form's answers, as written to the contact's
+ * custom fields ("Project type: Boiler"). Takes CF values so the booking
+ * (answers → buildCustomFields) and the ICS route (contact CFs) agree.
+ */
+export function bookingDescription(
+  form: FormConfigResolved,
+  customFields: { id: string; value?: unknown }[],
+  manageUrl?: string
+): string {
+  const byId = new Map(customFields.map((cf) => [cf.id, cf.value]));
+  const lines: string[] = [];
+  for (const field of form.sections.flatMap((s) => s.fields)) {
+    if (!field.mapCustomFieldId) continue;
+    const raw = byId.get(field.mapCustomFieldId);
+    const value = Array.isArray(raw) ? raw.join(", ") : raw;
+    if (typeof value !== "string" && typeof value !== "number") continue;
+    if (!String(value).trim()) continue;
+    lines.push(`${field.label || field.id}: ${value}`);
+  }
+  if (manageUrl) {
+    if (lines.length) lines.push("");
+    lines.push(`Reschedule or cancel: ${manageUrl}`);
+  }
+  return lines.join("\n");
+}
+
+// ---------- iCalendar ----------
+
+// TEXT escaping (RFC 5545 §3.3.11)
+const escapeText = (s: string) =>
+  s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space;
+// never split inside a UTF-8 character
+function fold(line: string): string {
+  const out: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch);
+    if (octets + size > (out.length ? 74 : 75)) {
+      out.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  out.push(current);
+  return out.join("\r\n ");
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// 20250304T150000Z
+const utcStamp = (ms: number) =>
+  new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// Wall-clock 20250304T100000 of an instant in tz
+function localStamp(ms: number, tz: string): string {
+  const p = zonedParts(ms, tz);
+  const hhmm = `${pad(Math.floor(p.minutes / 60))}${pad(p.minutes % 60)}`;
+  return `${p.dateKey.replace(/-/g, "")}T${hhmm}00`;
+}
+
+// Wall-clock stamp of an instant at a fixed UTC offset
+const offsetStamp = (ms: number, offset: number) =>
+  utcStamp(ms + offset * 60_000).replace("Z", "");
+
+// -0500
+function offsetLabel(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+// Instants in [fromMs, toMs) where tz's UTC offset changes. Weekly steps
+// (transitions are months apart), then a binary search to the minute.
+function offsetTransitions(tz: string, fromMs: number, toMs: number) {
+  const found: { at: number; from: number; to: number }[] = [];
+  let prevMs = fromMs;
+  let prev = zoneOffsetMinutes(tz, prevMs);
+  for (let t = fromMs + WEEK_MS; t < toMs + WEEK_MS; t += WEEK_MS) {
+    const curr = zoneOffsetMinutes(tz, t);
+    if (curr !== prev) {
+      let lo = prevMs;
+      let hi = t;
+      while (hi - lo > 60_000) {
+        const mid = lo + Math.floor((hi - lo) / 120_000) * 60_000;
+        if (zoneOffsetMinutes(tz, mid) === prev) lo = mid;
+        else hi = mid;
+      }
+      found.push({ at: hi, from: prev, to: curr });
+    }
+    prevMs = t;
+    prev = curr;
+  }
+  return found;
+}
+
+function vtimezone(tz: string, startMs: number): string[] {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${tz}`];
+  const transitions = offsetTransitions(
+    tz,
+    startMs - 366 * DAY_MS,
+    startMs + 366 * DAY_MS
+  );
+  // No transition at or before the appointment (no DST, or DST that only
+  // starts later): a fixed observance covers it
+  const first = transitions[0];
+  if (!first || first.at > startMs) {
+    const offset = offsetLabel(first?.from ?? zoneOffsetMinutes(tz, startMs));
+    const kind = first && first.from > first.to ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${kind}`,
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      `END:${kind}`
+    );
+  }
+  for (const { at, from, to } of transitions) {
+    const kind = to > from ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${offsetStamp(at, from)}`,
+      `TZOFFSETFROM:${offsetLabel(from)}`,
+      `TZOFFSETTO:${offsetLabel(to)}`,
+      `END:${kind}`
+    );
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+/** A single-event VCALENDAR (CRLF line endings, folded). */
+export function buildIcs(event: CalendarEvent, now = Date.now()): string {
+  const startMs = Date.parse(event.startISO);
+  const endMs = Date.parse(event.endISO);
+  const tz = event.timezone;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${BOOKING_ORGANIZER_NAME}//Booking//EN`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...vtimezone(tz, startMs),
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${utcStamp(now)}`,
+    `DTSTART;TZID=${tz}:${localStamp(startMs, tz)}`,
+    `DTEND;TZID=${tz}:${localStamp(endMs, tz)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+  if (event.description)
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (BOOKING_ORGANIZER_EMAIL) {
+    const cn = BOOKING_ORGANIZER_NAME.replace(/"/g, "'");
+    lines.push(`ORGANIZER;CN="${cn}":mailto:${BOOKING_ORGANIZER_EMAIL}`);
+  }
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push(
+    `STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR"
+  );
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+// ---------- compose links ----------
+
+function outlookLink(host: string, event: CalendarEvent): string {
+  const params = new URLSearchParams({
+    path: "/calendar/action/compose",
+    rru: "addevent",
+    subject: event.title,
+    startdt: new Date(event.startISO).toISOString(),
+    enddt: new Date(event.endISO).toISOString(),
+    body: event.description ?? "",
+  });
+  return `https://${host}/calendar/0/deeplink/compose?${params}`;
+}
+
+/** Google / Outlook.com / Office 365 compose links plus the given ICS URL. */
+export function calendarLinks(
+  event: CalendarEvent,
+  icsUrl: string
+): CalendarLinks {
+  const start = utcStamp(Date.parse(event.startISO));
+  const end = utcStamp(Date.parse(event.endISO));
+  const google = new URLSearchParams({
+    action: "TEMPLATE",
+    text: event.title,
+    dates: `${start}/${end}`,
+    details: event.description ?? "",
+    ctz: event.timezone,
+  });
+  return {
+    ics: icsUrl,
+    google: `https://calendar.google.com/calendar/render?${google}`,
+    outlook: outlookLink("outlook.live.com", event),
+    office365: outlookLink("outlook.office.com", event),
+  };
+}
+
+/** Where the ICS for a booking lives; the manage token authorizes it. */
+export function bookingIcsPath(appointmentId: string, token: string): string {
+  const id = encodeURIComponent(appointmentId);
+  return `/api/appointments/${id}/ics?token=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,86 @@
+// src/lib/captcha.ts
+// The single captcha-enforcement step shared by every submission route. It
+// runs before any LeadConnector call; a form needs a captcha when its
+// registry entry sets `captcha` or its slug is listed in
+// RECAPTCHA_FOR_SLUGS / NEXT_PUBLIC_RECAPTCHA_FOR_SLUGS. The provider comes
+// from resolveFormCaptcha, the same rule the client uses to pick a widget.
+import { NextResponse } from "next/server";
+import { resolveFormCaptcha } from "./captchaConfig";
+import { getCaptchaProvider } from "./captchaProviders";
+import { getRecaptchaEnabled } from "./env";
+import { getClientIp } from "./rateLimit";
+import type { CaptchaDefinition } from "./registrySchema";
+
+export type CaptchaErrorCode =
+  | "captcha_required" // no token sent
+  | "captcha_failed" // rejected token (wrong, expired, reused, low score)
+  | "captcha_unavailable"; // not configured / provider unreachable
+
+const CAPTCHA_ERRORS: Record<
+  CaptchaErrorCode,
+  { status: number; message: string }
+> = {
+  captcha_required: {
+    status: 400,
+    message: "Please complete the captcha before submitting.",
+  },
+  captcha_failed: {
+    status: 400,
+    message: "Captcha verification failed. Please try again.",
+  },
+  captcha_unavailable: {
+    status: 503,
+    message: "We couldn't verify the captcha right now. Please try again.",
+  },
+};
+
+type CaptchaForm = { slug: string; captcha?: boolean | CaptchaDefinition };
+
+export function isCaptchaRequired(form: CaptchaForm): boolean {
+  if (!getRecaptchaEnabled()) return false;
+  return resolveFormCaptcha(form.slug, form.captcha) !== null;
+}
+
+function errorCodeFor(reason: string): CaptchaErrorCode {
+  if (reason === "missing-token") return "captcha_required";
+  if (/^(provider|low-score|action-mismatch):/.test(reason))
+    return "captcha_failed";
+  return "captcha_unavailable"; // missing-secret, exception:...
+}
+
+/**
+ * Verify the submitted token when the form requires one. Returns null when
+ * the request may proceed, or the error response to send:
+ * `{ ok: false, error: CaptchaErrorCode, message, reason }`.
+ */
+export async function enforceCaptcha(
+  req: Request,
+  form: CaptchaForm,
+  token: unknown
+): Promise<NextResponse | null> {
+  if (!getRecaptchaEnabled()) return null;
+  const config = resolveFormCaptcha(form.slug, form.captcha);
+  if (!config) return null;
+
+  const ip = getClientIp(req);
+  const check = await getCaptchaProvider(config.provider).verify(
+    typeof token === "string" ? token : "",
+    {
+      ip: ip === "unknown" ? undefined : ip,
+      action: config.action,
+      minScore: config.minScore,
+    }
+  );
+  if (check.ok) return null;
+
+  const error = errorCodeFor(check.reason);
+  if (error === "captcha_unavailable")
+    console.error(
+      `[captcha] ${form.slug} (${config.provider}): ${check.reason}`
+    );
+  const { status, message } = CAPTCHA_ERRORS[error];
+  return NextResponse.json(
+    { ok: false, error, message, reason: check.reason },
+    { status }
+  );
+}
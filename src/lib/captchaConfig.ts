@@ -0,0 +1,42 @@
+// src/lib/captchaConfig.ts
+// Which captcha (if any) a form uses. Resolved once on the server: the form
+// pages hand the result to LeadForm, which renders the matching widget, and
+// captcha.ts verifies with the same provider, so the two can never disagree.
+// Server only: RECAPTCHA_FOR_SLUGS isn't inlined into the client bundle.
+import type { CaptchaDefinition, CaptchaProviderName } from "./registrySchema";
+import {
+  getDefaultCaptchaProvider,
+  getPublicRecaptchaSlugs,
+  getRecaptchaSlugs,
+} from "./env";
+
+export type FormCaptchaConfig = {
+  provider: CaptchaProviderName;
+  action: string; // reCAPTCHA v3 only
+  minScore?: number; // reCAPTCHA v3 only; unset → RECAPTCHA_V3_MIN_SCORE
+};
+
+/**
+ * Registry `captcha` (true or { provider, action, minScore }) or a slug
+ * listed in (NEXT_PUBLIC_)RECAPTCHA_FOR_SLUGS turns the captcha on.
+ */
+export function resolveFormCaptcha(
+  slug: string,
+  def?: boolean | CaptchaDefinition
+): FormCaptchaConfig | null {
+  const listed =
+    getPublicRecaptchaSlugs().includes(slug) ||
+    getRecaptchaSlugs().includes(slug);
+  if (!(def === true || typeof def === "object" || listed)) return null;
+
+  const d = typeof def === "object" ? def : {};
+  return {
+    provider: d.provider ?? getDefaultCaptchaProvider(),
+    action: d.action ?? "submit",
+    minScore: d.minScore,
+  };
+}
+
+// v3 runs in the background; the others show a challenge to solve
+export const isInvisibleCaptcha = (provider: CaptchaProviderName) =>
+  provider === "recaptcha-v3";
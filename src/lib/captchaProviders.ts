@@ -0,0 +1,156 @@
+// src/lib/captchaProviders.ts
+// Server-side token verification for every captcha a form can use. All four
+// services share the same "siteverify" shape (form-encoded secret + response
+// + remoteip → JSON { success, error-codes }); v3 adds a score and action.
+//
+// Failure reasons (CaptchaResult.reason), defined here for every provider:
+//   "missing-token" / "missing-secret"  nothing to verify, or no secret set
+//   "provider:<error-codes>"            siteverify said no ("unknown" if it
+//                                       gave no codes)
+//   "exception:<message>"               unreachable ("exception:timeout")
+//   "low-score:<score>"                 v3 score under the form's minimum
+//   "action-mismatch:<action>"          v3 token minted for another action
+import type { CaptchaProviderName } from "./registrySchema";
+
+export type CaptchaResult =
+  | { ok: true; score?: number }
+  | { ok: false; reason: string; score?: number };
+
+export type CaptchaVerifyContext = {
+  ip?: string;
+  action?: string; // reCAPTCHA v3: expected action
+  minScore?: number; // reCAPTCHA v3: threshold for this form
+};
+
+export interface CaptchaProvider {
+  name: CaptchaProviderName;
+  verify(token: string, ctx: CaptchaVerifyContext): Promise<CaptchaResult>;
+}
+
+const VERIFY_TIMEOUT_MS = 5000;
+
+type SiteverifyResponse = {
+  success?: boolean;
+  score?: number;
+  action?: string;
+  "error-codes"?: string[];
+};
+
+async function siteverify(
+  url: string,
+  secret: string | undefined,
+  token: string,
+  ip?: string
+): Promise<
+  { ok: true; data: SiteverifyResponse } | { ok: false; reason: string }
+> {
+  if (!token) return { ok: false, reason: "missing-token" };
+  if (!secret?.trim()) return { ok: false, reason: "missing-secret" };
+
+  const params = new URLSearchParams();
+  params.set("secret", secret.trim());
+  params.set("response", token);
+  if (ip) params.set("remoteip", ip);
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), VERIFY_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: params.toString(),
+      cache: "no-store",
+      signal: controller.signal,
+    });
+    const data: SiteverifyResponse = await res.json().catch(() => ({}));
+    if (data?.success === true) return { ok: true, data };
+    const code = Array.isArray(data?.["error-codes"])
+      ? data["error-codes"].join(",")
+      : "unknown";
+    return { ok: false, reason: `provider:${code}` };
+  } catch (e) {
+    const err = e as Error;
+    const msg = err?.name === "AbortError" ? "timeout" : err?.message;
+    return { ok: false, reason: `exception:${msg ?? "error"}` };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const GOOGLE_URL = "https://www.google.com/recaptcha/api/siteverify";
+
+export const recaptchaV2Provider: CaptchaProvider = {
+  name: "recaptcha-v2",
+  async verify(token, { ip }) {
+    const out = await siteverify(
+      GOOGLE_URL,
+      process.env.RECAPTCHA_SECRET,
+      token,
+      ip
+    );
+    return out.ok ? { ok: true } : out;
+  },
+};
+
+// Score-based: success only means the token is genuine; the form decides
+// how human the score has to be.
+export const recaptchaV3Provider: CaptchaProvider = {
+  name: "recaptcha-v3",
+  async verify(token, { ip, action, minScore }) {
+    const out = await siteverify(
+      GOOGLE_URL,
+      process.env.RECAPTCHA_V3_SECRET || process.env.RECAPTCHA_SECRET,
+      token,
+      ip
+    );
+    if (!out.ok) return out;
+    const { action: got, score: raw } = out.data;
+    const score = Number(raw ?? 0);
+    if (action && got !== action)
+      return { ok: false, reason: `action-mismatch:${got}`, score };
+    const threshold =
+      minScore ?? Number(process.env.RECAPTCHA_V3_MIN_SCORE ?? 0.5);
+    if (score < threshold)
+      return { ok: false, reason: `low-score:${score}`, score };
+    return { ok: true, score };
+  },
+};
+
+export const turnstileProvider: CaptchaProvider = {
+  name: "turnstile",
+  async verify(token, { ip }) {
+    const out = await siteverify(
+      "https://challenges.cloudflare.com/turnstile/v0/siteverify",
+      process.env.TURNSTILE_SECRET,
+      token,
+      ip
+    );
+    return out.ok ? { ok: true } : out;
+  },
+};
+
+export const hcaptchaProvider: CaptchaProvider = {
+  name: "hcaptcha",
+  async verify(token, { ip }) {
+    const out = await siteverify(
+      "https://api.hcaptcha.com/siteverify",
+      process.env.HCAPTCHA_SECRET,
+      token,
+      ip
+    );
+    return out.ok ? { ok: true } : out;
+  },
+};
+
+const PROVIDERS: Record<CaptchaProviderName, CaptchaProvider> = {
+  "recaptcha-v2": recaptchaV2Provider,
+  "recaptcha-v3": recaptchaV3Provider,
+  turnstile: turnstileProvider,
+  hcaptcha: hcaptchaProvider,
+};
+
+export function getCaptchaProvider(
+  name: CaptchaProviderName
+): CaptchaProvider {
+  return PROVIDERS[name];
+}
@@ -3,17 +3,40 @@ export const VALIDATION_TIMEOUT_MS = 5000;
 // Email confidence thresholds
 export const EMAIL_SCORE_GOOD = Number(process.env.EMAIL_SCORE_GOOD ?? 0.8);
 export const EMAIL_SCORE_MED = Number(process.env.EMAIL_SCORE_MED ?? 0.5);
+export const EMAIL_SCORE_THRESHOLD = 0.65;
 
 // Email blocking policy
 export const BLOCK_ROLE_EMAILS = true;
 export const BLOCK_DISPOSABLE =
-  (process.env.BLOCK_DISPOSABLE ?? "false") === "true";
+  (process.env.BLOCK_DISPOSABLE ?? "true") === "true";
+export const ACCEPT_CATCHALL =
+  (process.env.ZB_ACCEPT_CATCHALL ?? "false") === "true";
 // IMPORTANT: Score is NOT a hard gate now
 export const EMAIL_BLOCK_ON_SCORE = false;
 
-// Phone policy
-export const BLOCK_VOIP = (process.env.BLOCK_VOIP ?? "false") === "true";
-export const ALLOW_LANDLINE = true; // set to false if you want only mobile
+// Phone policy: only mobile numbers unless a form's `validation.phone` says
+// otherwise (see validationPolicy.ts)
+export const PHONE_ALLOWED_LINE_TYPES = ["mobile"] as const;
+export const REJECT_DEACTIVATED_PHONES = true;
+
+// Bot scoring defaults (per-form `bot` overrides; see botScore.ts)
+export const BOT_TAG_THRESHOLD = Number(process.env.BOT_TAG_THRESHOLD ?? 0.5);
+export const BOT_MIN_SUBMIT_SECONDS = 3;
+export const BOT_TAG = "SuspectedBot";
+
+// Tags added when a visitor changes a booking through its manage link
+export const BOOKING_RESCHEDULED_TAG = "AppointmentRescheduled";
+export const BOOKING_CANCELLED_TAG = "AppointmentCancelled";
+// Contact-first booking wizards (booking.order) tag the lead before the time
+// picker; contacts with it but without AppointmentBooked abandoned the booking
+export const BOOKING_STARTED_TAG = "BookingStarted";
+
+// Calendar invites (lib/calendarInvite.ts); ORGANIZER is only written when an
+// address is set
+export const BOOKING_ORGANIZER_NAME =
+  process.env.BOOKING_ORGANIZER_NAME || "MBTEK";
+export const BOOKING_ORGANIZER_EMAIL =
+  process.env.BOOKING_ORGANIZER_EMAIL || "";
 
 // Email fallback policy
 export const ENABLE_TRUSTED_EMAIL_FALLBACK = true;
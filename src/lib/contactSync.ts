@@ -0,0 +1,261 @@
+// src/lib/contactSync.ts
+// Single owner of the "get this person into LeadConnector" pipeline used by
+// /api/lead (via the outbox) and /api/appointments:
+//   1) map registry answers → custom-field labels
+//   2) upsert → create → duplicate-update → search by email / phone
+//   3) PUT custom fields once we have an id (upsert CFs are best-effort)
+import type { FormConfigResolved } from "./formsRegistry";
+import {
+  lcUpsertContact,
+  lcCreateContact,
+  lcUpdateContact,
+  lcGetContactsByQuery,
+  pickContactId,
+  toE164FromNational,
+  type LCContactPayload,
+  type LCContactSearchResponse,
+} from "./leadconnector";
+import { resolveOptionLabel } from "./options";
+import { isChoiceField } from "./registrySchema";
+
+export type CustomFieldValue = { id: string; value: string };
+
+export type ContactSyncPath =
+  | "upsert"
+  | "create"
+  | "duplicate_update"
+  | "search_email"
+  | "search_phone";
+
+export type ContactDetails = {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  country?: string;
+};
+
+export type ContactSyncResult = {
+  contactId: string;
+  path: ContactSyncPath;
+  customFieldsWritten: number;
+  warnings: string[];
+};
+
+// The LeadConnector calls the pipeline needs; injectable for tests.
+// Write responses vary by endpoint, so pickContactId digs the id out.
+export type ContactSyncClient = {
+  upsert: (payload: LCContactPayload) => Promise<unknown>;
+  create: (payload: LCContactPayload) => Promise<unknown>;
+  update: (contactId: string, payload: LCContactPayload) => Promise<unknown>;
+  search: (
+    query: string,
+    locationId: string
+  ) => Promise<LCContactSearchResponse>;
+};
+
+// What lcFetch errors carry: the HTTP status and LeadConnector's body
+type DuplicateMeta = { meta?: { contactId?: string } };
+type UpstreamError = DuplicateMeta & {
+  status?: number;
+  message?: string;
+  details?: DuplicateMeta;
+  response?: { data?: DuplicateMeta };
+};
+
+const upstream = (e: unknown): UpstreamError =>
+  typeof e === "object" && e !== null ? (e as UpstreamError) : {};
+
+const describe = (e: unknown) =>
+  e instanceof Error ? e.message : String(e);
+
+export const leadConnectorClient: ContactSyncClient = {
+  upsert: lcUpsertContact,
+  create: lcCreateContact,
+  update: lcUpdateContact,
+  search: lcGetContactsByQuery,
+};
+
+/** Map registry answers to LeadConnector custom fields (option labels). */
+export function buildCustomFields(
+  form: FormConfigResolved,
+  answers?: Record<string, unknown>,
+  meta?: Record<string, string | undefined>
+): CustomFieldValue[] {
+  const fields = form.sections.flatMap((s) => s.fields);
+  const out: CustomFieldValue[] = [];
+
+  for (const field of fields) {
+    // only fields that map to a CF id
+    if (!field.mapCustomFieldId) continue;
+    const raw = answers?.[field.id];
+    if (raw == null) continue;
+    const options = isChoiceField(field) ? field.options : undefined;
+
+    let value = "";
+    if (Array.isArray(raw)) {
+      const labels = raw
+        .map((v) =>
+          typeof v === "string" ? resolveOptionLabel(v, options) : ""
+        )
+        .filter(Boolean) as string[];
+      value = labels.join(", ");
+    } else if (typeof raw === "string") {
+      value = resolveOptionLabel(raw, options) ?? raw; // fallback to raw to avoid dropping
+    }
+    if (value.trim().length === 0) continue;
+
+    out.push({ id: field.mapCustomFieldId, value });
+  }
+
+  // Hidden meta (forms-go) goes into a Notes custom field when the form has one
+  if (meta && Object.keys(meta).length > 0) {
+    const notesField = fields.find(
+      (f) => f.mapCustomFieldId && f.label?.toLowerCase().includes("note")
+    );
+    const metaString = Object.entries(meta)
+      .filter(([, v]) => v)
+      .map(([k, v]) => `${k}: ${v}`)
+      .join("; ");
+    if (notesField?.mapCustomFieldId && metaString) {
+      out.push({ id: notesField.mapCustomFieldId, value: metaString });
+    }
+  }
+
+  return out;
+}
+
+/** Base contact payload (no CFs) shared by upsert/create/update. */
+export function buildContactPayload(
+  form: FormConfigResolved,
+  contact: ContactDetails,
+  tags: string[]
+): LCContactPayload & { locationId: string } {
+  const country = contact.country || "US";
+  return {
+    locationId: form.locationId || process.env.LC_LOCATION_ID || "",
+    firstName: contact.firstName,
+    lastName: contact.lastName,
+    email: contact.email,
+    phone: toE164FromNational(contact.phone, country),
+    country,
+    tags,
+    source: form.slug,
+  };
+}
+
+function noContactIdError() {
+  return Object.assign(new Error("No contactId returned from LeadConnector"), {
+    status: 502,
+  });
+}
+
+/**
+ * Find or create the contact. Throws upstream errors as-is (they carry
+ * `status`/`details`) and a 502 when no id can be recovered at all.
+ */
+export async function resolveContact(
+  basePayload: LCContactPayload,
+  customFields: CustomFieldValue[],
+  client: ContactSyncClient = leadConnectorClient
+): Promise<{ contactId: string; path: ContactSyncPath; warnings: string[] }> {
+  const warnings: string[] = [];
+  let contactId: string | undefined;
+  let path: ContactSyncPath = "upsert";
+
+  try {
+    contactId = pickContactId(
+      await client.upsert({
+        ...basePayload,
+        ...(customFields.length ? { customFields } : {}),
+      })
+    );
+  } catch (err) {
+    // upsert not available → try create
+    const { status } = upstream(err);
+    if (status !== 404 && status !== 405) throw err;
+    warnings.push(`upsert unavailable (${status}); used create`);
+    try {
+      contactId = pickContactId(await client.create(basePayload));
+      path = "create";
+    } catch (ce) {
+      // duplicate → extract meta.contactId and update base fields
+      const dup = upstream(ce);
+      const dupId =
+        dup.details?.meta?.contactId ??
+        dup.meta?.contactId ??
+        dup.response?.data?.meta?.contactId;
+      if (!dupId) throw ce;
+      await client.update(dupId, basePayload);
+      contactId = dupId;
+      path = "duplicate_update";
+    }
+  }
+
+  // Still no id → look it up by email, then phone
+  const lookups: Array<[ContactSyncPath, string | undefined]> = [
+    ["search_email", basePayload.email],
+    ["search_phone", basePayload.phone],
+  ];
+  for (const [searchPath, query] of lookups) {
+    if (contactId || !query) continue;
+    try {
+      const found = await client.search(query, basePayload.locationId ?? "");
+      contactId =
+        pickContactId(found?.contacts?.[0]) ?? found?.contacts?.[0]?.id;
+      if (contactId) path = searchPath;
+    } catch (e) {
+      warnings.push(`${searchPath} failed: ${describe(e)}`);
+    }
+  }
+
+  if (!contactId) throw noContactIdError();
+  return { contactId, path, warnings };
+}
+
+/** Always PUT CFs once we have an id (guarantees persistence). */
+export async function writeCustomFields(
+  contactId: string,
+  customFields: CustomFieldValue[],
+  client: ContactSyncClient = leadConnectorClient
+): Promise<number> {
+  if (!customFields.length) return 0;
+  await client.update(contactId, { customFields });
+  return customFields.length;
+}
+
+/**
+ * Full pipeline. Custom-field PUT failures are reported as warnings rather
+ * than thrown: the contact exists and the caller can still proceed.
+ */
+export async function syncContact(
+  input: {
+    form: FormConfigResolved;
+    contact: ContactDetails;
+    tags: string[];
+    answers?: Record<string, unknown>;
+    meta?: Record<string, string | undefined>;
+  },
+  client: ContactSyncClient = leadConnectorClient
+): Promise<ContactSyncResult> {
+  const customFields = buildCustomFields(input.form, input.answers, input.meta);
+  const basePayload = buildContactPayload(input.form, input.contact, input.tags);
+  const { contactId, path, warnings } = await resolveContact(
+    basePayload,
+    customFields,
+    client
+  );
+
+  let customFieldsWritten = 0;
+  try {
+    customFieldsWritten = await writeCustomFields(
+      contactId,
+      customFields,
+      client
+    );
+  } catch (e) {
+    warnings.push(`customFields PUT failed: ${describe(e)}`);
+  }
+
+  return { contactId, path, customFieldsWritten, warnings };
+}
@@ -0,0 +1,322 @@
+// src/lib/emailProviders.ts
+// Email verification as an ordered chain of providers. Each provider answers
+// "valid", "invalid" or "unknown"; the first definite answer wins and an
+// "unknown" (not configured, timeout, provider error, inconclusive) hands
+// the address to the next provider in the chain.
+//
+// EMAIL_PROVIDERS=zerobounce,mailboxlayer:4000,local
+//   comma-separated provider names, each with an optional `:timeoutMs`.
+import dns from "node:dns";
+import { zerobounceCheck } from "./zerobounce";
+import { mailboxlayerCheck } from "./mailboxlayer";
+import type { EmailResult } from "./validationTypes";
+import {
+  ENABLE_TRUSTED_EMAIL_FALLBACK,
+  ENABLE_MX_FALLBACK,
+  VALIDATION_TIMEOUT_MS,
+} from "./config";
+
+export type EmailProviderName = "zerobounce" | "mailboxlayer" | "local";
+
+export type EmailOutcome = "valid" | "invalid" | "unknown";
+
+export type EmailUnknownCause =
+  | "not_configured"
+  | "timeout"
+  | "provider_error"
+  | "inconclusive";
+
+export type EmailCheck = {
+  outcome: EmailOutcome;
+  unknownCause?: EmailUnknownCause; // only when outcome is "unknown"
+  result: EmailResult;
+};
+
+export interface EmailProvider {
+  name: EmailProviderName;
+  defaultTimeoutMs: number;
+  check(
+    email: string,
+    ctx: { ip?: string | null; timeoutMs: number }
+  ): Promise<EmailCheck>;
+}
+
+const DEFAULT_CHAIN = "zerobounce,local";
+
+const TRUSTED_EMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "yahoo.com",
+  "ymail.com",
+  "icloud.com",
+  "me.com",
+  "proton.me",
+  "protonmail.com",
+]);
+
+export function getDomain(email: string): string | null {
+  const at = email.lastIndexOf("@");
+  if (at < 0) return null;
+  const d = email
+    .slice(at + 1)
+    .trim()
+    .toLowerCase();
+  return d || null;
+}
+
+export function isPlausibleEmail(email: string): boolean {
+  if (!email || email.length > 254) return false;
+  // minimal RFC-lite
+  const re = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+  if (!re.test(email)) return false;
+  const [local, domain] = email.split("@");
+  if (!local || !domain) return false;
+  if (local.length > 64) return false;
+  if (domain.includes("..")) return false;
+  return true;
+}
+
+export function isRoleEmail(email: string): boolean {
+  const local = email.split("@")[0]?.toLowerCase() || "";
+  const rolePrefixes = [
+    "info",
+    "sales",
+    "support",
+    "admin",
+    "contact",
+    "help",
+    "noreply",
+    "no-reply",
+  ];
+  return rolePrefixes.some(
+    (prefix) => local === prefix || local.startsWith(prefix + ".")
+  );
+}
+
+// "none" = domain does not exist; "unknown" = no MX answer / timeout
+type MxLookup = "found" | "none" | "unknown";
+
+async function lookupMx(
+  domain: string,
+  timeoutMs: number
+): Promise<MxLookup> {
+  const p = dns.promises
+    .resolveMx(domain)
+    .then((recs): MxLookup => (recs.length > 0 ? "found" : "unknown"))
+    .catch((e: NodeJS.ErrnoException): MxLookup =>
+      e?.code === "ENOTFOUND" ? "none" : "unknown"
+    );
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      p,
+      new Promise<MxLookup>((r) => {
+        timer = setTimeout(() => r("unknown"), timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const unknown = (
+  cause: EmailUnknownCause,
+  reason: string,
+  domain?: string
+): EmailCheck => ({
+  outcome: "unknown",
+  unknownCause: cause,
+  result: { valid: null, reason, confidence: "unknown", domain },
+});
+
+export const zerobounceProvider: EmailProvider = {
+  name: "zerobounce",
+  defaultTimeoutMs: Number(process.env.ZB_LOCAL_TIMEOUT_MS ?? 10000),
+  async check(email, { ip, timeoutMs }) {
+    const zb = await zerobounceCheck(email, ip, { timeoutMs });
+    const domain = getDomain(email) || undefined;
+    if (zb.outcome === "unknown") {
+      const cause: EmailUnknownCause = !process.env.ZB_API_KEY
+        ? "not_configured"
+        : zb.status
+        ? "inconclusive"
+        : "provider_error";
+      return unknown(cause, zb.reason || "unknown", domain);
+    }
+    return {
+      outcome: zb.outcome,
+      result: {
+        valid: zb.valid,
+        reason: zb.reason,
+        confidence:
+          zb.status === "valid" ? "good" : zb.valid ? "medium" : "low",
+        score: zb.score || 0,
+        disposable: zb.sub_status === "disposable",
+        role: zb.sub_status?.startsWith("role_based"),
+        catchAll:
+          zb.status === "catch-all" ||
+          zb.sub_status === "role_based_catch_all",
+        domain,
+      },
+    };
+  },
+};
+
+export const mailboxlayerProvider: EmailProvider = {
+  name: "mailboxlayer",
+  defaultTimeoutMs: VALIDATION_TIMEOUT_MS,
+  async check(email, { timeoutMs }) {
+    const { result } = await mailboxlayerCheck(email, timeoutMs);
+    if (result.valid === null) {
+      const cause: EmailUnknownCause =
+        result.reason === "provider_missing"
+          ? "not_configured"
+          : result.reason === "timeout_soft_pass"
+          ? "timeout"
+          : "provider_error";
+      return { outcome: "unknown", unknownCause: cause, result };
+    }
+    return { outcome: result.valid ? "valid" : "invalid", result };
+  },
+};
+
+// No network besides DNS: syntax, trusted consumer domains, then MX records.
+export const localProvider: EmailProvider = {
+  name: "local",
+  defaultTimeoutMs: 1500,
+  async check(email, { timeoutMs }) {
+    const domain = getDomain(email);
+    if (!domain || !isPlausibleEmail(email))
+      return {
+        outcome: "invalid",
+        result: { valid: false, reason: "bad_format", confidence: "low" },
+      };
+
+    if (ENABLE_TRUSTED_EMAIL_FALLBACK && TRUSTED_EMAIL_DOMAINS.has(domain))
+      return {
+        outcome: "valid",
+        result: {
+          valid: true,
+          reason: "provisional_trusted",
+          confidence: "good",
+          domain,
+        },
+      };
+
+    if (!ENABLE_MX_FALLBACK)
+      return unknown("inconclusive", "unverified", domain);
+
+    const mx = await lookupMx(domain, timeoutMs);
+    if (mx === "found")
+      return {
+        outcome: "valid",
+        result: {
+          valid: true,
+          reason: "provisional_mx",
+          confidence: "medium",
+          role: isRoleEmail(email),
+          domain,
+        },
+      };
+    if (mx === "none")
+      return {
+        outcome: "invalid",
+        result: {
+          valid: false,
+          reason: "Domain has no DNS records.",
+          confidence: "low",
+          domain,
+        },
+      };
+    return unknown("inconclusive", "no_mx_answer", domain);
+  },
+};
+
+const PROVIDERS: Record<EmailProviderName, EmailProvider> = {
+  zerobounce: zerobounceProvider,
+  mailboxlayer: mailboxlayerProvider,
+  local: localProvider,
+};
+
+export type EmailChainStep = { provider: EmailProvider; timeoutMs: number };
+
+/** Parse EMAIL_PROVIDERS; unknown names are skipped with a warning. */
+export function getEmailChain(
+  spec: string = process.env.EMAIL_PROVIDERS || DEFAULT_CHAIN
+): EmailChainStep[] {
+  const chain: EmailChainStep[] = [];
+  for (const part of spec.split(",")) {
+    const [rawName, rawTimeout] = part.trim().split(":");
+    const name = rawName?.toLowerCase() as EmailProviderName;
+    const provider = PROVIDERS[name];
+    if (!provider) {
+      if (rawName) console.warn(`[emailProviders] unknown provider "${rawName}"`);
+      continue;
+    }
+    const t = Number(rawTimeout);
+    chain.push({
+      provider,
+      timeoutMs: Number.isFinite(t) && t > 0 ? t : provider.defaultTimeoutMs,
+    });
+  }
+  return chain;
+}
+
+// Hard deadline around a provider, in case it ignores its own timeout.
+async function runWithTimeout(
+  step: EmailChainStep,
+  email: string,
+  ip?: string | null
+): Promise<EmailCheck> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<EmailCheck>((resolve) => {
+    timer = setTimeout(
+      () =>
+        resolve(unknown("timeout", "We couldn't verify this email right now.")),
+      step.timeoutMs + 250
+    );
+  });
+  try {
+    return await Promise.race([
+      step.provider
+        .check(email, { ip, timeoutMs: step.timeoutMs })
+        .catch(() =>
+          unknown("provider_error", "We couldn't verify this email right now.")
+        ),
+      deadline,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run the chain until a provider gives a definite answer. If every provider
+ * is unknown the first provider's result is returned with `valid: null`
+ * (soft pass: callers only block on `valid === false`).
+ */
+export async function checkEmailWithChain(
+  email: string,
+  ip?: string | null,
+  chain: EmailChainStep[] = getEmailChain()
+): Promise<EmailResult> {
+  let firstUnknown: EmailResult | undefined;
+  for (const step of chain) {
+    const out = await runWithTimeout(step, email, ip);
+    if (out.outcome !== "unknown")
+      return { ...out.result, provider: step.provider.name };
+    firstUnknown ??= { ...out.result, provider: step.provider.name };
+  }
+  return (
+    firstUnknown ?? {
+      valid: null,
+      reason: "Email verification is not configured.",
+      confidence: "unknown",
+      domain: getDomain(email) || undefined,
+    }
+  );
+}
@@ -1,3 +1,9 @@
+import {
+  CAPTCHA_PROVIDERS,
+  type CaptchaProviderName,
+} from "./registrySchema";
+
+// Server-side enforcement is opt-in: only RECAPTCHA_ENABLED=true turns it on
 export function getRecaptchaEnabled(): boolean {
   const enabled =
     String(process.env.RECAPTCHA_ENABLED || "").toLowerCase() === "true";
@@ -5,10 +11,27 @@ export function getRecaptchaEnabled(): boolean {
   return enabled;
 }
 
-export function getRecaptchaSiteKey(): string | null {
-  const key = process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY || null;
-  // debug removed
-  return key;
+// NEXT_PUBLIC_* must be read literally so Next inlines them on the client
+export function getCaptchaSiteKey(
+  provider: CaptchaProviderName
+): string | null {
+  const key =
+    provider === "recaptcha-v3"
+      ? process.env.NEXT_PUBLIC_RECAPTCHA_V3_SITE_KEY
+      : provider === "turnstile"
+      ? process.env.NEXT_PUBLIC_TURNSTILE_SITE_KEY
+      : provider === "hcaptcha"
+      ? process.env.NEXT_PUBLIC_HCAPTCHA_SITE_KEY
+      : process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY;
+  return key && key.trim() ? key.trim() : null;
+}
+
+// Provider for `"captcha": true` and list-gated slugs (default recaptcha-v2)
+export function getDefaultCaptchaProvider(): CaptchaProviderName {
+  const v = (process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER || "").toLowerCase();
+  return (CAPTCHA_PROVIDERS as readonly string[]).includes(v)
+    ? (v as CaptchaProviderName)
+    : "recaptcha-v2";
 }
 
 export function getRecaptchaSecret(): string | null {
@@ -37,16 +60,7 @@ export function getPublicRecaptchaSlugs(): string[] {
     .filter(Boolean);
 }
 
-// Safe on server/client
-export function isRecaptchaRequiredForSlug(
-  slug: string,
-  formCaptcha?: boolean
-): boolean {
-  if (formCaptcha === true) {
-    return true;
-  }
-  const list = getPublicRecaptchaSlugs();
-  const required = list.includes(slug);
-  // debug removed
-  return required;
+// FORMS_STRICT_ENV=true → forms with unresolved env mappings are not served
+export function getFormsStrictEnv(): boolean {
+  return String(process.env.FORMS_STRICT_ENV || "").toLowerCase() === "true";
 }
@@ -0,0 +1,65 @@
+// src/lib/formToken.ts
+// Signed render timestamp for bot scoring (botScore.ts). The form page mints
+// `<issuedAtMs>.<hmac>` bound to the form slug; on submit we learn how long
+// the visitor had the form open without trusting a client clock.
+//
+// FORM_TOKEN_SECRET should be set on multi-instance deploys; without it each
+// process signs with its own random secret (fine for `next dev`).
+import crypto from "node:crypto";
+
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const CLOCK_SKEW_MS = 60 * 1000;
+
+export type FormTokenCheck =
+  | { status: "ok"; ageMs: number }
+  | { status: "missing" | "invalid" | "expired" };
+
+let processSecret: string | null = null;
+
+// Also signs manage-booking links (bookingToken.ts)
+export function getTokenSecret(): string {
+  const configured = process.env.FORM_TOKEN_SECRET?.trim();
+  if (configured) return configured;
+  if (!processSecret) {
+    processSecret = crypto.randomBytes(32).toString("hex");
+    console.warn(
+      "[formToken] FORM_TOKEN_SECRET not set; using a per-process secret"
+    );
+  }
+  return processSecret;
+}
+
+function sign(slug: string, issuedAt: number): string {
+  return crypto
+    .createHmac("sha256", getTokenSecret())
+    .update(`${slug}.${issuedAt}`)
+    .digest("base64url");
+}
+
+export function issueFormToken(slug: string, now = Date.now()): string {
+  return `${now}.${sign(slug, now)}`;
+}
+
+export function checkFormToken(
+  slug: string,
+  token: unknown,
+  now = Date.now()
+): FormTokenCheck {
+  if (typeof token !== "string" || !token) return { status: "missing" };
+  const [ts, sig] = token.split(".");
+  const issuedAt = Number(ts);
+  if (!Number.isSafeInteger(issuedAt) || !sig) return { status: "invalid" };
+
+  const expected = Buffer.from(sign(slug, issuedAt));
+  const given = Buffer.from(sig);
+  if (
+    expected.length !== given.length ||
+    !crypto.timingSafeEqual(expected, given)
+  )
+    return { status: "invalid" };
+
+  const ageMs = now - issuedAt;
+  if (ageMs < -CLOCK_SKEW_MS) return { status: "invalid" };
+  if (ageMs > MAX_AGE_MS) return { status: "expired" };
+  return { status: "ok", ageMs: Math.max(0, ageMs) };
+}
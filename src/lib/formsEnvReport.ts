@@ -0,0 +1,115 @@
+// src/lib/formsEnvReport.ts
+// Which env vars does each registry form depend on, and did they resolve?
+// listForms() quietly turns a missing key into "" (or drops the custom field
+// id), so this report is the only place those gaps become visible.
+import type { FormDefinition } from "./registrySchema";
+
+export type FormEnvRole =
+  | "location"
+  | "workflow"
+  | "calendar"
+  | "timezone"
+  | "customField";
+
+// "defaulted" = unset but a fallback applies (e.g. BOOKING_TIMEZONE_DEFAULT)
+export type FormEnvStatus = "resolved" | "missing" | "defaulted";
+
+export type FormEnvRef = {
+  key: string;
+  role: FormEnvRole;
+  status: FormEnvStatus;
+  fieldId?: string; // customField refs only
+};
+
+export type DroppedField = { fieldId: string; label: string; envKey: string };
+
+export type FormEnvReport = {
+  slug: string;
+  name: string;
+  ok: boolean; // no "missing" refs
+  env: FormEnvRef[];
+  missing: string[]; // unique env keys with status "missing"
+  droppedFields: DroppedField[]; // answers that will never reach GHL
+};
+
+type Env = Record<string, string | undefined>;
+
+const isSet = (env: Env, key: string) => Boolean(env[key]?.trim());
+
+export function buildFormEnvReport(
+  form: FormDefinition,
+  env: Env = process.env
+): FormEnvReport {
+  const refs: FormEnvRef[] = [];
+  const droppedFields: DroppedField[] = [];
+  const ref = (
+    key: string,
+    role: FormEnvRole,
+    fallback = false,
+    fieldId?: string
+  ) => {
+    const status: FormEnvStatus = isSet(env, key)
+      ? "resolved"
+      : fallback
+        ? "defaulted"
+        : "missing";
+    refs.push({ key, role, status, ...(fieldId ? { fieldId } : {}) });
+    return status;
+  };
+
+  ref(form.locationIdEnv, "location");
+  if (form.workflowIdEnv) ref(form.workflowIdEnv, "workflow");
+  if (form.booking?.enabled) {
+    if (form.booking.calendarIdEnv) ref(form.booking.calendarIdEnv, "calendar");
+    for (const cal of form.booking.calendars ?? [])
+      ref(cal.calendarIdEnv, "calendar");
+    if (form.booking.timezoneEnv) ref(form.booking.timezoneEnv, "timezone", true);
+  }
+
+  for (const field of form.sections.flatMap((s) => s.fields)) {
+    const envKey = field.mapCustomFieldIdEnv;
+    if (!envKey) continue;
+    // a literal mapCustomFieldId still works when the env key is unset
+    const status = ref(
+      envKey,
+      "customField",
+      Boolean(field.mapCustomFieldId),
+      field.id
+    );
+    if (status === "missing")
+      droppedFields.push({ fieldId: field.id, label: field.label, envKey });
+  }
+
+  const missing = [
+    ...new Set(refs.filter((r) => r.status === "missing").map((r) => r.key)),
+  ];
+  return {
+    slug: form.slug,
+    name: form.name,
+    ok: missing.length === 0,
+    env: refs,
+    missing,
+    droppedFields,
+  };
+}
+
+/** Human-readable summary, one block per form (used by the CLI). */
+export function formatFormEnvReports(reports: FormEnvReport[]): string {
+  return reports
+    .map((r) => {
+      const head = `${r.ok ? "✔" : "✖"} ${r.slug} (${r.name})`;
+      const lines = r.env.map(
+        (e) =>
+          `    ${e.status.padEnd(9)} ${e.key} [${e.role}${e.fieldId ? `: ${e.fieldId}` : ""}]`
+      );
+      const dropped = r.droppedFields.length
+        ? [
+            `    dropped fields: ${r.droppedFields
+              .map((d) => d.fieldId)
+              .join(", ")}`,
+          ]
+        : [];
+      return [head, ...lines, ...dropped].join("\n");
+    })
+    .join("\n\n");
+}
@@ -1,23 +1,78 @@
-import REGISTRY from "../app/forms/registry.json";
-
-export type Registry = typeof REGISTRY;
-export type FormConfig = Registry["forms"][number];
-export type FieldShowIf = { fieldId: string; equals: string | string[] };
-export type LegalLink = { label: string; href: string };
-export type LegalConfig = { privacy: LegalLink; terms: LegalLink };
-export type BookingConfig = {
-  enabled: boolean;
-  calendarIdEnv?: string;
-  timezoneEnv?: string;
-  calendarId?: string;
+import RAW_REGISTRY from "../app/forms/registry.json";
+import {
+  parseRegistry,
+  type BookingDefinition,
+  type FieldShowIf,
+  type FieldConfig,
+  type FormDefinition,
+  type LegalConfig,
+  type RegistryDefinition,
+  type SectionConfig,
+} from "./registrySchema";
+import { buildFormEnvReport, type FormEnvReport } from "./formsEnvReport";
+import { getFormsStrictEnv } from "./env";
+import {
+  resolveValidationPolicy,
+  type ValidationPolicy,
+} from "./validationPolicy";
+import { resolveBotPolicy, type BotPolicy } from "./botScore";
+import { resolveBookingRules, type BookingRules } from "./bookingRules";
+
+export type {
+  BookingAssignment,
+  BookingOrder,
+  FieldConfig,
+  FieldOption,
+  FieldShowIf,
+  LegalConfig,
+  LegalLink,
+  SectionConfig,
+} from "./registrySchema";
+
+// Fails loudly (with every problem listed) if registry.json is malformed.
+const REGISTRY: RegistryDefinition = parseRegistry(RAW_REGISTRY);
+
+export type Registry = RegistryDefinition;
+export type FormConfig = FormDefinition;
+
+// A calendar a form can book on, with its id resolved from the env
+export type BookingCalendar = {
+  id: string; // registry name ("default" for a single calendarIdEnv)
+  calendarId: string;
+  showIf?: FieldShowIf;
+};
+
+export type BookingConfig = Omit<BookingDefinition, "rules" | "calendars"> & {
+  calendarId?: string; // the first calendar; see bookingCalendars.ts
+  calendars: BookingCalendar[]; // only those whose env var resolved
   timezone?: string;
-  minLeadMinutes?: number;
+  minLeadMinutes: number;
+  durationMinutes: number; // registry value; see bookingDuration.ts
+  bufferMinutes: number;
+  rules: BookingRules;
+};
+
+// After resolution the env key is replaced by the id it points at.
+export type ResolvedFieldConfig = FieldConfig extends infer F
+  ? F extends FieldConfig
+    ? Omit<F, "mapCustomFieldIdEnv">
+    : never
+  : never;
+export type ResolvedSectionConfig = Omit<SectionConfig, "fields"> & {
+  fields: ResolvedFieldConfig[];
 };
-export type FormConfigResolved = FormConfig & {
+
+export type FormConfigResolved = Omit<
+  FormDefinition,
+  "sections" | "legal" | "booking" | "validation" | "bot"
+> & {
+  sections: ResolvedSectionConfig[];
   locationId?: string;
   workflowId?: string;
   legal: LegalConfig;
   booking?: BookingConfig;
+  validation: ValidationPolicy; // registry overrides merged over defaults
+  bot: BotPolicy;
 };
 
 function resolveEnv(key?: string) {
@@ -30,54 +85,61 @@ function resolveIdFromEnv(key?: string): string | undefined {
   return v && v.trim() ? v.trim() : undefined;
 }
 
+function resolveField(field: FieldConfig): ResolvedFieldConfig {
+  // Resolve mapCustomFieldId only for fields that declare mapping
+  const { mapCustomFieldIdEnv: envKey, ...rest } = field;
+  const out = { ...rest } as ResolvedFieldConfig;
+  if (envKey) {
+    const resolved = resolveIdFromEnv(envKey);
+    if (resolved) out.mapCustomFieldId = resolved;
+  }
+  return out;
+}
+
 export function listForms(): FormConfigResolved[] {
   return REGISTRY.forms.map((f) => {
-    const legal: LegalConfig =
-      (f as any).legal ?? (REGISTRY as any).legalDefaults;
-    // Normalize fields: resolve mapCustomFieldId only for fields that declare mapping
-    const sections = (f as any).sections?.map((section: any) => {
-      const fields = (section.fields ?? []).map((field: any) => {
-        const envKey = field.mapCustomFieldIdEnv as string | undefined;
-        const out: any = { ...field };
-        if (envKey) {
-          const resolved = resolveIdFromEnv(envKey);
-          if (resolved) {
-            out.mapCustomFieldId = resolved;
-          }
-        } else if (field.mapCustomFieldId) {
-          out.mapCustomFieldId = field.mapCustomFieldId;
-        } else {
-          // core field without custom mapping → no warning
-        }
-        delete out.mapCustomFieldIdEnv;
-        return out;
-      });
-      return { ...section, fields };
-    });
+    const legal: LegalConfig = { ...REGISTRY.legalDefaults, ...f.legal };
+    const sections = f.sections.map((section) => ({
+      ...section,
+      fields: section.fields.map(resolveField),
+    }));
 
     // Resolve booking configuration
-    const booking = (f as any).booking
+    const calendarDefs = f.booking?.calendars ?? [
+      { id: "default", calendarIdEnv: f.booking?.calendarIdEnv ?? "" },
+    ];
+    const calendars = calendarDefs.flatMap(({ calendarIdEnv, ...cal }) => {
+      const calendarId = resolveIdFromEnv(calendarIdEnv);
+      return calendarId ? [{ ...cal, calendarId }] : [];
+    });
+    const booking: BookingConfig | undefined = f.booking
       ? {
-          ...(f as any).booking,
-          calendarId: resolveIdFromEnv((f as any).booking.calendarIdEnv),
+          ...f.booking,
+          calendarId: calendars[0]?.calendarId,
+          calendars,
           timezone:
-            resolveEnv((f as any).booking.timezoneEnv) ||
+            resolveEnv(f.booking.timezoneEnv) ||
             process.env.BOOKING_TIMEZONE_DEFAULT ||
             "America/New_York",
-          minLeadMinutes: (f as any).booking.minLeadMinutes ?? 60,
+          minLeadMinutes: f.booking.minLeadMinutes ?? 60,
+          durationMinutes: f.booking.durationMinutes ?? 60,
+          bufferMinutes: f.booking.bufferMinutes ?? 0,
+          rules: resolveBookingRules(f.booking.rules),
         }
       : undefined;
 
     // Validate booking configuration for enabled forms
-    if (booking?.enabled && !booking.calendarId) {
-      const envKey = (f as any).booking?.calendarIdEnv;
+    if (booking?.enabled && calendars.length < calendarDefs.length) {
+      const missing = calendarDefs
+        .map((c) => c.calendarIdEnv)
+        .filter((key) => !resolveIdFromEnv(key));
       if (process.env.NODE_ENV !== "production") {
         console.error(
-          `[formsRegistry] Missing calendar ID for form "${
-            (f as any).slug
-          }". Expected env var: ${envKey}`
+          `[formsRegistry] Missing calendar ID for form "${f.slug}". Expected env var: ${missing.join(", ")}`
         );
       }
+    }
+    if (booking?.enabled && !booking.calendarId) {
       // In production, we'll still allow the form to load but disable booking
       if (process.env.NODE_ENV === "production") {
         booking.enabled = false;
@@ -85,18 +147,35 @@ export function listForms(): FormConfigResolved[] {
     }
 
     return {
-      ...(f as any),
+      ...f,
       sections,
       // resolve env-bound ids now for convenience
-      locationId: resolveEnv((f as any).locationIdEnv),
-      workflowId: resolveEnv((f as any).workflowIdEnv),
+      locationId: resolveEnv(f.locationIdEnv),
+      workflowId: resolveEnv(f.workflowIdEnv),
       legal,
       booking,
-    } as FormConfigResolved;
+      validation: resolveValidationPolicy(f.validation),
+      bot: resolveBotPolicy(f.bot),
+    };
   });
 }
 
+export function listFormEnvReports(): FormEnvReport[] {
+  return REGISTRY.forms.map((f) => buildFormEnvReport(f));
+}
+
 export function getFormBySlug(slug: string): FormConfigResolved | null {
   const form = listForms().find((f) => f.slug === slug) || null;
+  if (form && getFormsStrictEnv()) {
+    // Strict mode: refuse to serve a form that would silently drop data
+    const def = REGISTRY.forms.find((f) => f.slug === slug)!;
+    const report = buildFormEnvReport(def);
+    if (!report.ok) {
+      console.error(
+        `[formsRegistry] FORMS_STRICT_ENV: refusing form "${slug}"; missing env: ${report.missing.join(", ")}`
+      );
+      return null;
+    }
+  }
   return form;
 }
@@ -0,0 +1,290 @@
+// src/lib/freeSlots.ts
+// The bookable slots of a form's calendar: LeadConnector free-slots,
+// normalized to `{ [YYYY-MM-DD]: { slots } }`, trimmed to slots the
+// appointment (plus buffer) fits in, filtered by the booking rules and
+// without starts other visitors hold (slotHolds.ts).
+// /api/availability lists them and /api/appointments re-fetches them right
+// before booking, so a time the picker would not offer can't be booked.
+//
+// Raw free-slots answers are cached briefly per calendar + range + timezone
+// and identical in-flight requests share one upstream call, so a busy
+// campaign doesn't hit LeadConnector once per visitor. A booking bumps the
+// calendar's cache generation, which retires every cached range at once.
+import { getCache, setCache } from "./cache";
+import type { BookingConfig } from "./formsRegistry";
+import { lcGetFreeSlots } from "./leadconnector";
+import { checkSlot } from "./bookingRules";
+import { zonedParts } from "./time";
+import { getHeldStarts } from "./slotHolds";
+import {
+  getCalendarSlotMinutes,
+  resolveBookingDuration,
+  slotsThatFit,
+} from "./bookingDuration";
+
+export type SlotsByDate = Record<string, { slots: string[] }>;
+
+export type BookableSlots = {
+  slots: SlotsByDate;
+  durationMinutes: number;
+  traceId?: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days after the requested one searched for alternatives, and how many
+// alternatives are offered
+const ALTERNATIVE_DAYS = 2;
+const MAX_ALTERNATIVES = 6;
+
+type FreeSlotsResponse = Awaited<ReturnType<typeof lcGetFreeSlots>>;
+
+// FREE_SLOTS_CACHE_SECONDS=0 turns the cache off (coalescing stays on)
+const CACHE_TTL_MS =
+  Number(process.env.FREE_SLOTS_CACHE_SECONDS ?? 60) * 1000;
+// Outlives every entry, so a bump can't be forgotten before they expire
+const GENERATION_TTL_MS = 24 * 60 * 60 * 1000;
+// Range ends are widened to this grid so "from now" requests share entries
+const RANGE_GRID_MS = 5 * 60 * 1000;
+
+const inflight = new Map<string, Promise<FreeSlotsResponse>>();
+
+const generationKey = (calendarId: string) =>
+  `lc:free-slots-gen:${calendarId}`;
+
+/** Retire every cached free-slots range of a calendar (after a booking). */
+export async function invalidateFreeSlots(calendarId: string): Promise<void> {
+  await setCache(generationKey(calendarId), Date.now(), GENERATION_TTL_MS);
+}
+
+type FreeSlotsArgs = {
+  calendarId: string;
+  startDateMs: number;
+  endDateMs: number;
+  timezone: string;
+};
+
+// The range widened to the grid, and its cache key
+async function freeSlotsKey(args: FreeSlotsArgs) {
+  const startDateMs =
+    Math.floor(args.startDateMs / RANGE_GRID_MS) * RANGE_GRID_MS;
+  const endDateMs = Math.min(
+    Math.ceil(args.endDateMs / RANGE_GRID_MS) * RANGE_GRID_MS,
+    startDateMs + 31 * DAY_MS
+  );
+  const gen = (await getCache<number>(generationKey(args.calendarId))) ?? 0;
+  const key = [
+    "lc:free-slots",
+    args.calendarId,
+    gen,
+    startDateMs,
+    endDateMs,
+    args.timezone,
+  ].join(":");
+  return { key, startDateMs, endDateMs };
+}
+
+async function fetchFreeSlots(
+  args: FreeSlotsArgs,
+  fresh = false
+): Promise<FreeSlotsResponse> {
+  const { key, startDateMs, endDateMs } = await freeSlotsKey(args);
+  if (!fresh && CACHE_TTL_MS > 0) {
+    const cached = await getCache<FreeSlotsResponse>(key);
+    if (cached) return cached;
+  }
+  const pending = inflight.get(key);
+  if (pending) return pending;
+
+  const p = lcGetFreeSlots({ ...args, startDateMs, endDateMs })
+    .then(async (raw) => {
+      if (CACHE_TTL_MS > 0) await setCache(key, raw, CACHE_TTL_MS);
+      return raw;
+    })
+    .finally(() => inflight.delete(key));
+  inflight.set(key, p);
+  return p;
+}
+
+// LeadConnector answers with a flat array, `_dates_`, or top-level date keys
+export function normalizeFreeSlots(
+  raw: FreeSlotsResponse,
+  timezone: string
+): SlotsByDate {
+  const out: SlotsByDate = {};
+  if (Array.isArray(raw.slots)) {
+    for (const iso of raw.slots.filter(Boolean) as string[]) {
+      const { dateKey } = zonedParts(Date.parse(iso), timezone);
+      (out[dateKey] ??= { slots: [] }).slots.push(iso);
+    }
+    return out;
+  }
+  const source: Record<string, { slots?: unknown } | undefined> =
+    raw._dates_ && typeof raw._dates_ === "object" ? raw._dates_ : raw;
+  for (const [key, value] of Object.entries(source)) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(key) && Array.isArray(value?.slots))
+      out[key] = { slots: value.slots };
+  }
+  return out;
+}
+
+/**
+ * Bookable slots between `startMs` and `endMs` (at most 31 days), grouped by
+ * date in `timezone`. Rules are always evaluated in the business timezone;
+ * the caller's own hold (`holdId`) stays visible to it. `fresh` skips the
+ * cache read (the result still refreshes it).
+ * Throws when LeadConnector free-slots fails.
+ */
+export async function getBookableSlots(
+  booking: BookingConfig & { calendarId: string },
+  {
+    startMs,
+    endMs,
+    timezone,
+    holdId,
+    fresh,
+  }: {
+    startMs: number;
+    endMs: number;
+    timezone: string;
+    holdId?: string;
+    fresh?: boolean;
+  }
+): Promise<BookableSlots> {
+  const raw = await fetchFreeSlots(
+    {
+      calendarId: booking.calendarId,
+      startDateMs: startMs,
+      endDateMs: endMs,
+      timezone,
+    },
+    fresh
+  );
+  return toBookable(booking, raw, timezone, holdId);
+}
+
+// Fit, rule-filter and hold-filter a free-slots answer
+async function toBookable(
+  booking: BookingConfig & { calendarId: string },
+  raw: FreeSlotsResponse,
+  timezone: string,
+  holdId?: string
+): Promise<BookableSlots> {
+  const duration = await resolveBookingDuration(booking);
+  const slotMinutes = await getCalendarSlotMinutes(booking.calendarId);
+  const ruleOpts = {
+    tz: booking.timezone || timezone,
+    durationMinutes: duration.durationMinutes,
+    minLeadMinutes: booking.minLeadMinutes,
+    now: Date.now(),
+  };
+  const held = await getHeldStarts(booking.calendarId, holdId);
+
+  const slots: SlotsByDate = {};
+  for (const [dateKey, obj] of Object.entries(
+    normalizeFreeSlots(raw, timezone)
+  )) {
+    const kept = slotsThatFit(obj.slots, duration, slotMinutes).filter(
+      (iso) =>
+        !held.has(Date.parse(iso)) &&
+        checkSlot(Date.parse(iso), booking.rules, ruleOpts).ok
+    );
+    if (kept.length) slots[dateKey] = { slots: kept };
+  }
+  return {
+    slots,
+    durationMinutes: duration.durationMinutes,
+    ...(raw.traceId && { traceId: raw.traceId }),
+  };
+}
+
+export type SlotVerification =
+  | { ok: true; verified: boolean }
+  | { ok: false; alternatives: string[] };
+
+/**
+ * Is `startMs` bookable right now (for the visitor holding `holdId`)?
+ * Re-fetches the requested day (and the following days, for alternatives)
+ * in the business timezone `tz`. When it isn't, the closest bookable starts
+ * come back as `alternatives`, earliest first. Fails open (`verified: false`)
+ * when LeadConnector can't be reached; appointment creation still rejects a
+ * taken slot with 409.
+ */
+export async function verifySlot(
+  booking: BookingConfig & { calendarId: string },
+  startMs: number,
+  tz: string,
+  holdId?: string
+): Promise<SlotVerification> {
+  const { fromMs, toMs } = verificationRange(startMs, tz);
+
+  let bookable: BookableSlots;
+  try {
+    bookable = await getBookableSlots(booking, {
+      startMs: fromMs,
+      endMs: toMs,
+      timezone: tz,
+      holdId,
+      fresh: true,
+    });
+  } catch (e) {
+    console.warn(
+      "[freeSlots] slot verification skipped:",
+      (e as Error).message
+    );
+    return { ok: true, verified: false };
+  }
+
+  const all = Object.values(bookable.slots).flatMap((d) => d.slots);
+  if (all.some((iso) => Date.parse(iso) === startMs))
+    return { ok: true, verified: true };
+  return { ok: false, alternatives: nearestStarts(all, startMs) };
+}
+
+/**
+ * The starts verifySlot would offer as alternatives, from cached free slots
+ * only: a rejection that needs no verification (a booking rule break) never
+ * fetches free slots. [] when nothing is cached.
+ */
+export async function cachedAlternatives(
+  booking: BookingConfig & { calendarId: string },
+  startMs: number,
+  tz: string,
+  holdId?: string
+): Promise<string[]> {
+  if (CACHE_TTL_MS <= 0) return [];
+  const { fromMs, toMs } = verificationRange(startMs, tz);
+  const { key } = await freeSlotsKey({
+    calendarId: booking.calendarId,
+    startDateMs: fromMs,
+    endDateMs: toMs,
+    timezone: tz,
+  });
+  const raw = await getCache<FreeSlotsResponse>(key);
+  if (!raw) return [];
+  const bookable = await toBookable(booking, raw, tz, holdId);
+  return nearestStarts(
+    Object.values(bookable.slots).flatMap((d) => d.slots),
+    startMs
+  );
+}
+
+// The requested day (from now on) plus the days searched for alternatives
+function verificationRange(startMs: number, tz: string) {
+  const dayStartMs = startMs - zonedParts(startMs, tz).minutes * 60 * 1000;
+  const fromMs = Math.max(dayStartMs, Date.now());
+  const toMs =
+    Math.max(dayStartMs + DAY_MS, fromMs) + ALTERNATIVE_DAYS * DAY_MS;
+  return { fromMs, toMs };
+}
+
+/** The starts closest to `startMs` (at most 6), earliest first. */
+export function nearestStarts(starts: string[], startMs: number): string[] {
+  // one entry per instant (calendars may spell the same start differently)
+  const byTime = new Map(starts.map((iso) => [Date.parse(iso), iso]));
+  return [...byTime]
+    .sort(([a], [b]) => Math.abs(a - startMs) - Math.abs(b - startMs))
+    .slice(0, MAX_ALTERNATIVES)
+    .sort(([a], [b]) => a - b)
+    .map(([, iso]) => iso);
+}
@@ -0,0 +1,260 @@
+// src/lib/idempotency.ts
+// Replay protection for the submit routes. LeadForm sends an
+// `Idempotency-Key` header per submit attempt; the first request with a key
+// claims it, runs the handler and stores its successful response, and any
+// replay (double-click, client or proxy retry) gets that response back
+// instead of upserting, enrolling or booking a second time.
+//
+// Records live in an IdempotencyStore: process-local memory, or Redis
+// (SET NX) so every instance of a multi-instance deploy shares them.
+import crypto from "node:crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import { getRedisClient, type RespClient } from "./resp";
+
+export type IdempotentRoute = "lead" | "appointments";
+
+export type IdempotencyRecord =
+  | { state: "pending"; fingerprint: string }
+  | { state: "done"; fingerprint: string; status: number; body: string };
+
+export interface IdempotencyStore {
+  readonly kind: "memory" | "redis";
+  /** Store `record` unless the key exists; returns the existing record. */
+  claim(
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): Promise<IdempotencyRecord | null>;
+  put(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Process-local records; fine for dev and single-instance deploys.
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  readonly kind = "memory" as const;
+  private records = new Map<
+    string,
+    { record: IdempotencyRecord; expiresAt: number }
+  >();
+
+  async claim(
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): Promise<IdempotencyRecord | null> {
+    const now = Date.now();
+    for (const [k, e] of this.records)
+      if (e.expiresAt <= now) this.records.delete(k);
+    const existing = this.records.get(key);
+    if (existing) return existing.record;
+    this.records.set(key, { record, expiresAt: now + ttlMs });
+    return null;
+  }
+
+  async put(key: string, record: IdempotencyRecord, ttlMs: number) {
+    this.records.set(key, { record, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string) {
+    this.records.delete(key);
+  }
+}
+
+export class RedisIdempotencyStore implements IdempotencyStore {
+  readonly kind = "redis" as const;
+
+  constructor(private client: RespClient, private prefix = "ghlv:idem:") {}
+
+  async claim(
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): Promise<IdempotencyRecord | null> {
+    const k = this.prefix + key;
+    const ok = await this.client.command([
+      "SET",
+      k,
+      JSON.stringify(record),
+      "NX",
+      "PX",
+      ttlMs,
+    ]);
+    if (ok === "OK") return null;
+    const raw = await this.client.command(["GET", k]);
+    // Expired between SET and GET: report in-flight so the client retries
+    return typeof raw === "string"
+      ? (JSON.parse(raw) as IdempotencyRecord)
+      : { state: "pending", fingerprint: record.fingerprint };
+  }
+
+  async put(key: string, record: IdempotencyRecord, ttlMs: number) {
+    await this.client.command([
+      "SET",
+      this.prefix + key,
+      JSON.stringify(record),
+      "PX",
+      ttlMs,
+    ]);
+  }
+
+  async delete(key: string) {
+    await this.client.command(["DEL", this.prefix + key]);
+  }
+}
+
+let store: IdempotencyStore | null = null;
+
+/**
+ * IDEMPOTENCY_STORE=memory | redis (default: redis when CACHE_STORE=redis).
+ * Redis needs REDIS_URL (see resp.ts).
+ */
+export function getIdempotencyStore(): IdempotencyStore {
+  if (store) return store;
+  const kind = (
+    process.env.IDEMPOTENCY_STORE ||
+    (process.env.CACHE_STORE === "redis" ? "redis" : "memory")
+  ).toLowerCase();
+  const redis = kind === "redis" ? getRedisClient() : null;
+  if (kind !== "memory" && !redis)
+    console.warn(
+      `[idempotency] IDEMPOTENCY_STORE=${kind} unusable; using memory (REDIS_URL set?)`
+    );
+  store = redis
+    ? new RedisIdempotencyStore(redis)
+    : new MemoryIdempotencyStore();
+  return store;
+}
+
+// Completed responses are replayable for a day; a claim whose request died
+// mid-flight frees itself after two minutes.
+const DONE_TTL_MS = 24 * 60 * 60 * 1000;
+const PENDING_TTL_MS = 2 * 60 * 1000;
+
+const KEY_RE = /^[A-Za-z0-9_-]{8,128}$/;
+
+// Tokens that differ on every attempt but don't change what is submitted
+const VOLATILE_FIELDS = ["captchaToken", "botCheck"];
+
+function stableStringify(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableStringify).join(",")}]`;
+  if (v && typeof v === "object")
+    return `{${Object.keys(v)
+      .sort()
+      .map(
+        (k) =>
+          `${JSON.stringify(k)}:${stableStringify(
+            (v as Record<string, unknown>)[k]
+          )}`
+      )
+      .join(",")}}`;
+  return JSON.stringify(v) ?? "null";
+}
+
+async function fingerprintOf(req: Request): Promise<string> {
+  const text = await req.clone().text();
+  let body: unknown = text;
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      for (const f of VOLATILE_FIELDS) delete parsed[f];
+      body = parsed;
+    }
+  } catch {
+    // not JSON: hash the raw text
+  }
+  return crypto
+    .createHash("sha256")
+    .update(stableStringify(body))
+    .digest("hex");
+}
+
+function errorResponse(status: number, error: string, message: string) {
+  return NextResponse.json({ ok: false, error, message }, { status });
+}
+
+/**
+ * Wrap a submit handler. Requests without an `Idempotency-Key` header run as
+ * before. Only 2xx responses are stored: after an error nothing was
+ * committed, so a retry with the same key runs the handler again.
+ * The store failing open means a Redis outage never blocks a real lead.
+ */
+export function withIdempotency<Ctx>(
+  route: IdempotentRoute,
+  handler: (req: NextRequest, ctx: Ctx) => Promise<Response>
+): (req: NextRequest, ctx: Ctx) => Promise<Response> {
+  return async (req, ctx) => {
+    const header = req.headers.get("idempotency-key");
+    if (header === null) return handler(req, ctx);
+    if (!KEY_RE.test(header))
+      return errorResponse(
+        400,
+        "idempotency_key_invalid",
+        "Idempotency-Key must be 8-128 letters, digits, - or _."
+      );
+
+    const key = `${route}:${header}`;
+    const fingerprint = await fingerprintOf(req);
+    const idem = getIdempotencyStore();
+
+    let existing: IdempotencyRecord | null;
+    try {
+      existing = await idem.claim(
+        key,
+        { state: "pending", fingerprint },
+        PENDING_TTL_MS
+      );
+    } catch (e) {
+      console.warn("[idempotency] claim failed:", (e as Error).message);
+      return handler(req, ctx);
+    }
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint)
+        return errorResponse(
+          422,
+          "idempotency_key_reused",
+          "This Idempotency-Key was already used for a different submission."
+        );
+      if (existing.state === "pending") {
+        const res = errorResponse(
+          409,
+          "idempotency_in_progress",
+          "This submission is still being processed."
+        );
+        res.headers.set("Retry-After", "1");
+        return res;
+      }
+      return new NextResponse(existing.body, {
+        status: existing.status,
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotent-Replayed": "true",
+        },
+      });
+    }
+
+    let res: Response;
+    try {
+      res = await handler(req, ctx);
+    } catch (e) {
+      await idem.delete(key).catch(() => {});
+      throw e;
+    }
+
+    try {
+      if (res.ok) {
+        const body = await res.clone().text();
+        await idem.put(
+          key,
+          { state: "done", fingerprint, status: res.status, body },
+          DONE_TTL_MS
+        );
+      } else {
+        await idem.delete(key);
+      }
+    } catch (e) {
+      console.warn("[idempotency] store failed:", (e as Error).message);
+    }
+    return res;
+  };
+}
@@ -1,4 +1,6 @@
 // src/lib/leadconnector.ts
+import { onlyDigits, toE164 } from "./phone";
+
 const BASE = process.env.LC_BASE_URL!;
 const VERSION = process.env.LC_API_VERSION!;
 const TOKEN = process.env.LC_PRIVATE_TOKEN!;
@@ -55,13 +57,28 @@ export function toE164FromNational(
   country?: string
 ): string | undefined {
   if (!digits) return undefined;
-  const d = String(digits).replace(/[^\d+]/g, "");
-  const iso = (country || "").toUpperCase();
-  if (d.startsWith("+")) return d;
-  if (iso === "US" || iso === "CA") return `+1${d}`;
-  return `+${d}`;
+  // same rules as the form (lib/phone.ts); unknown country → best effort
+  const d = onlyDigits(digits);
+  return toE164(digits, country) || (d ? `+${d}` : undefined);
 }
 
+// Contact body for upsert / create / update (contactSync.ts builds it)
+export type LCContactPayload = {
+  locationId?: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  country?: string;
+  tags?: string[];
+  source?: string;
+  customFields?: { id: string; value: string }[];
+};
+
+export type LCContactSearchResponse = {
+  contacts?: { id?: string; contactId?: string }[];
+};
+
 // Preferred if enabled on the account
 export async function lcUpsertContact(payload: AnyObj) {
   return lcFetch<any>("/contacts/upsert", {
@@ -264,6 +281,24 @@ export async function lcGetFreeSlots(args: {
   }
 }
 
+// Calendar settings; `slotDuration` is in `slotDurationUnit` ("mins" | "hours")
+export type LCCalendar = {
+  id: string;
+  name?: string;
+  slotDuration?: number;
+  slotDurationUnit?: string;
+  [key: string]: unknown;
+};
+
+export async function lcGetCalendar(calendarId: string): Promise<LCCalendar> {
+  const data = await lcFetch<{ calendar?: LCCalendar }>(
+    `/calendars/${encodeURIComponent(calendarId)}`,
+    { method: "GET", headers: { Version: CAL_VER } }
+  );
+  if (!data?.calendar) throw new Error("LeadConnector returned no calendar");
+  return data.calendar;
+}
+
 export async function lcCreateAppointment(args: {
   locationId: string;
   calendarId: string;
@@ -428,3 +463,116 @@ export async function lcCreateAppointment(args: {
     throw new Error(`Network error calling LeadConnector: ${error.message}`);
   }
 }
+
+// A booked event, as GET/PUT /calendars/events/appointments/{id} return it
+export type LCAppointment = {
+  id: string;
+  calendarId?: string;
+  contactId?: string;
+  title?: string;
+  startTime?: string;
+  endTime?: string;
+  appointmentStatus?: string; // "confirmed" | "cancelled" | ...
+  [key: string]: unknown;
+};
+
+const appointmentPath = (eventId: string) =>
+  `/calendars/events/appointments/${encodeURIComponent(eventId)}`;
+
+export async function lcGetAppointment(
+  eventId: string
+): Promise<LCAppointment> {
+  const data = await lcFetch<{
+    appointment?: LCAppointment;
+    event?: LCAppointment;
+  }>(appointmentPath(eventId), {
+    method: "GET",
+    headers: { Version: CAL_VER },
+  });
+  const appt = data?.appointment ?? data?.event;
+  if (!appt) throw new Error("LeadConnector returned no appointment");
+  return appt;
+}
+
+// Move an appointment (reschedule) or change its status (cancel)
+export async function lcUpdateAppointment(
+  eventId: string,
+  changes: {
+    startTimeIso?: string;
+    endTimeIso?: string;
+    appointmentStatus?: string;
+    toNotify?: boolean;
+  }
+): Promise<LCAppointment> {
+  const { startTimeIso, endTimeIso, appointmentStatus, toNotify } = changes;
+  const data = await lcFetch<LCAppointment & { appointment?: LCAppointment }>(
+    appointmentPath(eventId),
+    {
+      method: "PUT",
+      headers: { Version: CAL_VER },
+      body: JSON.stringify({
+        ...(startTimeIso && { startTime: startTimeIso }),
+        ...(endTimeIso && { endTime: endTimeIso }),
+        ...(appointmentStatus && { appointmentStatus }),
+        toNotify: toNotify ?? true,
+      }),
+    }
+  );
+  return data?.appointment ?? data;
+}
+
+// Events booked on a calendar between two instants (for least-loaded
+// assignment across calendars)
+export async function lcGetCalendarEvents(args: {
+  locationId: string;
+  calendarId: string;
+  startMs: number;
+  endMs: number;
+}): Promise<LCAppointment[]> {
+  const params = new URLSearchParams({
+    locationId: args.locationId,
+    calendarId: args.calendarId,
+    startTime: String(args.startMs),
+    endTime: String(args.endMs),
+  });
+  const data = await lcFetch<{ events?: LCAppointment[] }>(
+    `/calendars/events?${params.toString()}`,
+    { method: "GET", headers: { Version: CAL_VER } }
+  );
+  return data?.events ?? [];
+}
+
+export async function lcCancelAppointment(
+  eventId: string
+): Promise<LCAppointment> {
+  return lcUpdateAppointment(eventId, { appointmentStatus: "cancelled" });
+}
+
+// Adds tags without replacing the contact's existing ones
+export async function lcAddContactTags(contactId: string, tags: string[]) {
+  return lcFetch<{ tags?: string[] }>(
+    `/contacts/${encodeURIComponent(contactId)}/tags`,
+    {
+      method: "POST",
+      body: JSON.stringify({ tags }),
+    }
+  );
+}
+
+export type LCContact = {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  customFields?: { id: string; value?: unknown }[];
+  [key: string]: unknown;
+};
+
+export async function lcGetContact(contactId: string): Promise<LCContact> {
+  const data = await lcFetch<{ contact?: LCContact }>(
+    `/contacts/${encodeURIComponent(contactId)}`,
+    { method: "GET" }
+  );
+  if (!data?.contact) throw new Error("LeadConnector returned no contact");
+  return data.contact;
+}
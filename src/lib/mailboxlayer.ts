@@ -1,17 +1,12 @@
-import {
-  EMAIL_SCORE_GOOD,
-  EMAIL_SCORE_MED,
-  VALIDATION_TIMEOUT_MS,
-  BLOCK_ROLE_EMAILS,
-  BLOCK_DISPOSABLE,
-} from "./config";
+import { EMAIL_SCORE_GOOD, EMAIL_SCORE_MED, VALIDATION_TIMEOUT_MS } from "./config";
 import type { EmailResult, Confidence } from "./validationTypes";
 
 const API = "https://apilayer.net/api/check";
 const KEY = process.env.MAILBOXLAYER_API_KEY;
 
 export async function mailboxlayerCheck(
-  email: string
+  email: string,
+  timeoutMs: number = VALIDATION_TIMEOUT_MS
 ): Promise<{ raw?: any; result: EmailResult }> {
   if (!KEY) {
     return {
@@ -30,7 +25,7 @@ export async function mailboxlayerCheck(
   url.searchParams.set("format", "1");
 
   const controller = new AbortController();
-  const to = setTimeout(() => controller.abort(), VALIDATION_TIMEOUT_MS);
+  const to = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
     const res = await fetch(url, {
@@ -73,24 +68,15 @@ export async function mailboxlayerCheck(
       return "low";
     };
 
-    // Hard blocking conditions only
+    // Hard blocking conditions only; disposable/role are reported as flags
+    // and judged by the form's validation policy
     const badFormat = format_valid !== true;
     const noMx = mx_found !== true;
     const smtpFail = smtp_check === false;
-    const disposableBlocked = disposable && BLOCK_DISPOSABLE;
-    const roleBlocked = role && BLOCK_ROLE_EMAILS;
 
     // Only block on definitive undeliverable signals
-    if (badFormat || noMx || smtpFail || disposableBlocked || roleBlocked) {
-      const reason = badFormat
-        ? "bad_format"
-        : noMx
-        ? "no_mx"
-        : smtpFail
-        ? "smtp_fail"
-        : disposableBlocked
-        ? "disposable"
-        : "role";
+    if (badFormat || noMx || smtpFail) {
+      const reason = badFormat ? "bad_format" : noMx ? "no_mx" : "smtp_fail";
 
       return {
         raw: data,
@@ -0,0 +1,142 @@
+// src/lib/manageBooking.ts
+// Resolves a manage-booking token to everything the /booking/<token> page
+// and /api/booking/<token> need: the signed payload, the form's booking
+// config and the live LeadConnector appointment. Failures come back as a
+// status + message pair so the page and the route can render them alike.
+// On multi-calendar forms `booking` is narrowed to the appointment's calendar,
+// so a reschedule stays with whoever it was assigned to.
+//
+// A link expires when the appointment, as LeadConnector has it now, starts,
+// and is retired once the appointment is rescheduled: the reschedule bumps
+// its link version (bookingLinkStore.ts) and hands out a link at the new
+// one, so an old link leaked from an inbox can't move it again.
+import { getBookingLinkStore } from "./bookingLinkStore";
+import { checkBookingToken, type BookingTokenPayload } from "./bookingToken";
+import {
+  getFormBySlug,
+  type BookingCalendar,
+  type BookingConfig,
+  type FormConfigResolved,
+} from "./formsRegistry";
+import { lcGetAppointment, type LCAppointment } from "./leadconnector";
+
+export type ManagedBooking = {
+  token: BookingTokenPayload;
+  form: FormConfigResolved;
+  booking: BookingConfig & { calendarId: string };
+  calendar: BookingCalendar;
+  appointment: LCAppointment;
+  cancelled: boolean;
+};
+
+export type ManagedBookingResult =
+  | ({ ok: true } & ManagedBooking)
+  | { ok: false; status: number; error: string; message: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retire every link issued so far for the appointment; returns the version
+ * for the fresh one. Kept a day past `untilMs` (the new start), after which
+ * the start check turns old links away anyway. Store errors propagate.
+ */
+export async function nextManageLinkVersion(
+  appointmentId: string,
+  untilMs: number,
+  now = Date.now()
+): Promise<number> {
+  return getBookingLinkStore().bump(
+    appointmentId,
+    Math.max(untilMs - now, 0) + DAY_MS
+  );
+}
+
+export async function loadManagedBooking(
+  token: string,
+  now = Date.now()
+): Promise<ManagedBookingResult> {
+  const check = checkBookingToken(token);
+  if (check.status !== "ok")
+    return {
+      ok: false,
+      status: 404,
+      error: "link_invalid",
+      message: "This booking link is not valid.",
+    };
+  // Older than the appointment's current version: a reschedule replaced it
+  const current = await getBookingLinkStore().version(
+    check.booking.appointmentId
+  );
+  if ((check.booking.version ?? 0) < current)
+    return {
+      ok: false,
+      status: 410,
+      error: "link_expired",
+      message:
+        "This appointment was rescheduled. Use the link from your latest confirmation.",
+    };
+
+  const form = getFormBySlug(check.booking.formSlug);
+  const booking = form?.booking;
+  if (!form || !booking?.enabled || !booking.calendarId)
+    return {
+      ok: false,
+      status: 404,
+      error: "booking_not_found",
+      message: "Online booking is no longer available for this appointment.",
+    };
+
+  let appointment: LCAppointment;
+  try {
+    appointment = await lcGetAppointment(check.booking.appointmentId);
+  } catch (e) {
+    const status = (e as { status?: number }).status;
+    if (status === 404)
+      return {
+        ok: false,
+        status: 404,
+        error: "appointment_not_found",
+        message: "We couldn't find this appointment.",
+      };
+    throw e;
+  }
+  // The token names the contact it was issued to; a mismatch means the
+  // event was reassigned in LeadConnector, so the link no longer applies
+  if (
+    appointment.contactId &&
+    appointment.contactId !== check.booking.contactId
+  )
+    return {
+      ok: false,
+      status: 404,
+      error: "appointment_not_found",
+      message: "We couldn't find this appointment.",
+    };
+
+  // LeadConnector's start is the truth (the event may have been moved
+  // there); the token's is the fallback when it has none
+  const startMs =
+    Date.parse(appointment.startTime ?? "") ||
+    Date.parse(check.booking.startISO);
+  if (now >= startMs)
+    return {
+      ok: false,
+      status: 410,
+      error: "link_expired",
+      message: "This appointment has already started or passed.",
+    };
+
+  // An event moved to a calendar the form no longer lists: the first one
+  const calendar =
+    booking.calendars.find((c) => c.calendarId === appointment.calendarId) ??
+    booking.calendars[0];
+  return {
+    ok: true,
+    token: check.booking,
+    form,
+    booking: { ...booking, calendarId: calendar.calendarId },
+    calendar,
+    appointment,
+    cancelled: /^cancel/i.test(appointment.appointmentStatus ?? ""),
+  };
+}
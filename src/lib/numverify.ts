@@ -1,5 +1,6 @@
-import { BLOCK_VOIP, ALLOW_LANDLINE, VALIDATION_TIMEOUT_MS } from "./config";
+import { VALIDATION_TIMEOUT_MS } from "./config";
 import type { PhoneResult, Confidence } from "./validationTypes";
+import { normalizeLineType } from "./phone";
 
 const API = "http://apilayer.net/api/validate";
 const KEY = process.env.NUMVERIFY_API_KEY;
@@ -12,7 +13,8 @@ export function isPlausiblePhoneBare(input: string): boolean {
 
 export async function numverifyCheck(
   number: string,
-  country?: string
+  country?: string,
+  timeoutMs: number = VALIDATION_TIMEOUT_MS
 ): Promise<{ raw?: any; result: PhoneResult }> {
   if (!KEY) {
     return {
@@ -31,7 +33,7 @@ export async function numverifyCheck(
   url.searchParams.set("format", "1");
 
   const controller = new AbortController();
-  const to = setTimeout(() => controller.abort(), VALIDATION_TIMEOUT_MS);
+  const to = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
     const res = await fetch(url, {
@@ -62,37 +64,12 @@ export async function numverifyCheck(
       };
     }
 
-    const lt = (line_type || "").toLowerCase(); // 'mobile' | 'landline' | 'voip' | '' (unknown on free plan)
+    // free plan may omit line_type → leave undefined (policy can't judge it)
+    const lt = line_type ? normalizeLineType(line_type) : undefined;
 
-    // Compute confidence based on line type and blocking rules
-    let confidence: Confidence = "good";
-    if (lt === "voip" && !BLOCK_VOIP) {
-      confidence = "medium"; // VOIP allowed but lower confidence
-    } else if (lt === "landline" && !ALLOW_LANDLINE) {
-      return {
-        raw: data,
-        result: {
-          valid: false,
-          reason: "line_type_blocked",
-          confidence: "low",
-          lineType: lt,
-          country: country_code,
-          normalized: international_format,
-        },
-      };
-    } else if (lt === "voip" && BLOCK_VOIP) {
-      return {
-        raw: data,
-        result: {
-          valid: false,
-          reason: "voip_blocked",
-          confidence: "low",
-          lineType: lt,
-          country: country_code,
-          normalized: international_format,
-        },
-      };
-    }
+    // Line-type rules belong to the form's validation policy; VOIP only
+    // lowers confidence here.
+    const confidence: Confidence = lt === "voip" ? "medium" : "good";
 
     // Valid number
     return {
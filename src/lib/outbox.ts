@@ -0,0 +1,194 @@
+// src/lib/outbox.ts
+// Durable outbox for lead submissions. /api/lead records every validated lead
+// here BEFORE calling LeadConnector, then delivers it step by step:
+//   contact (contactSync chain) → customFields (PUT) → workflow (enrollment)
+// A failed step is retried later with exponential backoff, resuming from the
+// first unfinished step, so an upstream outage never drops a lead.
+import { randomUUID } from "node:crypto";
+import { addContactToWorkflow } from "./leadconnector";
+import { resolveContact, writeCustomFields } from "./contactSync";
+import {
+  getOutboxStore,
+  type LeadJob,
+  type OutboxEntry,
+  type OutboxStepName,
+} from "./outboxStore";
+
+export type { LeadJob, OutboxEntry } from "./outboxStore";
+
+const MAX_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS ?? 8);
+const BASE_DELAY_MS = Number(process.env.OUTBOX_BASE_DELAY_MS ?? 30_000);
+const MAX_DELAY_MS = 60 * 60 * 1000; // cap backoff at 1h
+const LEASE_MS = 60 * 1000;
+// Finished entries stay visible to GET /api/outbox/:id this long
+const RETENTION_MS =
+  Number(process.env.OUTBOX_RETENTION_DAYS ?? 7) * 24 * 60 * 60 * 1000;
+const PRUNE_EVERY_MS = 60 * 60 * 1000;
+let lastPruneAt = 0;
+
+const STEP_ORDER: OutboxStepName[] = ["contact", "customFields", "workflow"];
+
+export function backoffDelayMs(attempts: number): number {
+  const exp = BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+  const jitter = Math.random() * 0.2 * exp; // up to +20% spread avoids herds
+  return Math.min(MAX_DELAY_MS, Math.round(exp + jitter));
+}
+
+function errorMessage(e: unknown): string {
+  const { status, message } =
+    typeof e === "object" && e !== null
+      ? (e as { status?: number; message?: string })
+      : {};
+  return `${message || String(e)}${status ? ` (${status})` : ""}`;
+}
+
+export async function enqueueLead(
+  formSlug: string,
+  job: LeadJob
+): Promise<OutboxEntry> {
+  const now = new Date().toISOString();
+  const entry: OutboxEntry = {
+    id: randomUUID(),
+    formSlug,
+    createdAt: now,
+    updatedAt: now,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    job,
+    steps: {
+      contact: { status: "pending", attempts: 0 },
+      customFields: {
+        status: job.customFields.length ? "pending" : "skipped",
+        attempts: 0,
+      },
+      workflow: {
+        status: job.workflowId ? "pending" : "skipped",
+        attempts: 0,
+      },
+    },
+  };
+  await getOutboxStore().put(entry);
+  return entry;
+}
+
+async function runStep(entry: OutboxEntry, step: OutboxStepName) {
+  const { job } = entry;
+  if (step === "contact") {
+    const resolved = await resolveContact(job.basePayload, job.customFields);
+    entry.contactId = resolved.contactId;
+    entry.contactPath = resolved.path;
+  } else if (step === "customFields") {
+    await writeCustomFields(entry.contactId!, job.customFields);
+  } else if (job.workflowId) {
+    await addContactToWorkflow(entry.contactId!, job.workflowId, job.locationId);
+  }
+}
+
+/**
+ * Run every unfinished step of an entry once. On the first failure the entry
+ * is rescheduled (or marked failed after OUTBOX_MAX_ATTEMPTS) and persisted.
+ * While another worker holds the entry's lease it is returned unchanged.
+ */
+export async function deliverEntry(
+  queued: OutboxEntry
+): Promise<OutboxEntry> {
+  const store = getOutboxStore();
+  const owner = await store.acquire(queued.id, LEASE_MS);
+  if (!owner) return queued;
+  try {
+    // Re-read under the lease: another worker may have delivered it since
+    const entry = (await store.get(queued.id)) ?? queued;
+    if (entry.status === "delivered" || entry.status === "failed")
+      return entry;
+    return await deliverLeased(entry);
+  } finally {
+    await store.release(queued.id, owner);
+  }
+}
+
+async function deliverLeased(entry: OutboxEntry): Promise<OutboxEntry> {
+  const store = getOutboxStore();
+  entry.attempts += 1;
+  await store.put(entry);
+
+  let failed = false;
+  for (const step of STEP_ORDER) {
+    const state = entry.steps[step];
+    if (state.status === "done" || state.status === "skipped") continue;
+    state.attempts += 1;
+    try {
+      await runStep(entry, step);
+      state.status = "done";
+      state.completedAt = new Date().toISOString();
+      delete state.lastError;
+    } catch (e) {
+      state.status = "failed";
+      state.lastError = errorMessage(e);
+      entry.lastError = `${step}: ${state.lastError}`;
+      console.warn(`[outbox] ${entry.id} step "${step}" failed:`, e);
+      failed = true;
+      break; // later steps depend on earlier ones
+    }
+  }
+
+  entry.updatedAt = new Date().toISOString();
+  if (!failed) {
+    entry.status = "delivered";
+    entry.nextAttemptAt = null;
+    delete entry.lastError;
+  } else if (entry.attempts >= MAX_ATTEMPTS) {
+    entry.status = "failed";
+    entry.nextAttemptAt = null;
+    console.error(`[outbox] ${entry.id} gave up after ${entry.attempts} tries`);
+  } else {
+    entry.status = "retrying";
+    entry.nextAttemptAt = Date.now() + backoffDelayMs(entry.attempts);
+  }
+  if (entry.status === "retrying") await store.put(entry);
+  else await store.finish(entry);
+  return entry;
+}
+
+/**
+ * Deliver entries whose retry time has come, and (hourly) prune finished
+ * ones older than OUTBOX_RETENTION_DAYS. Safe to call from cron.
+ */
+export async function processDueOutbox(
+  limit = 10
+): Promise<{ processed: number; delivered: number }> {
+  const store = getOutboxStore();
+  const due = await store.listDue(Date.now(), limit);
+  let delivered = 0;
+  for (const entry of due) {
+    const out = await deliverEntry(entry);
+    if (out.status === "delivered") delivered++;
+  }
+  if (Date.now() - lastPruneAt >= PRUNE_EVERY_MS) {
+    lastPruneAt = Date.now();
+    await store.prune(Date.now() - RETENTION_MS);
+  }
+  return { processed: due.length, delivered };
+}
+
+export async function getOutboxEntry(id: string) {
+  return getOutboxStore().get(id);
+}
+
+// Public status view: no contact PII, only delivery progress.
+export function outboxStatusView(entry: OutboxEntry) {
+  return {
+    id: entry.id,
+    formSlug: entry.formSlug,
+    status: entry.status,
+    attempts: entry.attempts,
+    nextAttemptAt: entry.nextAttemptAt
+      ? new Date(entry.nextAttemptAt).toISOString()
+      : null,
+    contactId: entry.contactId ?? null,
+    contactPath: entry.contactPath ?? null,
+    steps: entry.steps,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  };
+}
@@ -0,0 +1,316 @@
+// src/lib/outboxStore.ts
+// Storage backends for the lead outbox. The outbox only talks to the
+// OutboxStore interface, so a database-backed store can be dropped in later
+// without touching the delivery logic.
+//
+// Finished entries (delivered or failed for good) leave the due set: they
+// are kept for the status endpoint until pruned, and delivered ones drop the
+// contact details right away.
+import crypto from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { ContactSyncPath, CustomFieldValue } from "./contactSync";
+import type { LCContactPayload } from "./leadconnector";
+
+export type OutboxStepName = "contact" | "customFields" | "workflow";
+
+export type OutboxStepState = {
+  status: "pending" | "done" | "failed" | "skipped";
+  attempts: number;
+  lastError?: string;
+  completedAt?: string;
+};
+
+export type OutboxStatus = "pending" | "retrying" | "delivered" | "failed";
+
+export type LeadJob = {
+  locationId: string;
+  basePayload: LCContactPayload; // contact fields + tags, no CFs
+  customFields: CustomFieldValue[];
+  workflowId?: string;
+};
+
+export type OutboxEntry = {
+  id: string;
+  formSlug: string;
+  createdAt: string;
+  updatedAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number | null; // epoch ms; null once delivered/failed
+  contactId?: string;
+  contactPath?: ContactSyncPath; // which branch of the sync chain found it
+  lastError?: string;
+  job: LeadJob;
+  steps: Record<OutboxStepName, OutboxStepState>;
+};
+
+export interface OutboxStore {
+  put(entry: OutboxEntry): Promise<void>;
+  get(id: string): Promise<OutboxEntry | null>;
+  /** Unfinished entries whose nextAttemptAt has passed. */
+  listDue(now: number, limit: number): Promise<OutboxEntry[]>;
+  /**
+   * Exclusive delivery lease: an owner token for `release`, or null while
+   * another worker holds it.
+   */
+  acquire(id: string, leaseMs: number): Promise<string | null>;
+  /** Drop the lease if `owner` still holds it (it may have been taken over). */
+  release(id: string, owner: string): Promise<void>;
+  /** Move a delivered / failed entry out of the due set. */
+  finish(entry: OutboxEntry): Promise<void>;
+  /** Delete finished entries last updated before `before` (epoch ms). */
+  prune(before: number): Promise<number>;
+}
+
+const isFinished = (entry: OutboxEntry) =>
+  entry.status === "delivered" || entry.status === "failed";
+
+function isDue(entry: OutboxEntry, now: number): boolean {
+  if (isFinished(entry)) return false;
+  return entry.nextAttemptAt != null && entry.nextAttemptAt <= now;
+}
+
+// Delivered leads need no contact details any more; failed ones keep them
+// so they can be inspected and replayed until pruned
+function archived(entry: OutboxEntry): OutboxEntry {
+  if (entry.status !== "delivered") return entry;
+  const { locationId, workflowId } = entry.job;
+  return {
+    ...entry,
+    job: { locationId, workflowId, basePayload: {}, customFields: [] },
+  };
+}
+
+type Lease = { owner: string; until: number };
+
+// Process-local store; useful for dev and single-instance deploys only.
+export class MemoryOutboxStore implements OutboxStore {
+  private entries = new Map<string, OutboxEntry>();
+  private finished = new Map<string, OutboxEntry>();
+  private leases = new Map<string, Lease>();
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, structuredClone(entry));
+  }
+
+  async get(id: string): Promise<OutboxEntry | null> {
+    const e = this.entries.get(id) ?? this.finished.get(id);
+    return e ? structuredClone(e) : null;
+  }
+
+  async listDue(now: number, limit: number): Promise<OutboxEntry[]> {
+    return [...this.entries.values()]
+      .filter((e) => isDue(e, now))
+      .sort((a, b) => (a.nextAttemptAt ?? 0) - (b.nextAttemptAt ?? 0))
+      .slice(0, limit)
+      .map((e) => structuredClone(e));
+  }
+
+  async acquire(id: string, leaseMs: number): Promise<string | null> {
+    const now = Date.now();
+    if ((this.leases.get(id)?.until ?? 0) > now) return null;
+    const owner = crypto.randomUUID();
+    this.leases.set(id, { owner, until: now + leaseMs });
+    return owner;
+  }
+
+  async release(id: string, owner: string): Promise<void> {
+    if (this.leases.get(id)?.owner === owner) this.leases.delete(id);
+  }
+
+  async finish(entry: OutboxEntry): Promise<void> {
+    this.finished.set(entry.id, structuredClone(archived(entry)));
+    this.entries.delete(entry.id);
+  }
+
+  async prune(before: number): Promise<number> {
+    let removed = 0;
+    for (const [id, e] of this.finished)
+      if (Date.parse(e.updatedAt) < before) {
+        this.finished.delete(id);
+        removed++;
+      }
+    return removed;
+  }
+}
+
+// One JSON file per submission. Writes go through a temp file + rename so a
+// crash mid-write never leaves a truncated entry behind. Finished entries
+// move to `finished/`, so the due scan only reads unfinished ones.
+//
+// Leases are `<id>.lock` files holding `{ owner, until }`. A lock is written
+// to a temp file and hard-linked into place (link fails if the lock exists),
+// so it is never visible half-written. Removing one (release, or taking over
+// a lapsed lease) first renames it aside, which only one worker can do, and
+// then checks it was the lock it meant to remove; if not, it goes back.
+export class FileOutboxStore implements OutboxStore {
+  constructor(private dir: string) {}
+
+  private get finishedDir() {
+    return path.join(this.dir, "finished");
+  }
+
+  private fileFor(id: string, dir = this.dir, ext = ".json") {
+    // ids are generated by us (UUIDs) but never trust a path segment
+    return path.join(dir, `${id.replace(/[^a-zA-Z0-9-]/g, "")}${ext}`);
+  }
+
+  private async write(file: string, entry: OutboxEntry): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entry, null, 2), "utf8");
+    await fs.rename(tmp, file);
+  }
+
+  private async read(file: string): Promise<OutboxEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as OutboxEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    await this.write(this.fileFor(entry.id), entry);
+  }
+
+  async get(id: string): Promise<OutboxEntry | null> {
+    return (
+      (await this.read(this.fileFor(id))) ??
+      (await this.read(this.fileFor(id, this.finishedDir)))
+    );
+  }
+
+  private async readLease(file: string, leaseMs: number): Promise<Lease> {
+    try {
+      const lease = JSON.parse(await fs.readFile(file, "utf8")) as Lease;
+      if (typeof lease.owner === "string" && typeof lease.until === "number")
+        return lease;
+    } catch {
+      // unreadable: judged by its age below
+    }
+    // A lock from an older version (or garbage): lapses a lease after mtime
+    const stat = await fs.stat(file).catch(() => null);
+    return { owner: "", until: stat ? stat.mtimeMs + leaseMs : 0 };
+  }
+
+  // Remove `lock` only if `owner` still holds it
+  private async removeLock(
+    lock: string,
+    owner: string,
+    leaseMs: number
+  ): Promise<boolean> {
+    const aside = `${lock}.${crypto.randomUUID()}.aside`;
+    try {
+      await fs.rename(lock, aside);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw e;
+    }
+    const moved = await this.readLease(aside, leaseMs);
+    if (moved.owner !== owner)
+      // Someone else's lock: put it back (unless a newer one took its place)
+      await fs.link(aside, lock).catch(() => {});
+    await fs.rm(aside, { force: true });
+    return moved.owner === owner;
+  }
+
+  async acquire(id: string, leaseMs: number): Promise<string | null> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const lock = this.fileFor(id, this.dir, ".lock");
+    const owner = crypto.randomUUID();
+    const tmp = `${lock}.${owner}.tmp`;
+    await fs.writeFile(
+      tmp,
+      JSON.stringify({ owner, until: Date.now() + leaseMs }),
+      "utf8"
+    );
+    try {
+      for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+          // link fails when the lock exists: only one worker gets the lease
+          await fs.link(tmp, lock);
+          return owner;
+        } catch (e) {
+          if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+        }
+        // A crashed worker's lease lapses; take it over once
+        const held = await this.readLease(lock, leaseMs);
+        if (held.until > Date.now()) return null;
+        if (!(await this.removeLock(lock, held.owner, leaseMs))) return null;
+      }
+      return null;
+    } finally {
+      await fs.rm(tmp, { force: true });
+    }
+  }
+
+  async release(id: string, owner: string): Promise<void> {
+    // The lease length only matters for unreadable locks, never ours
+    await this.removeLock(this.fileFor(id, this.dir, ".lock"), owner, 0);
+  }
+
+  async finish(entry: OutboxEntry): Promise<void> {
+    await this.write(this.fileFor(entry.id, this.finishedDir), archived(entry));
+    await fs.rm(this.fileFor(entry.id), { force: true });
+  }
+
+  async prune(before: number): Promise<number> {
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(this.finishedDir);
+    } catch {
+      return 0;
+    }
+    let removed = 0;
+    for (const name of names) {
+      if (!name.endsWith(".json")) continue;
+      const file = path.join(this.finishedDir, name);
+      const stat = await fs.stat(file).catch(() => null);
+      if (!stat || stat.mtimeMs >= before) continue;
+      await fs.rm(file, { force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  async listDue(now: number, limit: number): Promise<OutboxEntry[]> {
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+    const due: OutboxEntry[] = [];
+    for (const name of names) {
+      if (!name.endsWith(".json")) continue;
+      const entry = await this.read(path.join(this.dir, name));
+      if (!entry) continue;
+      // Finished entries left here by older versions move out of the scan
+      if (isFinished(entry)) await this.finish(entry);
+      else if (isDue(entry, now)) due.push(entry);
+    }
+    return due
+      .sort((a, b) => (a.nextAttemptAt ?? 0) - (b.nextAttemptAt ?? 0))
+      .slice(0, limit);
+  }
+}
+
+let store: OutboxStore | null = null;
+
+/**
+ * OUTBOX_STORE=file (default) | memory
+ * OUTBOX_DIR defaults to ./.data/outbox (use /tmp/... on read-only hosts).
+ */
+export function getOutboxStore(): OutboxStore {
+  if (store) return store;
+  const kind = (process.env.OUTBOX_STORE || "file").toLowerCase();
+  store =
+    kind === "memory"
+      ? new MemoryOutboxStore()
+      : new FileOutboxStore(
+          process.env.OUTBOX_DIR || path.join(process.cwd(), ".data", "outbox")
+        );
+  return store;
+}
@@ -1,19 +1,111 @@
 // src/lib/phone.ts
-const COUNTRY_TO_CC: Record<string, string> = {
-  US: "1",
-  CA: "1",
-  GB: "44",
-  AU: "61",
-  // extend as needed
-};
+// Shared phone normalization (client + server). Country rules come from
+// phoneMetadata.ts; every E.164 string we send anywhere is built here.
+// Keep this module free of server-only imports: LeadForm bundles it.
+import type { PhoneLineType } from "./validationTypes";
+import {
+  countryFromInternational,
+  getPhoneCountry,
+  isNanpCountry,
+  type PhoneCountryMeta,
+} from "./phoneMetadata";
 
 export function onlyDigits(s: string | undefined): string {
   return (s || "").replace(/\D+/g, "");
 }
 
+export type PhonePrecheckResult = {
+  ok: boolean;
+  reason?: string;
+  normalized?: string; // digits-only, 10-digit NANP after stripping leading 1 if present
+};
+
+const DIGIT_RE = /\d/g;
+
+export function normalizeDigits(input: string): string {
+  return (input.match(DIGIT_RE) ?? []).join("");
+}
+
+export function nanpPrecheckUS(input: string): PhonePrecheckResult {
+  let digits = normalizeDigits(input);
+
+  // Strip exactly one leading '1' if present (US country code)
+  if (digits.length === 11 && digits.startsWith("1")) {
+    digits = digits.slice(1);
+  }
+
+  if (digits.length !== 10) {
+    return {
+      ok: false,
+      reason:
+        "US numbers must have 10 digits (area code + number). If you included +1, remove it.",
+    };
+  }
+
+  // Light NANP rules
+  const areaFirst = digits.charCodeAt(0) - 48; // 0-9
+  const exchangeFirst = digits.charCodeAt(3) - 48;
+  const exchangeMid = digits.charCodeAt(4) - 48;
+
+  if (areaFirst < 2 || areaFirst > 9) {
+    return { ok: false, reason: "Invalid area code format." };
+  }
+  if (exchangeFirst < 2 || exchangeFirst > 9) {
+    return { ok: false, reason: "Invalid central office code format." };
+  }
+  // Disallow N11 for central office (e.g., 211, 311, ..., 911)
+  if (exchangeMid === 1 && exchangeFirst >= 2 && exchangeFirst <= 9) {
+    return { ok: false, reason: "Central office code cannot be an N11 code." };
+  }
+
+  return { ok: true, normalized: digits };
+}
+
+// Convenience helper to gate before calling external API
+export function mustBeValidUSLength(input: string): {
+  ok: boolean;
+  message?: string;
+  tenDigit?: string;
+} {
+  const pre = nanpPrecheckUS(input);
+  if (!pre.ok) return { ok: false, message: pre.reason };
+  return { ok: true, tenDigit: pre.normalized };
+}
+
+// "+44 20…" or "0044 20…" → "4420…"; null for national-looking input
+function internationalDigits(input: string | undefined): string | null {
+  const s = (input || "").trim();
+  if (s.startsWith("+")) return onlyDigits(s);
+  const d = onlyDigits(s);
+  return d.startsWith("00") ? d.slice(2) : null;
+}
+
+const fits = (meta: PhoneCountryMeta, nsn: string) =>
+  meta.lengths.includes(nsn.length);
+
+// National format carries the trunk prefix ("0412…" in AU, "030…" in DE):
+// drop it whenever what's left is a possible length, even if the whole also
+// is. A calling code typed without "+" ("1305…", "44 20…") is only dropped
+// when that turns a wrong length into a right one, so numbers that merely
+// start with those digits are kept.
+function stripNationalPrefix(digits: string, meta: PhoneCountryMeta): string {
+  const trunk = meta.trunkPrefix;
+  if (trunk && digits.startsWith(trunk)) {
+    const rest = digits.slice(trunk.length);
+    if (fits(meta, rest)) return rest;
+  }
+  if (fits(meta, digits)) return digits;
+  if (digits.startsWith(meta.callingCode)) {
+    const rest = digits.slice(meta.callingCode.length);
+    if (fits(meta, rest)) return rest;
+  }
+  return digits;
+}
+
 /**
- * Convert a possibly E.164 string (+1305...), or raw ("1305..."), to national digits
- * given an ISO country (US, CA, GB...). For NANP (US/CA), strip leading '1' if present.
+ * Convert a possibly E.164 string (+1305...), or raw ("1305..."), to national
+ * digits given an ISO country (US, CA, GB...): calling code and trunk prefix
+ * are stripped.
  */
 export function toNationalDigits(
   input: string | undefined,
@@ -22,18 +114,21 @@ export function toNationalDigits(
   const digits = onlyDigits(input);
   if (!digits) return "";
 
-  const cc = COUNTRY_TO_CC[(country || "").toUpperCase()];
-  if (!cc) return digits; // Unknown country → show raw digits
+  const meta = getPhoneCountry(country);
+  if (!meta) return digits; // Unknown country → show raw digits
 
-  // If starts with country calling code, strip it.
-  if (digits.startsWith(cc)) {
-    return digits.slice(cc.length);
+  const intl = internationalDigits(input);
+  if (intl !== null) {
+    return intl.startsWith(meta.callingCode)
+      ? intl.slice(meta.callingCode.length)
+      : intl;
   }
-  return digits;
+  return stripNationalPrefix(digits, meta);
 }
 
 /**
- * Build E.164 string from national digits + country. Returns "+<cc><national>" or "".
+ * Build E.164 from national (or already international) digits + country.
+ * Returns "+<cc><national>" or "" when the country is unknown.
  */
 export function toE164(
   nationalDigits: string | undefined,
@@ -41,7 +136,70 @@ export function toE164(
 ): string {
   const nd = onlyDigits(nationalDigits);
   if (!nd) return "";
-  const cc = COUNTRY_TO_CC[(country || "").toUpperCase()];
-  if (!cc) return ""; // Unknown country → let validator fail gracefully
-  return `+${cc}${nd}`;
+  const intl = internationalDigits(nationalDigits);
+  if (intl) return `+${intl}`;
+  const meta = getPhoneCountry(country);
+  if (!meta) return ""; // Unknown country → let validator fail gracefully
+  return `+${meta.callingCode}${stripNationalPrefix(nd, meta)}`;
+}
+
+export type PhoneShape = {
+  ok: boolean;
+  reason?: string;
+  e164?: string;
+  country?: string; // ISO the number was checked against
+};
+
+/**
+ * Offline sanity check: NANP rules for +1 countries, possible lengths for
+ * everyone else. An explicit "+<code>" wins over the selected country; no
+ * country at all means US, as the form has always defaulted to.
+ */
+export function checkPhoneShape(input: string, country?: string): PhoneShape {
+  const intl = internationalDigits(input);
+  const meta =
+    (intl ? countryFromInternational(intl) : undefined) ??
+    getPhoneCountry(country || "US");
+
+  if (!meta) {
+    const digits = onlyDigits(input);
+    if (digits.length < 7 || digits.length > 15)
+      return { ok: false, reason: "Number looks too short or too long." };
+    return { ok: true, e164: intl ? `+${intl}` : undefined };
+  }
+
+  const nsn = toNationalDigits(input, meta.iso);
+  if (isNanpCountry(meta.iso)) {
+    const pre = nanpPrecheckUS(nsn);
+    if (!pre.ok) return { ok: false, reason: pre.reason, country: meta.iso };
+    return { ok: true, e164: `+1${pre.normalized}`, country: meta.iso };
+  }
+
+  if (!fits(meta, nsn)) {
+    const tooShort = nsn.length < Math.min(...meta.lengths);
+    return {
+      ok: false,
+      reason: `That number looks too ${tooShort ? "short" : "long"} for ${meta.iso} (+${meta.callingCode}).`,
+      country: meta.iso,
+    };
+  }
+  return {
+    ok: true,
+    e164: `+${meta.callingCode}${nsn}`,
+    country: meta.iso,
+  };
+}
+
+/**
+ * Map provider line-type labels ("CELL PHONE", "mobile", "VOIP", "toll_free"...)
+ * to one vocabulary so callers don't care which provider answered.
+ */
+export function normalizeLineType(raw: string | undefined): PhoneLineType {
+  const lt = (raw || "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (lt === "cell_phone" || lt === "mobile" || lt === "cell" || lt === "wireless")
+    return "mobile";
+  if (lt === "landline" || lt === "fixed_line") return "landline";
+  if (lt === "voip") return "voip";
+  if (lt === "toll_free") return "toll_free";
+  return "unknown";
 }
@@ -0,0 +1,322 @@
+// src/lib/phoneMetadata.ts
+// Country calling codes, possible national number lengths and trunk
+// prefixes for every region, taken from Google's libphonenumber metadata.
+// Lengths are for the national significant number (no calling code, no
+// trunk prefix). Safe to import on the client (plain data, no Node APIs).
+
+export type PhoneCountryMeta = {
+  iso: string; // ISO 3166-1 alpha-2
+  callingCode: string; // without "+"
+  lengths: number[]; // possible national significant number lengths
+  trunkPrefix?: string; // dialled before national numbers, e.g. "0" (GB)
+};
+
+type Row = [
+  iso: string,
+  callingCode: string,
+  lengths: number[],
+  trunk?: string
+];
+
+// prettier-ignore
+const ROWS: Row[] = [
+  ["AC", "247", [5, 6]],
+  ["AD", "376", [6, 8, 9]],
+  ["AE", "971", [5, 6, 7, 8, 9, 10, 11, 12], "0"],
+  ["AF", "93", [9], "0"],
+  ["AG", "1", [10], "1"],
+  ["AI", "1", [10], "1"],
+  ["AL", "355", [6, 7, 8, 9], "0"],
+  ["AM", "374", [8], "0"],
+  ["AO", "244", [9]],
+  ["AR", "54", [10, 11], "0"],
+  ["AS", "1", [10], "1"],
+  ["AT", "43", [4, 5, 6, 7, 8, 9, 10, 11, 12, 13], "0"],
+  ["AU", "61", [5, 6, 7, 8, 9, 10, 12], "0"],
+  ["AW", "297", [7]],
+  ["AX", "358", [5, 6, 7, 8, 9, 10, 11, 12], "0"],
+  ["AZ", "994", [9], "0"],
+  ["BA", "387", [8, 9], "0"],
+  ["BB", "1", [10], "1"],
+  ["BD", "880", [6, 7, 8, 9, 10], "0"],
+  ["BE", "32", [8, 9], "0"],
+  ["BF", "226", [8]],
+  ["BG", "359", [6, 7, 8, 9, 12], "0"],
+  ["BH", "973", [8]],
+  ["BI", "257", [8]],
+  ["BJ", "229", [8, 10]],
+  ["BL", "590", [9], "0"],
+  ["BM", "1", [10], "1"],
+  ["BN", "673", [7]],
+  ["BO", "591", [8, 9], "0"],
+  ["BQ", "599", [7]],
+  ["BR", "55", [8, 9, 10, 11], "0"],
+  ["BS", "1", [10], "1"],
+  ["BT", "975", [7, 8]],
+  ["BW", "267", [7, 8, 10]],
+  ["BY", "375", [6, 7, 8, 9, 10, 11], "8"],
+  ["BZ", "501", [7, 11]],
+  ["CA", "1", [7, 10], "1"],
+  ["CC", "61", [6, 7, 8, 9, 10, 12], "0"],
+  ["CD", "243", [7, 8, 9, 10], "0"],
+  ["CF", "236", [8]],
+  ["CG", "242", [9]],
+  ["CH", "41", [9, 12], "0"],
+  ["CI", "225", [10]],
+  ["CK", "682", [5]],
+  ["CL", "56", [9, 10, 11]],
+  ["CM", "237", [8, 9]],
+  ["CN", "86", [7, 8, 9, 10, 11, 12], "0"],
+  ["CO", "57", [8, 10, 11], "0"],
+  ["CR", "506", [8, 10]],
+  ["CU", "53", [6, 7, 8, 10], "0"],
+  ["CV", "238", [7]],
+  ["CW", "599", [7, 8]],
+  ["CX", "61", [6, 7, 8, 9, 10, 12], "0"],
+  ["CY", "357", [8]],
+  ["CZ", "420", [9, 10, 11, 12]],
+  ["DE", "49", [4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15], "0"],
+  ["DJ", "253", [8]],
+  ["DK", "45", [8]],
+  ["DM", "1", [10], "1"],
+  ["DO", "1", [10], "1"],
+  ["DZ", "213", [8, 9], "0"],
+  ["EC", "593", [8, 9, 10, 11], "0"],
+  ["EE", "372", [7, 8, 10]],
+  ["EG", "20", [8, 9, 10], "0"],
+  ["EH", "212", [9], "0"],
+  ["ER", "291", [7], "0"],
+  ["ES", "34", [9]],
+  ["ET", "251", [9], "0"],
+  ["FI", "358", [5, 6, 7, 8, 9, 10, 11, 12], "0"],
+  ["FJ", "679", [7, 11]],
+  ["FK", "500", [5]],
+  ["FM", "691", [7]],
+  ["FO", "298", [6]],
+  ["FR", "33", [9], "0"],
+  ["GA", "241", [7, 8]],
+  ["GB", "44", [7, 9, 10], "0"],
+  ["GD", "1", [10], "1"],
+  ["GE", "995", [9], "0"],
+  ["GF", "594", [9], "0"],
+  ["GG", "44", [7, 9, 10], "0"],
+  ["GH", "233", [8, 9], "0"],
+  ["GI", "350", [8]],
+  ["GL", "299", [6]],
+  ["GM", "220", [7]],
+  ["GN", "224", [8, 9]],
+  ["GP", "590", [9], "0"],
+  ["GQ", "240", [9]],
+  ["GR", "30", [10, 11, 12]],
+  ["GT", "502", [8, 11]],
+  ["GU", "1", [10], "1"],
+  ["GW", "245", [7, 9]],
+  ["GY", "592", [7]],
+  ["HK", "852", [5, 6, 7, 8, 9, 11]],
+  ["HN", "504", [8, 11]],
+  ["HR", "385", [7, 8, 9], "0"],
+  ["HT", "509", [8]],
+  ["HU", "36", [8, 9], "06"],
+  ["ID", "62", [7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17], "0"],
+  ["IE", "353", [7, 8, 9, 10], "0"],
+  ["IL", "972", [7, 8, 9, 10, 11, 12], "0"],
+  ["IM", "44", [10], "0"],
+  ["IN", "91", [8, 9, 10, 11, 12, 13], "0"],
+  ["IO", "246", [7]],
+  ["IQ", "964", [8, 9, 10], "0"],
+  ["IR", "98", [4, 5, 6, 7, 10], "0"],
+  ["IS", "354", [7, 9]],
+  ["IT", "39", [6, 7, 8, 9, 10, 11, 12]],
+  ["JE", "44", [10], "0"],
+  ["JM", "1", [10], "1"],
+  ["JO", "962", [8, 9], "0"],
+  ["JP", "81", [8, 9, 10, 11, 12, 13, 14, 15, 16, 17], "0"],
+  ["KE", "254", [7, 8, 9, 10], "0"],
+  ["KG", "996", [9, 10], "0"],
+  ["KH", "855", [8, 9, 10], "0"],
+  ["KI", "686", [5, 8], "0"],
+  ["KM", "269", [7]],
+  ["KN", "1", [10], "1"],
+  ["KP", "850", [8, 10], "0"],
+  ["KR", "82", [5, 6, 8, 9, 10, 11, 12, 13, 14], "0"],
+  ["KW", "965", [7, 8]],
+  ["KY", "1", [10], "1"],
+  ["KZ", "7", [10, 14], "8"],
+  ["LA", "856", [8, 9, 10], "0"],
+  ["LB", "961", [7, 8], "0"],
+  ["LC", "1", [10], "1"],
+  ["LI", "423", [7, 9], "0"],
+  ["LK", "94", [9], "0"],
+  ["LR", "231", [7, 8, 9], "0"],
+  ["LS", "266", [8]],
+  ["LT", "370", [8], "0"],
+  ["LU", "352", [4, 5, 6, 7, 8, 9, 10, 11]],
+  ["LV", "371", [8]],
+  ["LY", "218", [9], "0"],
+  ["MA", "212", [9], "0"],
+  ["MC", "377", [8, 9], "0"],
+  ["MD", "373", [8], "0"],
+  ["ME", "382", [8, 9], "0"],
+  ["MF", "590", [9], "0"],
+  ["MG", "261", [9], "0"],
+  ["MH", "692", [7], "1"],
+  ["MK", "389", [8], "0"],
+  ["ML", "223", [8]],
+  ["MM", "95", [6, 7, 8, 9, 10], "0"],
+  ["MN", "976", [8, 9, 10], "0"],
+  ["MO", "853", [7, 8]],
+  ["MP", "1", [10], "1"],
+  ["MQ", "596", [9], "0"],
+  ["MR", "222", [8]],
+  ["MS", "1", [10], "1"],
+  ["MT", "356", [8]],
+  ["MU", "230", [7, 8, 10]],
+  ["MV", "960", [7, 10]],
+  ["MW", "265", [7, 9], "0"],
+  ["MX", "52", [10]],
+  ["MY", "60", [8, 9, 10], "0"],
+  ["MZ", "258", [8, 9]],
+  ["NA", "264", [8, 9], "0"],
+  ["NC", "687", [6]],
+  ["NE", "227", [8]],
+  ["NF", "672", [6]],
+  ["NG", "234", [10, 11, 12, 13, 14], "0"],
+  ["NI", "505", [8]],
+  ["NL", "31", [5, 6, 7, 8, 9, 10, 11], "0"],
+  ["NO", "47", [5, 8]],
+  ["NP", "977", [8, 10, 11], "0"],
+  ["NR", "674", [7]],
+  ["NU", "683", [4, 7]],
+  ["NZ", "64", [5, 6, 7, 8, 9, 10], "0"],
+  ["OM", "968", [7, 8, 9]],
+  ["PA", "507", [7, 8, 10, 11]],
+  ["PE", "51", [8, 9], "0"],
+  ["PF", "689", [6, 8, 9]],
+  ["PG", "675", [7, 8]],
+  ["PH", "63", [6, 8, 9, 10, 11, 12, 13], "0"],
+  ["PK", "92", [8, 9, 10, 11, 12], "0"],
+  ["PL", "48", [6, 7, 8, 9, 10]],
+  ["PM", "508", [6, 9], "0"],
+  ["PR", "1", [10], "1"],
+  ["PS", "970", [8, 9, 10], "0"],
+  ["PT", "351", [9]],
+  ["PW", "680", [7]],
+  ["PY", "595", [6, 7, 8, 9, 10, 11], "0"],
+  ["QA", "974", [7, 8, 9, 11]],
+  ["RE", "262", [9], "0"],
+  ["RO", "40", [6, 9], "0"],
+  ["RS", "381", [6, 7, 8, 9, 10, 11, 12], "0"],
+  ["RU", "7", [10, 14], "8"],
+  ["RW", "250", [8, 9], "0"],
+  ["SA", "966", [9, 10], "0"],
+  ["SB", "677", [5, 7]],
+  ["SC", "248", [7]],
+  ["SD", "249", [9], "0"],
+  ["SE", "46", [6, 7, 8, 9, 10, 12], "0"],
+  ["SG", "65", [8, 10, 11]],
+  ["SH", "290", [4, 5]],
+  ["SI", "386", [5, 6, 7, 8], "0"],
+  ["SJ", "47", [5, 8]],
+  ["SK", "421", [6, 7, 9], "0"],
+  ["SL", "232", [8], "0"],
+  ["SM", "378", [8, 10]],
+  ["SN", "221", [9]],
+  ["SO", "252", [6, 7, 8, 9], "0"],
+  ["SR", "597", [6, 7]],
+  ["SS", "211", [9], "0"],
+  ["ST", "239", [7]],
+  ["SV", "503", [7, 8, 11]],
+  ["SX", "1", [10], "1"],
+  ["SY", "963", [8, 9], "0"],
+  ["SZ", "268", [8, 9]],
+  ["TA", "290", [4]],
+  ["TC", "1", [10], "1"],
+  ["TD", "235", [8]],
+  ["TG", "228", [8]],
+  ["TH", "66", [8, 9, 10, 13], "0"],
+  ["TJ", "992", [9]],
+  ["TK", "690", [4, 5, 6, 7]],
+  ["TL", "670", [7, 8]],
+  ["TM", "993", [8], "8"],
+  ["TN", "216", [8]],
+  ["TO", "676", [5, 7]],
+  ["TR", "90", [7, 10, 12, 13], "0"],
+  ["TT", "1", [10], "1"],
+  ["TV", "688", [5, 6, 7]],
+  ["TW", "886", [7, 8, 9, 10, 11], "0"],
+  ["TZ", "255", [9], "0"],
+  ["UA", "380", [9, 10], "0"],
+  ["UG", "256", [9], "0"],
+  ["US", "1", [10], "1"],
+  ["UY", "598", [4, 5, 6, 7, 8, 9, 10, 11, 12, 13], "0"],
+  ["UZ", "998", [9]],
+  ["VA", "39", [6, 7, 8, 9, 10, 11, 12]],
+  ["VC", "1", [10], "1"],
+  ["VE", "58", [10], "0"],
+  ["VG", "1", [10], "1"],
+  ["VI", "1", [10], "1"],
+  ["VN", "84", [7, 8, 9, 10], "0"],
+  ["VU", "678", [5, 7]],
+  ["WF", "681", [6, 9]],
+  ["WS", "685", [5, 6, 7, 10]],
+  ["XK", "383", [8, 9, 10, 11, 12], "0"],
+  ["YE", "967", [7, 8, 9], "0"],
+  ["YT", "262", [9], "0"],
+  ["ZA", "27", [5, 6, 7, 8, 9, 10], "0"],
+  ["ZM", "260", [9], "0"],
+  ["ZW", "263", [5, 6, 7, 8, 9, 10], "0"],
+];
+
+// Calling codes shared by several regions: the region a bare "+<code>"
+// number is assumed to belong to.
+const MAIN_COUNTRY_FOR_CODE: Record<string, string> = {
+  "1": "US",
+  "7": "RU",
+  "39": "IT",
+  "44": "GB",
+  "47": "NO",
+  "61": "AU",
+  "212": "MA",
+  "262": "RE",
+  "290": "SH",
+  "358": "FI",
+  "590": "GP",
+  "599": "CW",
+};
+
+export const PHONE_COUNTRIES: PhoneCountryMeta[] = ROWS.map(
+  ([iso, callingCode, lengths, trunkPrefix]) => ({
+    iso,
+    callingCode,
+    lengths,
+    ...(trunkPrefix ? { trunkPrefix } : {}),
+  })
+);
+
+const BY_ISO = new Map(PHONE_COUNTRIES.map((c) => [c.iso, c]));
+
+export function getPhoneCountry(iso?: string): PhoneCountryMeta | undefined {
+  return iso ? BY_ISO.get(iso.toUpperCase()) : undefined;
+}
+
+/** US, CA and the Caribbean share +1 and the NANP numbering rules. */
+export function isNanpCountry(iso?: string): boolean {
+  return getPhoneCountry(iso)?.callingCode === "1";
+}
+
+/**
+ * Country for an international number ("+44 20…", "0044 20…" or bare
+ * digits with the calling code first): longest calling-code prefix wins.
+ */
+export function countryFromInternational(
+  digits: string
+): PhoneCountryMeta | undefined {
+  for (let len = 3; len >= 1; len--) {
+    const code = digits.slice(0, len);
+    const main = MAIN_COUNTRY_FOR_CODE[code];
+    if (main) return BY_ISO.get(main);
+    const hit = PHONE_COUNTRIES.find((c) => c.callingCode === code);
+    if (hit) return hit;
+  }
+  return undefined;
+}
@@ -0,0 +1,196 @@
+// src/lib/phoneProviders.ts
+// Phone verification as an ordered chain of providers, mirroring
+// emailProviders.ts. Each provider answers "valid", "invalid" or "unknown";
+// the first definite answer wins, "unknown" moves on to the next provider.
+//
+// PHONE_PROVIDERS=phonevalidator,numverify:4000,offline
+//   comma-separated provider names, each with an optional `:timeoutMs`.
+//
+// Live lookups (phonevalidator, numverify) confirm the line with a carrier
+// database. The offline provider only checks the number's shape, so anything
+// it accepts, and any number no provider could decide, is a soft pass.
+import { phonevalidatorCheck } from "./phonevalidator";
+import { numverifyCheck } from "./numverify";
+import { checkPhoneShape, normalizeLineType } from "./phone";
+import type { PhoneResult } from "./validationTypes";
+import { VALIDATION_TIMEOUT_MS } from "./config";
+
+export type PhoneProviderName = "phonevalidator" | "numverify" | "offline";
+
+export type PhoneOutcome = "valid" | "invalid" | "unknown";
+
+export type PhoneUnknownCause =
+  | "not_configured"
+  | "timeout"
+  | "provider_error"
+  | "inconclusive";
+
+export type PhoneCheck = {
+  outcome: PhoneOutcome;
+  unknownCause?: PhoneUnknownCause; // only when outcome is "unknown"
+  result: PhoneResult;
+};
+
+export interface PhoneProvider {
+  name: PhoneProviderName;
+  defaultTimeoutMs: number;
+  check(
+    phone: string,
+    ctx: { country: string; timeoutMs: number }
+  ): Promise<PhoneCheck>;
+}
+
+const DEFAULT_CHAIN = "phonevalidator,offline";
+
+const unknown = (cause: PhoneUnknownCause, reason?: string): PhoneCheck => ({
+  outcome: "unknown",
+  unknownCause: cause,
+  result: { valid: null, reason, confidence: "unknown" },
+});
+
+export const phonevalidatorProvider: PhoneProvider = {
+  name: "phonevalidator",
+  defaultTimeoutMs: 5000,
+  async check(phone, { country, timeoutMs }) {
+    const pv = await phonevalidatorCheck({ phone, country, timeoutMs });
+    if (pv.failure === "unsupported") return unknown("inconclusive");
+    if (!pv.ok) return unknown(pv.failure ?? "provider_error");
+    return {
+      outcome: pv.valid ? "valid" : "invalid",
+      result: {
+        valid: pv.valid,
+        reason: pv.reason,
+        confidence: pv.valid ? "good" : "low",
+        lineType: pv.lineType ? normalizeLineType(pv.lineType) : undefined,
+        deactivated: pv.deactivated,
+        country: country || undefined,
+      },
+    };
+  },
+};
+
+export const numverifyProvider: PhoneProvider = {
+  name: "numverify",
+  defaultTimeoutMs: VALIDATION_TIMEOUT_MS,
+  async check(phone, { country, timeoutMs }) {
+    const { result } = await numverifyCheck(
+      phone,
+      country || undefined,
+      timeoutMs
+    );
+    if (result.valid === null) {
+      const cause: PhoneUnknownCause =
+        result.reason === "provider_missing"
+          ? "not_configured"
+          : result.reason === "timeout_soft_pass"
+          ? "timeout"
+          : "provider_error";
+      return unknown(cause);
+    }
+    return { outcome: result.valid ? "valid" : "invalid", result };
+  },
+};
+
+// Shape-only checks: NANP rules for +1 countries, per-country possible
+// lengths (phoneMetadata.ts) for everyone else.
+export const offlineProvider: PhoneProvider = {
+  name: "offline",
+  defaultTimeoutMs: 100,
+  async check(phone, { country }) {
+    const shape = checkPhoneShape(phone, country || undefined);
+    if (!shape.ok)
+      return {
+        outcome: "invalid",
+        result: { valid: false, reason: shape.reason, confidence: "low" },
+      };
+    return {
+      outcome: "valid",
+      result: {
+        valid: true,
+        confidence: "medium",
+        country: shape.country ?? (country || undefined),
+        normalized: shape.e164,
+      },
+    };
+  },
+};
+
+const PROVIDERS: Record<PhoneProviderName, PhoneProvider> = {
+  phonevalidator: phonevalidatorProvider,
+  numverify: numverifyProvider,
+  offline: offlineProvider,
+};
+
+export type PhoneChainStep = { provider: PhoneProvider; timeoutMs: number };
+
+/** Parse PHONE_PROVIDERS; unknown names are skipped with a warning. */
+export function getPhoneChain(
+  spec: string = process.env.PHONE_PROVIDERS || DEFAULT_CHAIN
+): PhoneChainStep[] {
+  const chain: PhoneChainStep[] = [];
+  for (const part of spec.split(",")) {
+    const [rawName, rawTimeout] = part.trim().split(":");
+    const name = rawName?.toLowerCase() as PhoneProviderName;
+    const provider = PROVIDERS[name];
+    if (!provider) {
+      if (rawName) console.warn(`[phoneProviders] unknown provider "${rawName}"`);
+      continue;
+    }
+    const t = Number(rawTimeout);
+    chain.push({
+      provider,
+      timeoutMs: Number.isFinite(t) && t > 0 ? t : provider.defaultTimeoutMs,
+    });
+  }
+  return chain;
+}
+
+// Hard deadline around a provider, in case it ignores its own timeout.
+async function runWithTimeout(
+  step: PhoneChainStep,
+  phone: string,
+  country: string
+): Promise<PhoneCheck> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<PhoneCheck>((resolve) => {
+    timer = setTimeout(() => resolve(unknown("timeout")), step.timeoutMs + 250);
+  });
+  try {
+    return await Promise.race([
+      step.provider
+        .check(phone, { country, timeoutMs: step.timeoutMs })
+        .catch(() => unknown("provider_error")),
+      deadline,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run the chain until a provider gives a definite answer. When nobody can
+ * decide, the number soft-passes (`valid: true, softPass: true`) so an
+ * outage never blocks the form; callers tag those contacts for follow-up.
+ */
+export async function checkPhoneWithChain(
+  phone: string,
+  country: string,
+  chain: PhoneChainStep[] = getPhoneChain()
+): Promise<PhoneResult> {
+  for (const step of chain) {
+    const out = await runWithTimeout(step, phone, country);
+    if (out.outcome === "unknown") continue;
+    const live = step.provider.name !== "offline";
+    return {
+      ...out.result,
+      provider: step.provider.name,
+      softPass: out.outcome === "valid" && !live,
+    };
+  }
+  return {
+    valid: true,
+    confidence: "unknown",
+    country: country || undefined,
+    softPass: true,
+  };
+}
@@ -1,63 +1,16 @@
 // src/lib/phonevalidator.ts
 import { setCache, getCache } from "./cache";
-
-export type PhonePrecheckResult = {
-  ok: boolean;
-  reason?: string;
-  normalized?: string; // digits-only, 10-digit NANP after stripping leading 1 if present
-};
-
-const DIGIT_RE = /\d/g;
-
-export function normalizeDigits(input: string): string {
-  return (input.match(DIGIT_RE) ?? []).join("");
-}
-
-export function nanpPrecheckUS(input: string): PhonePrecheckResult {
-  let digits = normalizeDigits(input);
-
-  // Strip exactly one leading '1' if present (US country code)
-  if (digits.length === 11 && digits.startsWith("1")) {
-    digits = digits.slice(1);
-  }
-
-  if (digits.length !== 10) {
-    return {
-      ok: false,
-      reason:
-        "US numbers must have 10 digits (area code + number). If you included +1, remove it.",
-    };
-  }
-
-  // Light NANP rules
-  const areaFirst = digits.charCodeAt(0) - 48; // 0-9
-  const exchangeFirst = digits.charCodeAt(3) - 48;
-  const exchangeMid = digits.charCodeAt(4) - 48;
-
-  if (areaFirst < 2 || areaFirst > 9) {
-    return { ok: false, reason: "Invalid area code format." };
-  }
-  if (exchangeFirst < 2 || exchangeFirst > 9) {
-    return { ok: false, reason: "Invalid central office code format." };
-  }
-  // Disallow N11 for central office (e.g., 211, 311, ..., 911)
-  if (exchangeMid === 1 && exchangeFirst >= 2 && exchangeFirst <= 9) {
-    return { ok: false, reason: "Central office code cannot be an N11 code." };
-  }
-
-  return { ok: true, normalized: digits };
-}
-
-// Convenience helper to gate before calling external API
-export function mustBeValidUSLength(input: string): {
-  ok: boolean;
-  message?: string;
-  tenDigit?: string;
-} {
-  const pre = nanpPrecheckUS(input);
-  if (!pre.ok) return { ok: false, message: pre.reason };
-  return { ok: true, tenDigit: pre.normalized };
-}
+import { isNanpCountry } from "./phoneMetadata";
+import { mustBeValidUSLength } from "./phone";
+
+// The NANP precheck lives in phone.ts (shared with the browser); re-exported
+// here for existing imports.
+export {
+  nanpPrecheckUS,
+  mustBeValidUSLength,
+  normalizeDigits,
+  type PhonePrecheckResult,
+} from "./phone";
 
 type PhoneValidatorResponse = {
   PhoneNumber?: string;
@@ -97,7 +50,10 @@ type PhoneValidatorResponse = {
 
 export type PhoneCheckOutcome = {
   ok: boolean; // overall check executed (not timeout or misconfig)
-  valid: boolean; // acceptable to proceed (cell only, not deactivated)
+  // why ok is false; "unsupported": not a +1 number, which PhoneValidator
+  // (a North American database) can't look up
+  failure?: "not_configured" | "timeout" | "provider_error" | "unsupported";
+  valid: boolean; // number passed prechecks / lookup (policy is applied later)
   reason?: string; // user-facing message
   raw?: PhoneValidatorResponse; // for debugging if needed
   lineType?: string;
@@ -110,17 +66,10 @@ const TYPES_DEFAULT =
   process.env.PHONEVALIDATOR_TYPES || "basic,detail,deactivation";
 const API_KEY = process.env.PHONEVALIDATOR_API_KEY;
 
-function normalizeToUSDigits(phone: string, country?: string): string {
-  // Keep only digits. If it starts with "1" or is 10 digits, PhoneValidator accepts both.
-  const digits = phone.replace(/\D+/g, "");
-  // If a country is provided and is "US" but number is 10 digits, leave as-is.
-  // If number has leading 1 and then 10 digits, leave as-is.
-  return digits;
-}
-
 /**
  * Calls PhoneValidator. Soft timeout and caching like our other validators.
- * Accepts only CELL PHONE and rejects VOIP/LANDLINE/TOLL-FREE/UNKNOWN and recently deactivated.
+ * Reports line type, carrier and deactivation; acceptance rules live in the
+ * per-form validation policy.
  */
 export async function phonevalidatorCheck(input?: {
   phone?: string | null;
@@ -133,12 +82,21 @@ export async function phonevalidatorCheck(input?: {
   }
   if (!API_KEY) {
     // Soft-pass on missing key (keep UX consistent). We'll validate again on submit if configured.
-    return { ok: false, valid: true, reason: undefined };
+    return {
+      ok: false,
+      valid: true,
+      reason: undefined,
+      failure: "not_configured",
+    };
   }
 
-  // Apply NANP precheck for US numbers
+  // Apply NANP precheck for +1 numbers (US, CA and the other NANP countries;
+  // no country defaults to US unless the number carries another "+code")
   const country = (input?.country ?? "").toUpperCase();
-  if (country === "US" || country === "CA" || !country) {
+  const nanp = country
+    ? isNanpCountry(country)
+    : !/^\s*(\+|00)/.test(phoneRaw) || /^\s*(\+|00)1/.test(phoneRaw);
+  if (nanp) {
     const precheck = mustBeValidUSLength(phoneRaw);
     if (!precheck.ok) {
       return { ok: true, valid: false, reason: precheck.message };
@@ -148,12 +106,9 @@ export async function phonevalidatorCheck(input?: {
     return await callPhoneValidator(norm, input?.timeoutMs);
   }
 
-  // For non-US numbers, use existing logic
-  const norm = normalizeToUSDigits(phoneRaw, input?.country ?? undefined);
-  if (norm.length < 10) {
-    return { ok: true, valid: false, reason: "Number looks too short." };
-  }
-  return await callPhoneValidator(norm, input?.timeoutMs);
+  // Other countries: leave the verdict to the next provider in the chain
+  // (numverify or the offline shape check)
+  return { ok: false, valid: true, failure: "unsupported" };
 }
 
 async function callPhoneValidator(
@@ -161,7 +116,7 @@ async function callPhoneValidator(
   timeoutMs?: number
 ): Promise<PhoneCheckOutcome> {
   const cacheKey = `phonevalidator:${normalizedPhone}`;
-  const cached = getCache<PhoneCheckOutcome>(cacheKey);
+  const cached = await getCache<PhoneCheckOutcome>(cacheKey);
   if (cached) return cached;
 
   const controller = new AbortController();
@@ -186,8 +141,9 @@ async function callPhoneValidator(
         ok: false,
         valid: true,
         reason: undefined,
+        failure: "provider_error",
       };
-      setCache(cacheKey, outcome, 15 * 60 * 1000);
+      await setCache(cacheKey, outcome, 15 * 60 * 1000);
       return outcome;
     }
 
@@ -199,8 +155,9 @@ async function callPhoneValidator(
         ok: false,
         valid: true,
         raw: data,
+        failure: "provider_error",
       };
-      setCache(cacheKey, outcome, 10 * 60 * 1000);
+      await setCache(cacheKey, outcome, 10 * 60 * 1000);
       return outcome;
     }
 
@@ -215,39 +172,11 @@ async function callPhoneValidator(
 
     const deactivated = Boolean(data?.PhoneDeactivation?.LastDeactivation);
 
-    // Business rules:
-    // - must be CELL PHONE
-    // - reject VOIP, LANDLINE, TOLL-FREE, UNKNOWN
-    // - reject if recently deactivated
-    // Note: comparison in UPPERCASE
-    const lt = String(lineType || "").toUpperCase();
-    const isCell = lt === "CELL PHONE";
-    const isRejectedType =
-      lt === "VOIP" ||
-      lt === "LANDLINE" ||
-      lt === "TOLL-FREE" ||
-      lt === "UNKNOWN";
-
-    let valid = isCell && !deactivated && !isRejectedType;
-
-    let reason: string | undefined;
-    if (!isCell) {
-      if (lt === "VOIP") reason = "We need a mobile number (no VoIP).";
-      else if (lt === "LANDLINE")
-        reason = "We need a mobile number (no landlines).";
-      else if (lt === "TOLL-FREE")
-        reason = "We need a mobile number (no toll-free).";
-      else reason = "Please use a mobile number.";
-    }
-    if (deactivated) {
-      valid = false;
-      reason = "This number appears deactivated.";
-    }
-
+    // Facts only: which line types / deactivated numbers are acceptable is
+    // the form's validation policy (validationPolicy.ts), not ours.
     const outcome: PhoneCheckOutcome = {
       ok: true,
-      valid,
-      reason,
+      valid: true,
       raw: data,
       lineType,
       carrier,
@@ -255,12 +184,17 @@ async function callPhoneValidator(
     };
 
     // Cache for 15 minutes
-    setCache(cacheKey, outcome, 15 * 60 * 1000);
+    await setCache(cacheKey, outcome, 15 * 60 * 1000);
     return outcome;
-  } catch {
-    // Soft fail -> allow, but no success message
-    const outcome: PhoneCheckOutcome = { ok: false, valid: true };
-    setCache(cacheKey, outcome, 5 * 60 * 1000);
+  } catch (e) {
+    // Soft fail -> allow, but no success message (timeouts are not cached)
+    const timedOut = (e as Error)?.name === "AbortError";
+    const outcome: PhoneCheckOutcome = {
+      ok: false,
+      valid: true,
+      failure: timedOut ? "timeout" : "provider_error",
+    };
+    if (!timedOut) await setCache(cacheKey, outcome, 5 * 60 * 1000);
     return outcome;
   } finally {
     clearTimeout(timeout);
@@ -1,4 +1,6 @@
 // src/lib/prefill.ts
+import { isValidTimeZone } from "./time";
+
 export type Prefill = {
   firstName?: string;
   lastName?: string;
@@ -11,6 +13,10 @@ export type Prefill = {
   appointmentId?: string;
   appointmentTime?: string; // ISO
   calendarId?: string;
+
+  // Booking wizard: zone to show times in (?tz=), and the slot it forwards
+  apptTz?: string;
+  apptStart?: string; // ISO
 };
 
 const val = (sp: URLSearchParams, ...keys: string[]) => {
@@ -22,6 +28,7 @@ const val = (sp: URLSearchParams, ...keys: string[]) => {
 };
 
 export function prefillFromSearchParams(sp: URLSearchParams): Prefill {
+  const tz = val(sp, "tz", "timezone");
   return {
     firstName: val(sp, "firstName", "fname", "first_name"),
     lastName: val(sp, "lastName", "lname", "last_name"),
@@ -34,5 +41,6 @@ export function prefillFromSearchParams(sp: URLSearchParams): Prefill {
     appointmentId: val(sp, "appointmentId", "apptId"),
     appointmentTime: val(sp, "appointmentTime", "startTime"),
     calendarId: val(sp, "calendarId"),
+    apptTz: tz && isValidTimeZone(tz) ? tz : undefined,
   };
 }
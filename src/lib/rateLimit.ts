@@ -1,27 +1,467 @@
-// Very small fixed-window rate limiter per IP
-
-type Window = { count: number; resetAt: number };
-const windows = new Map<string, Window>();
-
-export async function rateLimit(
-  ip: string,
-  limit: number,
-  windowMs: number
-): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
-  const now = Date.now();
-  const key = ip || "unknown";
-  let window = windows.get(key);
-  if (!window || now > window.resetAt) {
-    window = { count: 0, resetAt: now + windowMs };
-    windows.set(key, window);
-  }
-  if (window.count >= limit) {
-    return { allowed: false, remaining: 0, resetAt: window.resetAt };
-  }
-  window.count += 1;
+// src/lib/rateLimit.ts
+// Rate limiting for the public API routes. Each route has a default rule
+// (overridable per env and per form in registry.json) and is limited per
+// client IP and, where the request carries one, per email / phone, so a
+// single address can't be hammered from rotating IPs.
+//
+// Counters live in a RateLimitStore: process-local memory, or Redis (atomic
+// Lua scripts) so every instance of a multi-instance deploy shares them.
+// The limiter fails open: a store outage never blocks a real lead.
+import crypto from "node:crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import { getFormBySlug } from "./formsRegistry";
+import { getRedisClient, type RespClient } from "./resp";
+import type {
+  FormRateLimitRoute,
+  RateLimitAlgorithm,
+  RateLimitDefinition,
+} from "./registrySchema";
+
+// Routes that aren't tied to a form config, so registry overrides skip them
+type GlobalRateLimitRoute = "recaptcha" | "booking";
+
+export type RateLimitRoute = FormRateLimitRoute | GlobalRateLimitRoute;
+
+const isGlobalRoute = (route: RateLimitRoute): route is GlobalRateLimitRoute =>
+  route === "recaptcha" || route === "booking";
+
+export type RateLimitRule = {
+  limit: number;
+  windowMs: number;
+  algorithm: RateLimitAlgorithm;
+};
+
+export type RateLimitState = {
+  allowed: boolean;
+  remaining: number;
+  resetMs: number; // until the quota is fully restored
+  retryAfterMs: number; // until the next request may pass (0 if allowed)
+};
+
+export type RateLimitDecision = RateLimitState & { rule: RateLimitRule };
+
+export interface RateLimitStore {
+  readonly kind: "memory" | "redis";
+  /**
+   * Count one hit against every key, or against none: when any key is over
+   * its limit that key's state comes back and nothing is counted, so a
+   * request one key rejects doesn't spend the others' allowance. Otherwise
+   * the tightest key's state.
+   */
+  hit(keys: string[], rule: RateLimitRule, now: number): Promise<RateLimitState>;
+}
+
+const MINUTE = 60 * 1000;
+
+const ROUTE_DEFAULTS: Record<RateLimitRoute, RateLimitRule> = {
+  // fires on every email/phone blur
+  validate: { limit: 10, windowMs: MINUTE, algorithm: "sliding-window" },
+  lead: { limit: 10, windowMs: 10 * MINUTE, algorithm: "sliding-window" },
+  appointments: {
+    limit: 10,
+    windowMs: 10 * MINUTE,
+    algorithm: "sliding-window",
+  },
+  // the booking step pages through weeks in quick bursts
+  availability: { limit: 60, windowMs: MINUTE, algorithm: "token-bucket" },
+  // slot holds from the booking wizard (hold, move, release)
+  hold: { limit: 20, windowMs: MINUTE, algorithm: "sliding-window" },
+  recaptcha: { limit: 20, windowMs: MINUTE, algorithm: "sliding-window" },
+  // manage-booking links: reschedule / cancel / calendar file
+  booking: { limit: 10, windowMs: 10 * MINUTE, algorithm: "sliding-window" },
+};
+
+// ---------- algorithms (memory store; the Lua scripts mirror these) ----------
+
+type SlidingState = { windowStart: number; curr: number; prev: number };
+type BucketState = { tokens: number; updatedAt: number };
+
+// Sliding-window counter: the previous fixed window counts in proportion to
+// how much of it still overlaps the sliding window. The check rolls the
+// window over and reports the state as if the hit counted; `take` counts it.
+function slidingCheck(
+  s: SlidingState,
+  { limit, windowMs: w }: RateLimitRule,
+  now: number
+): RateLimitState {
+  const start = now - (now % w);
+  if (s.windowStart !== start) {
+    s.prev = s.windowStart === start - w ? s.curr : 0;
+    s.curr = 0;
+    s.windowStart = start;
+  }
+  const used = s.prev * (1 - (now - start) / w) + s.curr;
+  const resetMs = start + w - now;
+  if (used + 1 > limit) {
+    // wait until the previous window's share has decayed enough
+    const retryAt =
+      s.curr >= limit || s.prev === 0
+        ? start + w
+        : start + w * (1 - (limit - 1 - s.curr) / s.prev);
+    return {
+      allowed: false,
+      remaining: 0,
+      resetMs,
+      retryAfterMs: Math.max(1, Math.ceil(retryAt - now)),
+    };
+  }
+  return {
+    allowed: true,
+    remaining: Math.floor(limit - used - 1),
+    resetMs,
+    retryAfterMs: 0,
+  };
+}
+
+// Token bucket: `limit` tokens, refilled evenly over the window.
+function bucketCheck(
+  s: BucketState,
+  { limit, windowMs }: RateLimitRule,
+  now: number
+): RateLimitState {
+  const rate = limit / windowMs; // tokens per ms
+  s.tokens = Math.min(limit, s.tokens + Math.max(0, now - s.updatedAt) * rate);
+  s.updatedAt = now;
+  if (s.tokens < 1)
+    return {
+      allowed: false,
+      remaining: Math.floor(s.tokens),
+      resetMs: Math.ceil((limit - s.tokens) / rate),
+      retryAfterMs: Math.ceil((1 - s.tokens) / rate),
+    };
+  return {
+    allowed: true,
+    remaining: Math.floor(s.tokens - 1),
+    resetMs: Math.ceil((limit - s.tokens + 1) / rate),
+    retryAfterMs: 0,
+  };
+}
+
+// The state with the fewest hits left (the first one on ties)
+const tightestOf = (states: RateLimitState[]) =>
+  states.reduce((t, st) => (st.remaining < t.remaining ? st : t));
+
+// Process-local counters; fine for dev and single-instance deploys.
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly kind = "memory" as const;
+  private sliding = new Map<string, SlidingState>();
+  private buckets = new Map<string, BucketState>();
+  private idleUntil = new Map<string, number>(); // key → safe to forget after
+  private lastSweep = 0;
+
+  async hit(keys: string[], rule: RateLimitRule, now: number) {
+    this.sweep(now);
+    const checked = keys.map((key) => {
+      this.idleUntil.set(key, now + rule.windowMs * 2);
+      if (rule.algorithm === "token-bucket") {
+        let s = this.buckets.get(key);
+        if (!s) {
+          s = { tokens: rule.limit, updatedAt: now };
+          this.buckets.set(key, s);
+        }
+        const b = s;
+        return { state: bucketCheck(b, rule, now), take: () => b.tokens-- };
+      }
+      let s = this.sliding.get(key);
+      if (!s) {
+        s = { windowStart: 0, curr: 0, prev: 0 };
+        this.sliding.set(key, s);
+      }
+      const w = s;
+      return { state: slidingCheck(w, rule, now), take: () => w.curr++ };
+    });
+    const denied = checked.find((c) => !c.state.allowed);
+    if (denied) return denied.state;
+    checked.forEach((c) => c.take());
+    return tightestOf(checked.map((c) => c.state));
+  }
+
+  // Drop idle keys once a minute so the maps don't grow without bound
+  private sweep(now: number) {
+    if (now - this.lastSweep < MINUTE) return;
+    this.lastSweep = now;
+    for (const [k, until] of this.idleUntil) {
+      if (until > now) continue;
+      this.idleUntil.delete(k);
+      this.sliding.delete(k);
+      this.buckets.delete(k);
+    }
+  }
+}
+
+// KEYS = every key of the request; ARGV = windowMs, limit, now. Checks all
+// keys, then counts the hit on all of them (or on none). Returns the
+// RateLimitState fields as integers: allowed (0/1), remaining, resetMs,
+// retryAfterMs.
+const SLIDING_LUA = `
+local w, limit, now = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+local start = now - (now % w)
+local best = nil
+for _, key in ipairs(KEYS) do
+  local curr = tonumber(redis.call("GET", key .. ":" .. start) or "0")
+  local prev = tonumber(redis.call("GET", key .. ":" .. (start - w)) or "0")
+  local used = prev * (1 - (now - start) / w) + curr
+  if used + 1 > limit then
+    local retryAt = start + w
+    if curr < limit and prev > 0 then
+      retryAt = start + w * (1 - (limit - 1 - curr) / prev)
+    end
+    return {0, 0, start + w - now, math.max(1, math.ceil(retryAt - now))}
+  end
+  local remaining = math.floor(limit - used - 1)
+  if best == nil or remaining < best[2] then
+    best = {1, remaining, start + w - now, 0}
+  end
+end
+for _, key in ipairs(KEYS) do
+  redis.call("INCR", key .. ":" .. start)
+  redis.call("PEXPIRE", key .. ":" .. start, w * 2)
+end
+return best
+`;
+
+const BUCKET_LUA = `
+local w, limit, now = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+local rate = limit / w
+local left = {}
+local best = nil
+for i, key in ipairs(KEYS) do
+  local s = redis.call("HMGET", key, "tokens", "ts")
+  local tokens = tonumber(s[1]) or limit
+  local ts = tonumber(s[2]) or now
+  tokens = math.min(limit, tokens + math.max(0, now - ts) * rate)
+  if tokens < 1 then
+    return {0, math.floor(tokens), math.ceil((limit - tokens) / rate),
+      math.ceil((1 - tokens) / rate)}
+  end
+  left[i] = tokens - 1
+  local remaining = math.floor(tokens - 1)
+  if best == nil or remaining < best[2] then
+    best = {1, remaining, math.ceil((limit - tokens + 1) / rate), 0}
+  end
+end
+for i, key in ipairs(KEYS) do
+  redis.call("HSET", key, "tokens", tostring(left[i]), "ts", now)
+  redis.call("PEXPIRE", key, w * 2)
+end
+return best
+`;
+
+// Any RESP server with Lua scripting (Redis, Valkey, KeyDB...).
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly kind = "redis" as const;
+
+  constructor(private client: RespClient, private prefix = "ghlv:rl:") {}
+
+  async hit(keys: string[], rule: RateLimitRule, now: number) {
+    const script = rule.algorithm === "token-bucket" ? BUCKET_LUA : SLIDING_LUA;
+    const out = await this.client.command([
+      "EVAL",
+      script,
+      keys.length,
+      ...keys.map((key) => `${this.prefix}${rule.algorithm}:${key}`),
+      rule.windowMs,
+      rule.limit,
+      now,
+    ]);
+    if (!Array.isArray(out) || out.length !== 4)
+      throw new Error("Unexpected rate limit script reply");
+    const [allowed, remaining, resetMs, retryAfterMs] = out.map(Number);
+    return { allowed: allowed === 1, remaining, resetMs, retryAfterMs };
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * RATE_LIMIT_STORE=memory | redis (default: redis when CACHE_STORE=redis).
+ * Redis uses REDIS_URL (see resp.ts).
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+  const kind = (
+    process.env.RATE_LIMIT_STORE ||
+    (process.env.CACHE_STORE === "redis" ? "redis" : "memory")
+  ).toLowerCase();
+  const redis = kind === "redis" ? getRedisClient() : null;
+  if (kind !== "memory" && !redis)
+    console.warn(
+      `[rateLimit] RATE_LIMIT_STORE=${kind} unusable; using memory (REDIS_URL set?)`
+    );
+  store = redis ? new RedisRateLimitStore(redis) : new MemoryRateLimitStore();
+  return store;
+}
+
+// ---------- rules ----------
+
+function toRule(def: RateLimitDefinition): RateLimitRule {
   return {
+    limit: def.limit,
+    windowMs: def.windowSeconds * 1000,
+    algorithm: def.algorithm ?? "sliding-window",
+  };
+}
+
+// RATE_LIMIT_<ROUTE>="<limit>/<windowSeconds>[:bucket]", e.g. "20/60:bucket"
+function ruleFromEnv(route: RateLimitRoute): RateLimitRule | undefined {
+  const raw = process.env[`RATE_LIMIT_${route.toUpperCase()}`];
+  if (!raw) return undefined;
+  const m = /^\s*(\d+)\s*\/\s*(\d+)\s*(?::\s*(sliding|bucket))?\s*$/i.exec(raw);
+  if (!m || Number(m[1]) <= 0 || Number(m[2]) <= 0) {
+    console.warn(`[rateLimit] ignoring malformed ${route} limit "${raw}"`);
+    return undefined;
+  }
+  return toRule({
+    limit: Number(m[1]),
+    windowSeconds: Number(m[2]),
+    algorithm:
+      m[3]?.toLowerCase() === "bucket" ? "token-bucket" : "sliding-window",
+  });
+}
+
+/** Registry (per form) → env (per route) → built-in default. */
+export function getRateLimitRule(
+  route: RateLimitRoute,
+  formSlug?: string | null
+): RateLimitRule {
+  if (formSlug && !isGlobalRoute(route)) {
+    const def = getFormBySlug(formSlug)?.rateLimit?.[route];
+    if (def) return toRule(def);
+  }
+  return ruleFromEnv(route) ?? ROUTE_DEFAULTS[route];
+}
+
+// RATE_LIMIT_ENABLED=false turns every limit off (e.g. for load tests)
+function rateLimitEnabled(): boolean {
+  const v = String(process.env.RATE_LIMIT_ENABLED ?? "true").toLowerCase();
+  return v !== "false";
+}
+
+// ---------- keys ----------
+
+export function getClientIp(req: Request): string {
+  return (
+    req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    req.headers.get("x-real-ip")?.trim() ||
+    "unknown"
+  );
+}
+
+// Emails/phones are hashed so no PII ends up in Redis key names.
+function identityKey(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const v = value.trim().toLowerCase();
+  const norm = v.includes("@") ? v : v.replace(/\D+/g, "");
+  if (norm.length < 5) return null;
+  return crypto.createHash("sha256").update(norm).digest("hex").slice(0, 24);
+}
+
+export type RateLimitSubject = {
+  formSlug?: string | null;
+  identities?: unknown[]; // email / phone values from the request
+};
+
+/**
+ * Count one request against the client IP and every identity: all of them,
+ * or none when any key is over its limit (that key is reported). Otherwise
+ * reports the tightest key.
+ */
+export async function checkRateLimit(
+  route: RateLimitRoute,
+  req: Request,
+  subject: RateLimitSubject = {}
+): Promise<RateLimitDecision> {
+  const rule = getRateLimitRule(route, subject.formSlug);
+  const open: RateLimitDecision = {
     allowed: true,
-    remaining: Math.max(0, limit - window.count),
-    resetAt: window.resetAt,
+    remaining: rule.limit,
+    resetMs: 0,
+    retryAfterMs: 0,
+    rule,
+  };
+  if (!rateLimitEnabled()) return open;
+
+  // Only a known form gets its own counters; otherwise a client could dodge
+  // the limit by sending a fresh made-up slug with every request
+  const known = subject.formSlug && getFormBySlug(subject.formSlug);
+  const scope = `${route}:${known ? subject.formSlug : "-"}`;
+  const keys = [
+    `${scope}:ip:${getClientIp(req)}`,
+    ...new Set(
+      (subject.identities ?? [])
+        .map(identityKey)
+        .filter((k): k is string => Boolean(k))
+        .map((k) => `${scope}:id:${k}`)
+    ),
+  ];
+
+  try {
+    const state = await getRateLimitStore().hit(keys, rule, Date.now());
+    return { ...state, rule };
+  } catch (e) {
+    console.warn(`[rateLimit] store error, allowing:`, (e as Error).message);
+    return open;
+  }
+}
+
+/** IETF RateLimit header fields (+ Retry-After when limited). */
+export function applyRateLimitHeaders(
+  headers: Headers,
+  d: RateLimitDecision
+): void {
+  headers.set("RateLimit-Limit", String(d.rule.limit));
+  headers.set("RateLimit-Remaining", String(Math.max(0, d.remaining)));
+  headers.set("RateLimit-Reset", String(Math.ceil(d.resetMs / 1000)));
+  headers.set(
+    "RateLimit-Policy",
+    `${d.rule.limit};w=${Math.round(d.rule.windowMs / 1000)}`
+  );
+  if (!d.allowed)
+    headers.set("Retry-After", String(Math.ceil(d.retryAfterMs / 1000)));
+}
+
+export function rateLimitedResponse(d: RateLimitDecision): NextResponse {
+  const seconds = Math.ceil(d.retryAfterMs / 1000);
+  const wait = `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const res = NextResponse.json(
+    {
+      ok: false,
+      error: "rate_limited",
+      message: `Too many requests. Please try again in ${wait}.`,
+    },
+    { status: 429 }
+  );
+  applyRateLimitHeaders(res.headers, d);
+  return res;
+}
+
+// Reads the JSON body from a clone so the handler can still consume it.
+export async function peekJson<T extends object>(
+  req: Request
+): Promise<Partial<T>> {
+  const body = await req
+    .clone()
+    .json()
+    .catch(() => null);
+  return body && typeof body === "object" ? body : {};
+}
+
+/**
+ * Wrap a route handler: limit first, then stamp the RateLimit headers on
+ * whatever the handler returns. `identify` pulls the form slug and
+ * email/phone out of the request.
+ */
+export function withRateLimit<Ctx>(
+  route: RateLimitRoute,
+  handler: (req: NextRequest, ctx: Ctx) => Promise<Response>,
+  identify?: (req: NextRequest) => Promise<RateLimitSubject> | RateLimitSubject
+): (req: NextRequest, ctx: Ctx) => Promise<Response> {
+  return async (req, ctx) => {
+    const subject = identify ? await identify(req) : {};
+    const decision = await checkRateLimit(route, req, subject);
+    if (!decision.allowed) return rateLimitedResponse(decision);
+    const res = await handler(req, ctx);
+    if (rateLimitEnabled()) applyRateLimitHeaders(res.headers, decision);
+    return res;
   };
 }
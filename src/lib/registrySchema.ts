@@ -0,0 +1,882 @@
+// src/lib/registrySchema.ts
+// Typed schema for src/app/forms/registry.json plus a validator that reports
+// every problem at once (used at load time and by `npm run registry:lint`).
+import { PHONE_LINE_TYPES, type PhoneLineType } from "./validationTypes";
+
+export const CORE_FIELD_MAPS = [
+  "firstName",
+  "lastName",
+  "email",
+  "country",
+  "phone",
+  "consentTransactional",
+  "consentMarketing",
+] as const;
+export type CoreFieldMap = (typeof CORE_FIELD_MAPS)[number];
+
+export const FIELD_TYPES = [
+  "text",
+  "email",
+  "phone",
+  "checkbox",
+  "radio",
+  "select",
+  "textarea",
+] as const;
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+export const FIELD_VALIDATORS = [
+  "mailboxlayer",
+  "zerobounce",
+  "numverify",
+  "phonevalidator",
+] as const;
+export type FieldValidator = (typeof FIELD_VALIDATORS)[number];
+
+export const SECTION_LAYOUTS = ["single", "two-column"] as const;
+export type SectionLayout = (typeof SECTION_LAYOUTS)[number];
+
+export type FieldShowIf = { fieldId: string; equals: string | string[] };
+export type FieldOption = { value: string; label: string };
+
+type FieldBase = {
+  id: string;
+  label: string;
+  required?: boolean;
+  placeholder?: string;
+  showIf?: FieldShowIf;
+  map?: CoreFieldMap; // core contact field rendered by LeadForm itself
+  mapCustomFieldIdEnv?: string; // env key holding the GHL custom field id
+  mapCustomFieldId?: string; // literal GHL custom field id
+};
+
+export type InputField = FieldBase & {
+  type: "text" | "email" | "phone";
+  validate?: FieldValidator;
+};
+export type CheckboxField = FieldBase & { type: "checkbox" };
+export type ChoiceField = FieldBase & {
+  type: "radio" | "select";
+  options: FieldOption[];
+};
+export type TextareaField = FieldBase & { type: "textarea"; rows?: number };
+
+export type FieldConfig =
+  | InputField
+  | CheckboxField
+  | ChoiceField
+  | TextareaField;
+
+export type SectionConfig = {
+  title?: string;
+  layout?: SectionLayout;
+  fields: FieldConfig[];
+};
+
+export type LegalLink = { label: string; href: string };
+export type LegalConfig = { privacy: LegalLink; terms: LegalLink };
+
+export const WEEKDAYS = [
+  "sun",
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+// When a form takes bookings (bookingRules.ts), in the booking timezone
+export type BookingRulesDefinition = {
+  weekdays?: Weekday[]; // default mon–fri
+  hours?: { start: string; end: string }; // "HH:MM", appointment fits inside
+  blackoutDates?: string[]; // "YYYY-MM-DD" or "YYYY-MM-DD..YYYY-MM-DD"
+  allowSameDay?: boolean; // default false
+  maxDaysAhead?: number; // default: no limit
+};
+
+// One of several calendars a form books on (bookingCalendars.ts)
+export type BookingCalendarDefinition = {
+  id: string; // stable name, e.g. "boilers"
+  calendarIdEnv: string;
+  showIf?: FieldShowIf; // only offered when the answers match
+};
+
+// How a booking picks among calendars that all have the chosen time free
+export const BOOKING_ASSIGNMENTS = ["round-robin", "least-loaded"] as const;
+export type BookingAssignment = (typeof BOOKING_ASSIGNMENTS)[number];
+
+// Which wizard step comes first: the time picker or the contact details
+export const BOOKING_ORDERS = ["booking-first", "contact-first"] as const;
+export type BookingOrder = (typeof BOOKING_ORDERS)[number];
+
+export type BookingDefinition = {
+  enabled: boolean;
+  calendarIdEnv?: string; // single calendar; or use `calendars`
+  calendars?: BookingCalendarDefinition[];
+  assignment?: BookingAssignment; // default "round-robin"
+  order?: BookingOrder; // default "booking-first"
+  timezoneEnv?: string;
+  minLeadMinutes?: number;
+  durationMinutes?: number; // appointment length (default 60)
+  bufferMinutes?: number; // free time required after it (default 0)
+  durationFromCalendar?: boolean; // use the LeadConnector calendar's slot length
+  rules?: BookingRulesDefinition;
+};
+
+// Per-form overrides of the global validation policy (validationPolicy.ts)
+export type FormValidationDefinition = {
+  email?: {
+    allowRole?: boolean;
+    allowDisposable?: boolean;
+    allowCatchAll?: boolean;
+  };
+  phone?: {
+    allowedLineTypes?: PhoneLineType[];
+    rejectDeactivated?: boolean;
+  };
+};
+
+export const CAPTCHA_PROVIDERS = [
+  "recaptcha-v2",
+  "recaptcha-v3",
+  "turnstile",
+  "hcaptcha",
+] as const;
+export type CaptchaProviderName = (typeof CAPTCHA_PROVIDERS)[number];
+
+// `"captcha": true` uses the default provider; the object form picks one
+export type CaptchaDefinition = {
+  provider?: CaptchaProviderName;
+  action?: string; // reCAPTCHA v3 action name (default "submit")
+  minScore?: number; // reCAPTCHA v3 score threshold, 0..1
+};
+
+// Per-form overrides of the bot-scoring policy (botScore.ts)
+export type BotPolicyDefinition = {
+  enabled?: boolean;
+  tagThreshold?: number; // score 0..1 at which `tag` is added to the contact
+  rejectThreshold?: number; // score 0..1 at which the lead is dropped
+  tag?: string;
+  minSubmitSeconds?: number; // faster than this from render = bot signal
+};
+
+// Routes whose limits a form can override (see rateLimit.ts)
+export const RATE_LIMIT_ROUTES = [
+  "validate",
+  "lead",
+  "appointments",
+  "availability",
+  "hold",
+] as const;
+export type FormRateLimitRoute = (typeof RATE_LIMIT_ROUTES)[number];
+
+export const RATE_LIMIT_ALGORITHMS = [
+  "sliding-window",
+  "token-bucket",
+] as const;
+export type RateLimitAlgorithm = (typeof RATE_LIMIT_ALGORITHMS)[number];
+
+export type RateLimitDefinition = {
+  limit: number; // requests per window (token bucket: burst size)
+  windowSeconds: number;
+  algorithm?: RateLimitAlgorithm;
+};
+
+export type FormRateLimitDefinition = Partial<
+  Record<FormRateLimitRoute, RateLimitDefinition>
+>;
+
+export type FormDefinition = {
+  slug: string;
+  name: string;
+  locationIdEnv: string;
+  workflowIdEnv?: string;
+  tags?: string[];
+  captcha?: boolean | CaptchaDefinition;
+  legal?: Partial<LegalConfig>; // per-form override of legalDefaults
+  booking?: BookingDefinition;
+  validation?: FormValidationDefinition;
+  rateLimit?: FormRateLimitDefinition;
+  bot?: BotPolicyDefinition;
+  sections: SectionConfig[];
+};
+
+export type RegistryDefinition = {
+  legalDefaults: LegalConfig;
+  forms: FormDefinition[];
+};
+
+export type RegistryIssue = { path: string; message: string };
+
+export function isChoiceField(field: FieldConfig): field is ChoiceField {
+  return field.type === "radio" || field.type === "select";
+}
+
+// ---------- validator ----------
+
+const SLUG_RE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const ENV_KEY_RE = /^[A-Z][A-Z0-9_]*$/;
+
+const isObj = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+const isNonEmptyString = (v: unknown): v is string =>
+  typeof v === "string" && v.trim().length > 0;
+
+function includes<T extends string>(list: readonly T[], v: unknown): v is T {
+  return typeof v === "string" && (list as readonly string[]).includes(v);
+}
+
+function checkLegalLink(
+  link: unknown,
+  path: string,
+  issues: RegistryIssue[]
+) {
+  if (!isObj(link)) {
+    issues.push({ path, message: "must be an object { label, href }" });
+    return;
+  }
+  if (!isNonEmptyString(link.label))
+    issues.push({ path: `${path}.label`, message: "must be a non-empty string" });
+  if (!isNonEmptyString(link.href) || !/^https?:\/\//.test(link.href))
+    issues.push({ path: `${path}.href`, message: "must be an http(s) URL" });
+}
+
+function checkEnvKey(
+  v: unknown,
+  path: string,
+  issues: RegistryIssue[],
+  required = false
+) {
+  if (v === undefined && !required) return;
+  if (!isNonEmptyString(v) || !ENV_KEY_RE.test(v)) {
+    issues.push({
+      path,
+      message: `must be an UPPER_SNAKE_CASE env var name (got ${JSON.stringify(v)})`,
+    });
+  }
+}
+
+function checkField(
+  field: unknown,
+  path: string,
+  issues: RegistryIssue[]
+): field is FieldConfig {
+  if (!isObj(field)) {
+    issues.push({ path, message: "field must be an object" });
+    return false;
+  }
+  if (!isNonEmptyString(field.id))
+    issues.push({ path: `${path}.id`, message: "must be a non-empty string" });
+  if (!isNonEmptyString(field.label))
+    issues.push({ path: `${path}.label`, message: "must be a non-empty string" });
+  if (!includes(FIELD_TYPES, field.type)) {
+    issues.push({
+      path: `${path}.type`,
+      message: `unknown field type ${JSON.stringify(field.type)} (expected ${FIELD_TYPES.join(" | ")})`,
+    });
+    return false;
+  }
+  if (field.required !== undefined && typeof field.required !== "boolean")
+    issues.push({ path: `${path}.required`, message: "must be a boolean" });
+  if (field.map !== undefined && !includes(CORE_FIELD_MAPS, field.map))
+    issues.push({
+      path: `${path}.map`,
+      message: `unknown core mapping ${JSON.stringify(field.map)}`,
+    });
+  checkEnvKey(field.mapCustomFieldIdEnv, `${path}.mapCustomFieldIdEnv`, issues);
+  if (field.map && (field.mapCustomFieldIdEnv || field.mapCustomFieldId))
+    issues.push({
+      path,
+      message: "a field cannot have both `map` and a custom field mapping",
+    });
+
+  if (field.type === "radio" || field.type === "select") {
+    if (!Array.isArray(field.options) || field.options.length === 0) {
+      issues.push({
+        path: `${path}.options`,
+        message: `${field.type} fields need a non-empty options array`,
+      });
+    } else {
+      const seen = new Set<string>();
+      field.options.forEach((opt: unknown, i: number) => {
+        const optPath = `${path}.options[${i}]`;
+        if (!isObj(opt)) {
+          issues.push({ path: optPath, message: "option must be an object" });
+          return;
+        }
+        if (!isNonEmptyString(opt.value)) {
+          issues.push({ path: `${optPath}.value`, message: "option has no value" });
+        } else if (seen.has(opt.value)) {
+          issues.push({
+            path: `${optPath}.value`,
+            message: `duplicate option value "${opt.value}"`,
+          });
+        } else {
+          seen.add(opt.value);
+        }
+        if (!isNonEmptyString(opt.label))
+          issues.push({ path: `${optPath}.label`, message: "option has no label" });
+      });
+    }
+  } else if (field.options !== undefined) {
+    issues.push({
+      path: `${path}.options`,
+      message: `options are only allowed on radio/select fields`,
+    });
+  }
+
+  if (
+    field.type === "textarea" &&
+    field.rows !== undefined &&
+    !(isInt(field.rows) && field.rows > 0)
+  )
+    issues.push({ path: `${path}.rows`, message: "must be a positive integer" });
+
+  if (field.validate !== undefined) {
+    if (field.type !== "email" && field.type !== "phone")
+      issues.push({
+        path: `${path}.validate`,
+        message: "only email/phone fields can declare a validator",
+      });
+    else if (!includes(FIELD_VALIDATORS, field.validate))
+      issues.push({
+        path: `${path}.validate`,
+        message: `unknown validator ${JSON.stringify(field.validate)}`,
+      });
+  }
+
+  if (field.showIf !== undefined)
+    checkShowIfShape(field.showIf, `${path}.showIf`, issues);
+  return true;
+}
+
+function checkShowIfShape(s: unknown, path: string, issues: RegistryIssue[]) {
+  const okEquals =
+    isObj(s) &&
+    (isNonEmptyString(s.equals) ||
+      (Array.isArray(s.equals) && s.equals.every(isNonEmptyString)));
+  if (!isObj(s) || !isNonEmptyString(s.fieldId) || !okEquals)
+    issues.push({
+      path,
+      message: "must be { fieldId: string, equals: string | string[] }",
+    });
+}
+
+// showIf must point at an existing, different field; when that field has
+// options the compared values must be among them. Booking calendars'
+// conditions follow the same rules.
+function checkShowIfTargets(
+  conds: Array<{ cond?: FieldShowIf; path: string; selfId?: string }>,
+  fields: FieldConfig[],
+  issues: RegistryIssue[]
+) {
+  const byId = new Map(fields.map((f) => [f.id, f]));
+  for (const { cond, path, selfId } of conds) {
+    if (!cond || !isNonEmptyString(cond.fieldId)) continue;
+    const target = byId.get(cond.fieldId);
+    if (!target) {
+      issues.push({
+        path: `${path}.showIf.fieldId`,
+        message: `references unknown field "${cond.fieldId}"`,
+      });
+      continue;
+    }
+    if (target.id === selfId) {
+      issues.push({
+        path: `${path}.showIf.fieldId`,
+        message: "a field cannot depend on itself",
+      });
+      continue;
+    }
+    if (isChoiceField(target) && Array.isArray(target.options)) {
+      const values = new Set(target.options.map((o) => o?.value));
+      const wanted = Array.isArray(cond.equals) ? cond.equals : [cond.equals];
+      for (const w of wanted) {
+        if (!values.has(w))
+          issues.push({
+            path: `${path}.showIf.equals`,
+            message: `"${w}" is not an option value of field "${target.id}"`,
+          });
+      }
+    }
+  }
+}
+
+function checkBooking(b: unknown, path: string, issues: RegistryIssue[]) {
+  if (!isObj(b)) {
+    issues.push({ path, message: "must be an object" });
+    return;
+  }
+  if (typeof b.enabled !== "boolean")
+    issues.push({ path: `${path}.enabled`, message: "must be a boolean" });
+  if (b.calendars !== undefined) {
+    if (b.calendarIdEnv !== undefined)
+      issues.push({
+        path: `${path}.calendarIdEnv`,
+        message: "use either calendarIdEnv or calendars, not both",
+      });
+    checkBookingCalendars(b.calendars, `${path}.calendars`, issues);
+  } else {
+    checkEnvKey(
+      b.calendarIdEnv,
+      `${path}.calendarIdEnv`,
+      issues,
+      b.enabled === true
+    );
+  }
+  if (b.assignment !== undefined && !includes(BOOKING_ASSIGNMENTS, b.assignment))
+    issues.push({
+      path: `${path}.assignment`,
+      message: `must be ${BOOKING_ASSIGNMENTS.join(" | ")}`,
+    });
+  if (b.order !== undefined && !includes(BOOKING_ORDERS, b.order))
+    issues.push({
+      path: `${path}.order`,
+      message: `must be ${BOOKING_ORDERS.join(" | ")}`,
+    });
+  checkEnvKey(b.timezoneEnv, `${path}.timezoneEnv`, issues);
+  if (
+    b.minLeadMinutes !== undefined &&
+    !(typeof b.minLeadMinutes === "number" && b.minLeadMinutes >= 0)
+  )
+    issues.push({
+      path: `${path}.minLeadMinutes`,
+      message: "must be a non-negative number",
+    });
+  if (
+    b.durationMinutes !== undefined &&
+    !(
+      isInt(b.durationMinutes) &&
+      b.durationMinutes > 0 &&
+      b.durationMinutes <= 24 * 60
+    )
+  )
+    issues.push({
+      path: `${path}.durationMinutes`,
+      message: "must be a whole number of minutes between 1 and 1440",
+    });
+  if (
+    b.bufferMinutes !== undefined &&
+    !(isInt(b.bufferMinutes) && b.bufferMinutes >= 0)
+  )
+    issues.push({
+      path: `${path}.bufferMinutes`,
+      message: "must be a non-negative whole number",
+    });
+  if (
+    b.durationFromCalendar !== undefined &&
+    typeof b.durationFromCalendar !== "boolean"
+  )
+    issues.push({
+      path: `${path}.durationFromCalendar`,
+      message: "must be a boolean",
+    });
+  if (b.rules !== undefined)
+    checkBookingRules(b.rules, `${path}.rules`, issues);
+}
+
+function checkBookingCalendars(
+  v: unknown,
+  path: string,
+  issues: RegistryIssue[]
+) {
+  if (!Array.isArray(v) || v.length === 0) {
+    issues.push({ path, message: "must be a non-empty array" });
+    return;
+  }
+  const ids = new Set<string>();
+  v.forEach((cal: unknown, i: number) => {
+    const cPath = `${path}[${i}]`;
+    if (!isObj(cal)) {
+      issues.push({ path: cPath, message: "calendar must be an object" });
+      return;
+    }
+    for (const key of Object.keys(cal))
+      if (!["id", "calendarIdEnv", "showIf"].includes(key))
+        issues.push({ path: `${cPath}.${key}`, message: "unknown option" });
+    if (!isNonEmptyString(cal.id) || !SLUG_RE.test(cal.id))
+      issues.push({
+        path: `${cPath}.id`,
+        message: "must be a lowercase kebab-case name",
+      });
+    else if (ids.has(cal.id))
+      issues.push({
+        path: `${cPath}.id`,
+        message: `duplicate calendar id "${cal.id}"`,
+      });
+    else ids.add(cal.id);
+    checkEnvKey(cal.calendarIdEnv, `${cPath}.calendarIdEnv`, issues, true);
+    if (cal.showIf !== undefined)
+      checkShowIfShape(cal.showIf, `${cPath}.showIf`, issues);
+  });
+}
+
+const HHMM_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_RANGE_RE = /^\d{4}-\d{2}-\d{2}(\.\.\d{4}-\d{2}-\d{2})?$/;
+
+function checkBookingRules(
+  v: unknown,
+  path: string,
+  issues: RegistryIssue[]
+) {
+  if (!isObj(v)) {
+    issues.push({ path, message: "must be an object" });
+    return;
+  }
+  for (const key of Object.keys(v))
+    if (
+      ![
+        "weekdays",
+        "hours",
+        "blackoutDates",
+        "allowSameDay",
+        "maxDaysAhead",
+      ].includes(key)
+    )
+      issues.push({ path: `${path}.${key}`, message: "unknown booking rule" });
+  if (
+    v.weekdays !== undefined &&
+    !(
+      Array.isArray(v.weekdays) &&
+      v.weekdays.length > 0 &&
+      v.weekdays.every((d) => includes(WEEKDAYS, d))
+    )
+  )
+    issues.push({
+      path: `${path}.weekdays`,
+      message: `must be a non-empty array of ${WEEKDAYS.join(" | ")}`,
+    });
+  if (v.hours !== undefined) {
+    const h = v.hours;
+    if (
+      !isObj(h) ||
+      !HHMM_RE.test(String(h.start)) ||
+      !HHMM_RE.test(String(h.end)) ||
+      String(h.start) >= String(h.end)
+    )
+      issues.push({
+        path: `${path}.hours`,
+        message: 'must be { "start": "HH:MM", "end": "HH:MM" } with start < end',
+      });
+  }
+  if (v.blackoutDates !== undefined) {
+    if (!Array.isArray(v.blackoutDates))
+      issues.push({
+        path: `${path}.blackoutDates`,
+        message: "must be an array of dates",
+      });
+    else
+      v.blackoutDates.forEach((d: unknown, i: number) => {
+        const [from, to] = String(d).split("..");
+        if (!DATE_RANGE_RE.test(String(d)) || (to && to < from))
+          issues.push({
+            path: `${path}.blackoutDates[${i}]`,
+            message: 'must be "YYYY-MM-DD" or "YYYY-MM-DD..YYYY-MM-DD"',
+          });
+      });
+  }
+  if (v.allowSameDay !== undefined && typeof v.allowSameDay !== "boolean")
+    issues.push({ path: `${path}.allowSameDay`, message: "must be a boolean" });
+  if (
+    v.maxDaysAhead !== undefined &&
+    !(isInt(v.maxDaysAhead) && v.maxDaysAhead > 0)
+  )
+    issues.push({
+      path: `${path}.maxDaysAhead`,
+      message: "must be a positive integer",
+    });
+}
+
+function checkCaptcha(v: unknown, path: string, issues: RegistryIssue[]) {
+  if (!isObj(v)) {
+    issues.push({
+      path,
+      message: "must be a boolean or { provider?, action?, minScore? }",
+    });
+    return;
+  }
+  for (const key of Object.keys(v))
+    if (!["provider", "action", "minScore"].includes(key))
+      issues.push({ path: `${path}.${key}`, message: "unknown captcha option" });
+  if (v.provider !== undefined && !includes(CAPTCHA_PROVIDERS, v.provider))
+    issues.push({
+      path: `${path}.provider`,
+      message: `must be ${CAPTCHA_PROVIDERS.join(" | ")}`,
+    });
+  if (
+    v.action !== undefined &&
+    !(typeof v.action === "string" && /^[A-Za-z0-9_/]+$/.test(v.action))
+  )
+    issues.push({
+      path: `${path}.action`,
+      message: "must contain only letters, digits, _ and /",
+    });
+  if (
+    v.minScore !== undefined &&
+    !(typeof v.minScore === "number" && v.minScore >= 0 && v.minScore <= 1)
+  )
+    issues.push({ path: `${path}.minScore`, message: "must be between 0 and 1" });
+  if (
+    (v.action !== undefined || v.minScore !== undefined) &&
+    v.provider !== undefined &&
+    v.provider !== "recaptcha-v3"
+  )
+    issues.push({
+      path,
+      message: "action / minScore only apply to recaptcha-v3",
+    });
+}
+
+function checkRateLimit(v: unknown, path: string, issues: RegistryIssue[]) {
+  if (!isObj(v)) {
+    issues.push({
+      path,
+      message: `must be an object keyed by ${RATE_LIMIT_ROUTES.join(" | ")}`,
+    });
+    return;
+  }
+  for (const [route, rule] of Object.entries(v)) {
+    const rPath = `${path}.${route}`;
+    if (!includes(RATE_LIMIT_ROUTES, route)) {
+      issues.push({ path: rPath, message: "unknown rate-limited route" });
+      continue;
+    }
+    if (!isObj(rule)) {
+      issues.push({
+        path: rPath,
+        message: "must be an object { limit, windowSeconds, algorithm? }",
+      });
+      continue;
+    }
+    for (const k of ["limit", "windowSeconds"] as const)
+      if (!isInt(rule[k]) || rule[k] <= 0)
+        issues.push({
+          path: `${rPath}.${k}`,
+          message: "must be a positive integer",
+        });
+    if (
+      rule.algorithm !== undefined &&
+      !includes(RATE_LIMIT_ALGORITHMS, rule.algorithm)
+    )
+      issues.push({
+        path: `${rPath}.algorithm`,
+        message: `must be ${RATE_LIMIT_ALGORITHMS.join(" | ")}`,
+      });
+  }
+}
+
+function checkBot(v: unknown, path: string, issues: RegistryIssue[]) {
+  if (!isObj(v)) {
+    issues.push({ path, message: "must be an object" });
+    return;
+  }
+  for (const [key, value] of Object.entries(v)) {
+    const kPath = `${path}.${key}`;
+    if (key === "enabled") {
+      if (typeof value !== "boolean")
+        issues.push({ path: kPath, message: "must be a boolean" });
+    } else if (key === "tagThreshold" || key === "rejectThreshold") {
+      if (!(typeof value === "number" && value >= 0 && value <= 1))
+        issues.push({ path: kPath, message: "must be between 0 and 1" });
+    } else if (key === "tag") {
+      if (!isNonEmptyString(value))
+        issues.push({ path: kPath, message: "must be a non-empty string" });
+    } else if (key === "minSubmitSeconds") {
+      if (!(typeof value === "number" && value >= 0))
+        issues.push({ path: kPath, message: "must be a non-negative number" });
+    } else {
+      issues.push({ path: kPath, message: "unknown bot option" });
+    }
+  }
+}
+
+function checkValidation(
+  v: unknown,
+  path: string,
+  issues: RegistryIssue[]
+) {
+  if (!isObj(v)) {
+    issues.push({ path, message: "must be an object { email?, phone? }" });
+    return;
+  }
+  const allowed: Record<string, string[]> = {
+    email: ["allowRole", "allowDisposable", "allowCatchAll"],
+    phone: ["allowedLineTypes", "rejectDeactivated"],
+  };
+  for (const [key, block] of Object.entries(v)) {
+    const bPath = `${path}.${key}`;
+    if (!allowed[key]) {
+      issues.push({ path: bPath, message: "unknown validation block" });
+      continue;
+    }
+    if (!isObj(block)) {
+      issues.push({ path: bPath, message: "must be an object" });
+      continue;
+    }
+    for (const [opt, value] of Object.entries(block)) {
+      const oPath = `${bPath}.${opt}`;
+      if (!allowed[key].includes(opt)) {
+        issues.push({
+          path: oPath,
+          message: `unknown option (expected ${allowed[key].join(" | ")})`,
+        });
+      } else if (opt === "allowedLineTypes") {
+        if (
+          !Array.isArray(value) ||
+          value.length === 0 ||
+          !value.every((lt) => includes(PHONE_LINE_TYPES, lt))
+        )
+          issues.push({
+            path: oPath,
+            message: `must be a non-empty array of ${PHONE_LINE_TYPES.join(" | ")}`,
+          });
+      } else if (typeof value !== "boolean") {
+        issues.push({ path: oPath, message: "must be a boolean" });
+      }
+    }
+  }
+}
+
+function checkForm(form: unknown, path: string, issues: RegistryIssue[]) {
+  if (!isObj(form)) {
+    issues.push({ path, message: "form must be an object" });
+    return;
+  }
+  if (!isNonEmptyString(form.slug) || !SLUG_RE.test(form.slug))
+    issues.push({
+      path: `${path}.slug`,
+      message: "must be a lowercase kebab-case slug",
+    });
+  if (!isNonEmptyString(form.name))
+    issues.push({ path: `${path}.name`, message: "must be a non-empty string" });
+  checkEnvKey(form.locationIdEnv, `${path}.locationIdEnv`, issues, true);
+  checkEnvKey(form.workflowIdEnv, `${path}.workflowIdEnv`, issues);
+  if (
+    form.tags !== undefined &&
+    !(Array.isArray(form.tags) && form.tags.every(isNonEmptyString))
+  )
+    issues.push({ path: `${path}.tags`, message: "must be an array of strings" });
+  if (form.captcha !== undefined && typeof form.captcha !== "boolean")
+    checkCaptcha(form.captcha, `${path}.captcha`, issues);
+  if (form.legal !== undefined) {
+    if (!isObj(form.legal))
+      issues.push({ path: `${path}.legal`, message: "must be an object" });
+    else
+      for (const k of ["privacy", "terms"] as const)
+        if (form.legal[k] !== undefined)
+          checkLegalLink(form.legal[k], `${path}.legal.${k}`, issues);
+  }
+  if (form.booking !== undefined) checkBooking(form.booking, `${path}.booking`, issues);
+  if (form.validation !== undefined)
+    checkValidation(form.validation, `${path}.validation`, issues);
+  if (form.rateLimit !== undefined)
+    checkRateLimit(form.rateLimit, `${path}.rateLimit`, issues);
+  if (form.bot !== undefined) checkBot(form.bot, `${path}.bot`, issues);
+
+  if (!Array.isArray(form.sections) || form.sections.length === 0) {
+    issues.push({ path: `${path}.sections`, message: "must be a non-empty array" });
+    return;
+  }
+
+  const fields: Array<{ field: FieldConfig; path: string }> = [];
+  const ids = new Set<string>();
+  form.sections.forEach((section: unknown, si: number) => {
+    const sPath = `${path}.sections[${si}]`;
+    if (!isObj(section)) {
+      issues.push({ path: sPath, message: "section must be an object" });
+      return;
+    }
+    if (section.layout !== undefined && !includes(SECTION_LAYOUTS, section.layout))
+      issues.push({
+        path: `${sPath}.layout`,
+        message: `unknown layout ${JSON.stringify(section.layout)} (expected ${SECTION_LAYOUTS.join(" | ")})`,
+      });
+    if (!Array.isArray(section.fields)) {
+      issues.push({ path: `${sPath}.fields`, message: "must be an array" });
+      return;
+    }
+    section.fields.forEach((field: unknown, fi: number) => {
+      const fPath = `${sPath}.fields[${fi}]`;
+      const id = isObj(field) ? field.id : undefined;
+      if (isNonEmptyString(id)) {
+        if (ids.has(id))
+          issues.push({ path: `${fPath}.id`, message: `duplicate field id "${id}"` });
+        ids.add(id);
+      }
+      if (checkField(field, fPath, issues)) fields.push({ field, path: fPath });
+    });
+  });
+  const calendars: unknown[] =
+    isObj(form.booking) && Array.isArray(form.booking.calendars)
+      ? form.booking.calendars
+      : [];
+  checkShowIfTargets(
+    [
+      ...fields.map(({ field, path }) => ({
+        cond: field.showIf,
+        path,
+        selfId: field.id,
+      })),
+      ...calendars.map((cal, i) => ({
+        cond: isObj(cal) ? (cal.showIf as FieldShowIf | undefined) : undefined,
+        path: `${path}.booking.calendars[${i}]`,
+      })),
+    ],
+    fields.map((f) => f.field),
+    issues
+  );
+}
+
+/** Collect every problem in a registry document (empty array = valid). */
+export function validateRegistry(raw: unknown): RegistryIssue[] {
+  const issues: RegistryIssue[] = [];
+  if (!isObj(raw)) return [{ path: "$", message: "registry must be an object" }];
+
+  if (!isObj(raw.legalDefaults)) {
+    issues.push({ path: "legalDefaults", message: "must be an object" });
+  } else {
+    checkLegalLink(raw.legalDefaults.privacy, "legalDefaults.privacy", issues);
+    checkLegalLink(raw.legalDefaults.terms, "legalDefaults.terms", issues);
+  }
+
+  if (!Array.isArray(raw.forms) || raw.forms.length === 0) {
+    issues.push({ path: "forms", message: "must be a non-empty array" });
+    return issues;
+  }
+
+  const slugs = new Map<string, number>();
+  raw.forms.forEach((form: unknown, i: number) => {
+    const path = `forms[${i}]`;
+    checkForm(form, path, issues);
+    const slug = isObj(form) ? form.slug : undefined;
+    if (!isNonEmptyString(slug)) return;
+    if (slugs.has(slug))
+      issues.push({
+        path: `${path}.slug`,
+        message: `duplicate slug "${slug}" (first used by forms[${slugs.get(slug)}])`,
+      });
+    else slugs.set(slug, i);
+  });
+
+  return issues;
+}
+
+export function formatRegistryIssues(issues: RegistryIssue[]): string {
+  return issues.map((i) => `  - ${i.path}: ${i.message}`).join("\n");
+}
+
+/** Validate and narrow; throws with the full issue list when invalid. */
+export function parseRegistry(raw: unknown): RegistryDefinition {
+  const issues = validateRegistry(raw);
+  if (issues.length) {
+    throw new Error(
+      `Invalid forms registry (${issues.length} problem${
+        issues.length === 1 ? "" : "s"
+      }):\n${formatRegistryIssues(issues)}`
+    );
+  }
+  return raw as RegistryDefinition;
+}
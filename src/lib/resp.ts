@@ -0,0 +1,221 @@
+// src/lib/resp.ts
+// Minimal Redis-protocol (RESP2) client over a single socket: enough for the
+// shared cache (GET/SET PX/DEL/PTTL) and the rate limiter (EVAL) without
+// pulling in a Redis package.
+// Works with Redis, Valkey, KeyDB, Dragonfly or any RESP-speaking stand-in.
+//
+// REDIS_URL=redis://[user:password@]host:6379[/db]   (rediss:// for TLS)
+import net from "node:net";
+import tls from "node:tls";
+
+export type RespValue = string | number | null | RespValue[];
+
+type Pending = {
+  resolve: (v: RespValue) => void;
+  reject: (e: Error) => void;
+};
+
+type ErrorReply = { error: string };
+type Parsed = { value: RespValue | ErrorReply; end: number };
+
+const isErrorReply = (v: RespValue | ErrorReply): v is ErrorReply =>
+  v !== null && typeof v === "object" && !Array.isArray(v);
+
+// Parse one reply starting at `start`; null when the buffer is incomplete.
+function parseReply(buf: Buffer, start: number): Parsed | null {
+  const lineEnd = buf.indexOf("\r\n", start);
+  if (lineEnd < 0) return null;
+  const type = String.fromCharCode(buf[start]);
+  const line = buf.toString("utf8", start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, end: next };
+    case "-":
+      return { value: { error: line }, end: next };
+    case ":":
+      return { value: Number(line), end: next };
+    case "$": {
+      const len = Number(line);
+      if (len < 0) return { value: null, end: next };
+      if (buf.length < next + len + 2) return null;
+      return {
+        value: buf.toString("utf8", next, next + len),
+        end: next + len + 2,
+      };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) return { value: null, end: next };
+      const items: RespValue[] = [];
+      let error: ErrorReply | null = null;
+      let pos = next;
+      // Consume every element, even past an error, so the rest of the array
+      // isn't read as the replies to later commands
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buf, pos);
+        if (!item) return null;
+        if (isErrorReply(item.value)) error ??= item.value;
+        else items.push(item.value);
+        pos = item.end;
+      }
+      return { value: error ?? items, end: pos }; // surface the first error
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type "${type}"`);
+  }
+}
+
+function encodeCommand(args: (string | number)[]): string {
+  let out = `*${args.length}\r\n`;
+  for (const a of args) {
+    const s = String(a);
+    out += `$${Buffer.byteLength(s)}\r\n${s}\r\n`;
+  }
+  return out;
+}
+
+export class RespClient {
+  private socket: net.Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: Pending[] = [];
+
+  constructor(private url: URL, private timeoutMs = 1000) {}
+
+  /** Send one command; rejects on error replies, socket errors or timeout. */
+  async command(args: (string | number)[]): Promise<RespValue> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  close(): void {
+    this.reset(new Error("RESP client closed"));
+  }
+
+  private send(args: (string | number)[]): Promise<RespValue> {
+    const socket = this.socket;
+    if (!socket) return Promise.reject(new Error("RESP socket not connected"));
+    return new Promise<RespValue>((resolve, reject) => {
+      // A late reply would shift every later one, so a timeout drops the
+      // connection (and everything queued on it) instead of waiting.
+      const timer = setTimeout(
+        () => this.reset(new Error(`RESP ${args[0]} timed out`)),
+        this.timeoutMs
+      );
+      this.pending.push({
+        resolve: (v) => {
+          clearTimeout(timer);
+          resolve(v);
+        },
+        reject: (e) => {
+          clearTimeout(timer);
+          reject(e);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+    const { hostname, port, protocol, username, password, pathname } =
+      this.url;
+    const opts = { host: hostname || "127.0.0.1", port: Number(port) || 6379 };
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      const socket =
+        protocol === "rediss:"
+          ? tls.connect({ ...opts, servername: opts.host })
+          : net.createConnection(opts);
+      const connectEvent = protocol === "rediss:" ? "secureConnect" : "connect";
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error("RESP connect timed out"));
+      }, this.timeoutMs);
+
+      socket.once(connectEvent, () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      socket.once("error", (e) => {
+        clearTimeout(timer);
+        reject(e);
+      });
+      // Events from a socket we already dropped must not touch its successor
+      const current = () => this.socket === socket;
+      socket.on("error", (e) => current() && this.reset(e));
+      socket.on("close", () =>
+        current() && this.reset(new Error("RESP connection closed"))
+      );
+      socket.on("data", (chunk) => current() && this.onData(chunk));
+      socket.setNoDelay(true);
+      this.socket = socket;
+    })
+      .then(async () => {
+        const db = pathname.replace(/^\//, "");
+        if (password) {
+          const auth = [username, password].filter(Boolean);
+          await this.send(["AUTH", ...auth.map(decodeURIComponent)]);
+        }
+        if (db && db !== "0") await this.send(["SELECT", db]);
+      })
+      .catch((e) => {
+        this.reset(e);
+        throw e;
+      });
+    return this.ready;
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer = this.buffer.length
+      ? Buffer.concat([this.buffer, chunk])
+      : chunk;
+    let pos = 0;
+    try {
+      for (;;) {
+        const reply = parseReply(this.buffer, pos);
+        if (!reply) break;
+        pos = reply.end;
+        const waiter = this.pending.shift();
+        if (!waiter) continue;
+        const v = reply.value;
+        if (isErrorReply(v)) waiter.reject(new Error(`Redis: ${v.error}`));
+        else waiter.resolve(v);
+      }
+    } catch (e) {
+      this.reset(e as Error);
+      return;
+    }
+    this.buffer = this.buffer.subarray(pos);
+  }
+
+  private reset(err: Error) {
+    const pending = this.pending;
+    this.pending = [];
+    this.buffer = Buffer.alloc(0);
+    this.ready = null;
+    if (this.socket) {
+      const s = this.socket;
+      this.socket = null;
+      s.destroy();
+    }
+    for (const p of pending) p.reject(err);
+  }
+}
+
+let shared: RespClient | null | undefined;
+
+/**
+ * Process-wide client for REDIS_URL (null when unset), shared by the cache
+ * and the rate limiter. REDIS_TIMEOUT_MS bounds connect and each command.
+ */
+export function getRedisClient(): RespClient | null {
+  if (shared !== undefined) return shared;
+  const url = process.env.REDIS_URL;
+  shared = url
+    ? new RespClient(new URL(url), Number(process.env.REDIS_TIMEOUT_MS ?? 500))
+    : null;
+  return shared;
+}
@@ -0,0 +1,227 @@
+// src/lib/slotHolds.ts
+// Short-lived slot holds for the booking wizard. When a visitor continues
+// from the time picker, POST /api/availability/hold reserves that start for
+// their hold id (one per wizard session) for SLOT_HOLD_MINUTES. Held starts
+// disappear from everyone else's /api/availability and fail their
+// /api/appointments re-verification; the hold is released when the booking
+// is created, when the visitor goes back, or when it expires.
+//
+// Holds live in a SlotHoldStore: process-local memory, or Redis (atomic Lua
+// scripts) so every instance of a multi-instance deploy sees them. Like the
+// other stores it fails open: an outage means no holds, not no bookings.
+import { getRedisClient, type RespClient } from "./resp";
+
+export const SLOT_HOLD_MS =
+  Number(process.env.SLOT_HOLD_MINUTES ?? 5) * 60 * 1000;
+
+export const HOLD_ID_RE = /^[A-Za-z0-9_-]{8,128}$/;
+
+export interface SlotHoldStore {
+  readonly kind: "memory" | "redis";
+  /**
+   * Hold `startMs` for `holdId` unless another hold has it. A hold id keeps
+   * one slot per calendar, so this moves (or refreshes) its earlier hold.
+   */
+  acquire(
+    calendarId: string,
+    startMs: number,
+    holdId: string,
+    ttlMs: number
+  ): Promise<boolean>;
+  release(calendarId: string, holdId: string): Promise<void>;
+  /** Starts currently held by anyone but `exceptHoldId`. */
+  heldStarts(calendarId: string, exceptHoldId?: string): Promise<number[]>;
+}
+
+type Hold = { holdId: string; expiresAt: number };
+
+// Process-local holds; fine for dev and single-instance deploys.
+export class MemorySlotHoldStore implements SlotHoldStore {
+  readonly kind = "memory" as const;
+  private calendars = new Map<string, Map<number, Hold>>();
+
+  private live(calendarId: string): Map<number, Hold> {
+    let holds = this.calendars.get(calendarId);
+    if (!holds) this.calendars.set(calendarId, (holds = new Map()));
+    const now = Date.now();
+    for (const [start, h] of holds)
+      if (h.expiresAt <= now) holds.delete(start);
+    return holds;
+  }
+
+  async acquire(
+    calendarId: string,
+    startMs: number,
+    holdId: string,
+    ttlMs: number
+  ) {
+    const holds = this.live(calendarId);
+    const current = holds.get(startMs);
+    if (current && current.holdId !== holdId) return false;
+    for (const [start, h] of holds)
+      if (h.holdId === holdId) holds.delete(start);
+    holds.set(startMs, { holdId, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async release(calendarId: string, holdId: string) {
+    const holds = this.live(calendarId);
+    for (const [start, h] of holds)
+      if (h.holdId === holdId) holds.delete(start);
+  }
+
+  async heldStarts(calendarId: string, exceptHoldId?: string) {
+    return [...this.live(calendarId)]
+      .filter(([, h]) => h.holdId !== exceptHoldId)
+      .map(([start]) => start);
+  }
+}
+
+// Per calendar: <prefix>slot:<startMs> = holdId, <prefix>holder:<holdId> =
+// startMs (both with the hold TTL) and <prefix>index, a sorted set of held
+// starts pruned on read. KEYS[1] = slot, KEYS[2] = holder, KEYS[3] = index;
+// ARGV = holdId, startMs, ttlMs, slot key prefix.
+const ACQUIRE_LUA = `
+local cur = redis.call("GET", KEYS[1])
+if cur and cur ~= ARGV[1] then return 0 end
+local prev = redis.call("GET", KEYS[2])
+if prev and prev ~= ARGV[2] then
+  local prevKey = ARGV[4] .. prev
+  if redis.call("GET", prevKey) == ARGV[1] then redis.call("DEL", prevKey) end
+  redis.call("ZREM", KEYS[3], prev)
+end
+redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[3])
+redis.call("SET", KEYS[2], ARGV[2], "PX", ARGV[3])
+redis.call("ZADD", KEYS[3], ARGV[2], ARGV[2])
+redis.call("PEXPIRE", KEYS[3], ARGV[3])
+return 1
+`;
+
+// KEYS[1] = holder, KEYS[2] = index; ARGV = holdId, slot key prefix
+const RELEASE_LUA = `
+local prev = redis.call("GET", KEYS[1])
+if not prev then return 0 end
+local key = ARGV[2] .. prev
+if redis.call("GET", key) == ARGV[1] then
+  redis.call("DEL", key)
+  redis.call("ZREM", KEYS[2], prev)
+end
+redis.call("DEL", KEYS[1])
+return 1
+`;
+
+// KEYS[1] = index; ARGV = slot key prefix, holdId to skip
+const HELD_LUA = `
+local out = {}
+for _, start in ipairs(redis.call("ZRANGE", KEYS[1], 0, -1)) do
+  local holder = redis.call("GET", ARGV[1] .. start)
+  if not holder then
+    redis.call("ZREM", KEYS[1], start)
+  elseif holder ~= ARGV[2] then
+    table.insert(out, start)
+  end
+end
+return out
+`;
+
+export class RedisSlotHoldStore implements SlotHoldStore {
+  readonly kind = "redis" as const;
+
+  constructor(private client: RespClient, private prefix = "ghlv:hold:") {}
+
+  private keys(calendarId: string) {
+    const base = `${this.prefix}${calendarId}:`;
+    return {
+      slot: `${base}slot:`,
+      holder: `${base}holder:`,
+      index: `${base}index`,
+    };
+  }
+
+  async acquire(
+    calendarId: string,
+    startMs: number,
+    holdId: string,
+    ttlMs: number
+  ) {
+    const k = this.keys(calendarId);
+    const out = await this.client.command([
+      "EVAL",
+      ACQUIRE_LUA,
+      3,
+      k.slot + startMs,
+      k.holder + holdId,
+      k.index,
+      holdId,
+      startMs,
+      ttlMs,
+      k.slot,
+    ]);
+    return out === 1;
+  }
+
+  async release(calendarId: string, holdId: string) {
+    const k = this.keys(calendarId);
+    await this.client.command([
+      "EVAL",
+      RELEASE_LUA,
+      2,
+      k.holder + holdId,
+      k.index,
+      holdId,
+      k.slot,
+    ]);
+  }
+
+  async heldStarts(calendarId: string, exceptHoldId?: string) {
+    const k = this.keys(calendarId);
+    const out = await this.client.command([
+      "EVAL",
+      HELD_LUA,
+      1,
+      k.index,
+      k.slot,
+      exceptHoldId ?? "",
+    ]);
+    return Array.isArray(out) ? out.map(Number) : [];
+  }
+}
+
+let store: SlotHoldStore | null = null;
+
+/**
+ * SLOT_HOLD_STORE=memory | redis (default: redis when CACHE_STORE=redis).
+ * Redis needs REDIS_URL (see resp.ts).
+ */
+export function getSlotHoldStore(): SlotHoldStore {
+  if (store) return store;
+  const kind = (
+    process.env.SLOT_HOLD_STORE ||
+    (process.env.CACHE_STORE === "redis" ? "redis" : "memory")
+  ).toLowerCase();
+  const redis = kind === "redis" ? getRedisClient() : null;
+  if (kind !== "memory" && !redis)
+    console.warn(
+      `[slotHolds] SLOT_HOLD_STORE=${kind} unusable; using memory (REDIS_URL set?)`
+    );
+  store = redis ? new RedisSlotHoldStore(redis) : new MemorySlotHoldStore();
+  return store;
+}
+
+// Held starts for filtering; an unreachable store hides nothing
+export async function getHeldStarts(
+  calendarId: string,
+  exceptHoldId?: string
+): Promise<Set<number>> {
+  try {
+    return new Set(
+      await getSlotHoldStore().heldStarts(calendarId, exceptHoldId)
+    );
+  } catch (e) {
+    console.warn(
+      "[slotHolds] store error, ignoring holds:",
+      (e as Error).message
+    );
+    return new Set();
+  }
+}
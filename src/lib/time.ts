@@ -53,6 +53,115 @@ export function isDisabledDate(iso: string, tz: string): boolean {
   return isTodayISO(iso, tz) || isWeekendISO(iso, tz);
 }
 
+export type ZonedParts = {
+  dateKey: string; // YYYY-MM-DD
+  weekday: number; // 0=Sun .. 6=Sat
+  minutes: number; // minutes past local midnight
+};
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+// Wall-clock date, weekday and time of an instant in a tz
+export function zonedParts(epochMs: number, tz: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(epochMs));
+  const get = (type: string) => parts.find((p) => p.type === type)!.value;
+  return {
+    dateKey: `${get("year")}-${get("month")}-${get("day")}`,
+    weekday: WEEKDAY_INDEX[get("weekday")],
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+// Whole days from dateKey `a` to dateKey `b` (YYYY-MM-DD)
+export function daysBetweenKeys(a: string, b: string): number {
+  const toDay = (k: string) => {
+    const [y, m, d] = k.split("-").map(Number);
+    return Date.UTC(y, m - 1, d) / 86_400_000;
+  };
+  return toDay(b) - toDay(a);
+}
+
+// True when tz is an IANA zone this runtime knows
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The browser's (or server's) IANA zone, when it reports a usable one
+export function detectTimeZone(): string | undefined {
+  try {
+    const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return tz && isValidTimeZone(tz) ? tz : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// "GMT-7"-style offset of tz at an instant (for zone pickers)
+export function zoneOffsetLabel(tz: string, at = Date.now()): string {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      timeZoneName: "shortOffset",
+    }).formatToParts(new Date(at));
+    return parts.find((p) => p.type === "timeZoneName")?.value ?? "";
+  } catch {
+    return "";
+  }
+}
+
+// Minutes tz is ahead of UTC at an instant (-240 for New York in summer)
+export function zoneOffsetMinutes(tz: string, at: number): number {
+  const minute = at - (((at % 60_000) + 60_000) % 60_000);
+  const p = zonedParts(minute, tz);
+  const [y, m, d] = p.dateKey.split("-").map(Number);
+  return Math.round(
+    (Date.UTC(y, m - 1, d) + p.minutes * 60_000 - minute) / 60_000
+  );
+}
+
+// dateKey `k` moved by `days` (may be negative)
+export function addDaysToKey(k: string, days: number): string {
+  const [y, m, d] = k.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+// Epoch of local midnight starting dateKey `k` in tz (NaN for a bad key)
+export function zonedMidnightMs(k: string, tz: string): number {
+  const [y, m, d] = k.split("-").map(Number);
+  const target = Date.UTC(y, m - 1, d);
+  if (isNaN(target)) return NaN;
+  // Shift by the tz offset; the second pass settles DST transitions
+  let t = target;
+  for (let i = 0; i < 2; i++) {
+    const p = zonedParts(t, tz);
+    const [py, pm, pd] = p.dateKey.split("-").map(Number);
+    t += target - (Date.UTC(py, pm - 1, pd) + p.minutes * 60_000);
+  }
+  return t;
+}
+
 // NEW: epoch helpers – no timezone conversions needed for lead-time logic
 export const nowEpoch = () => Date.now();
 export const addMinutesEpoch = (epoch: number, minutes: number) =>
@@ -1,17 +1,21 @@
 import { getCache, setCache } from "./cache";
-import { zerobounceCheck } from "./zerobounce";
-import { phonevalidatorCheck } from "./phonevalidator";
 import type { EmailResult, PhoneResult } from "./validationTypes";
+import { checkEmailWithChain, isPlausibleEmail } from "./emailProviders";
+import { checkPhoneWithChain } from "./phoneProviders";
 import {
-  ENABLE_TRUSTED_EMAIL_FALLBACK,
-  ENABLE_MX_FALLBACK,
-  BLOCK_ROLE_EMAILS,
-} from "./config";
-import dns from "node:dns";
+  applyEmailPolicy,
+  applyPhonePolicy,
+  DEFAULT_VALIDATION_POLICY,
+  type EmailPolicy,
+  type PhonePolicy,
+  type ValidationPolicy,
+} from "./validationPolicy";
 
 // NEW: import the blocklist helpers
 import { isBlockedEmailPrefix, isBlockedEmailDomain } from "./emailBlocklist";
 
+export { isPlausibleEmail };
+
 // --- Name validation helpers ---
 const NAME_SAFE_RE =
   /^[\p{L}](?:[\p{L}\p{M}]|[ '\-](?=[\p{L}\p{M}]))*[\p{L}]$/u;
@@ -72,81 +76,18 @@ export function validateNameHeuristic(input?: string | null): NameResult {
   return { valid: true };
 }
 
-const TRUSTED_EMAIL_DOMAINS = new Set([
-  "gmail.com",
-  "googlemail.com",
-  "outlook.com",
-  "hotmail.com",
-  "live.com",
-  "msn.com",
-  "yahoo.com",
-  "ymail.com",
-  "icloud.com",
-  "me.com",
-  "proton.me",
-  "protonmail.com",
-]);
-
-function getDomain(email: string): string | null {
-  const at = email.lastIndexOf("@");
-  if (at < 0) return null;
-  const d = email
-    .slice(at + 1)
-    .trim()
-    .toLowerCase();
-  return d || null;
-}
-
-async function hasMx(domain: string, timeoutMs = 1500): Promise<boolean> {
-  const p = dns.promises
-    .resolveMx(domain)
-    .then((recs) => Array.isArray(recs) && recs.length > 0)
-    .catch(() => false);
-  return await Promise.race([
-    p,
-    new Promise<boolean>((r) => setTimeout(() => r(false), timeoutMs)),
-  ]);
-}
-
-function isRoleEmail(email: string): boolean {
-  if (!BLOCK_ROLE_EMAILS) return false;
-  const local = email.split("@")[0]?.toLowerCase() || "";
-  const rolePrefixes = [
-    "info",
-    "sales",
-    "support",
-    "admin",
-    "contact",
-    "help",
-    "noreply",
-    "no-reply",
-  ];
-  return rolePrefixes.some(
-    (prefix) => local === prefix || local.startsWith(prefix + ".")
-  );
-}
-
-export function isPlausibleEmail(email: string): boolean {
-  if (!email || email.length > 254) return false;
-  // minimal RFC-lite
-  const re = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
-  if (!re.test(email)) return false;
-  const [local, domain] = email.split("@");
-  if (!local || !domain) return false;
-  if (local.length > 64) return false;
-  if (domain.includes("..")) return false;
-  return true;
-}
-
 export function isPlausiblePhoneBare(input: string): boolean {
   if (!input) return false;
   const digits = input.replace(/\D/g, "");
   return digits.length >= 7 && digits.length <= 15; // ITU E.164 range
 }
 
+// Cached entries hold raw provider facts; the form's policy is applied on the
+// way out so forms with different policies can share them.
 export async function validateEmail(
   email?: string,
-  ip?: string | null
+  ip?: string | null,
+  policy: EmailPolicy = DEFAULT_VALIDATION_POLICY.email
 ): Promise<EmailResult> {
   if (!email?.trim())
     return { valid: false, reason: "empty", confidence: "low" };
@@ -177,9 +118,9 @@ export async function validateEmail(
   const normalizedEmail = email.trim().toLowerCase();
   const cacheKey = `email:${normalizedEmail}`;
 
-  const cached = getCache(cacheKey);
+  const cached = await getCache(cacheKey);
   if (cached) {
-    return {
+    const fromCache: EmailResult = {
       valid: cached.emailValid,
       reason: cached.emailReason,
       confidence: cached.emailConfidence || "unknown",
@@ -188,58 +129,15 @@ export async function validateEmail(
       role: cached.emailRole,
       catchAll: cached.emailCatchAll,
       domain: cached.emailDomain,
+      provider: cached.emailProvider,
     };
+    return applyEmailPolicy(normalizedEmail, fromCache, policy);
   }
 
-  const zbResult = await zerobounceCheck(normalizedEmail, ip);
-
-  // Map ZeroBounce result to EmailResult format
-  const result: EmailResult = {
-    valid: zbResult.valid,
-    reason: zbResult.reason,
-    confidence: zbResult.valid ? "good" : "low",
-    score: zbResult.score || 0,
-    disposable: zbResult.sub_status === "disposable",
-    role: zbResult.sub_status === "role_based",
-    catchAll: zbResult.status === "catch-all",
-    domain: getDomain(normalizedEmail) || undefined,
-  };
-
-  // Apply fallback logic if ZeroBounce returned unknown/timeout
-  let finalResult = result;
-  if (
-    result.valid === null &&
-    (result.reason === "We couldn't verify this email right now." ||
-      result.reason === "Email verification is not configured.")
-  ) {
-    const domain = getDomain(normalizedEmail);
-
-    if (domain) {
-      // Check trusted domains first
-      if (ENABLE_TRUSTED_EMAIL_FALLBACK && TRUSTED_EMAIL_DOMAINS.has(domain)) {
-        finalResult = {
-          valid: true,
-          reason: "provisional_trusted",
-          confidence: "good",
-          domain,
-        };
-      }
-      // Check MX records for other domains
-      else if (ENABLE_MX_FALLBACK && !isRoleEmail(normalizedEmail)) {
-        const hasMxRecords = await hasMx(domain);
-        if (hasMxRecords) {
-          finalResult = {
-            valid: true,
-            reason: "provisional_mx",
-            confidence: "medium",
-            domain,
-          };
-        }
-      }
-    }
-  }
+  // Ordered provider chain (EMAIL_PROVIDERS); falls through on "unknown"
+  const finalResult = await checkEmailWithChain(normalizedEmail, ip);
 
-  setCache(
+  await setCache(
     cacheKey,
     {
       emailValid: finalResult.valid,
@@ -250,16 +148,19 @@ export async function validateEmail(
       emailRole: finalResult.role,
       emailCatchAll: finalResult.catchAll,
       emailDomain: finalResult.domain,
+      emailProvider: finalResult.provider,
     },
-    15 * 60 * 1000
-  ); // 15 minutes
+    // 15 minutes; an all-unknown chain is retried sooner
+    finalResult.valid === null ? 2 * 60 * 1000 : 15 * 60 * 1000
+  );
 
-  return finalResult;
+  return applyEmailPolicy(normalizedEmail, finalResult, policy);
 }
 
 export async function validatePhone(
   phone?: string,
-  country?: string
+  country?: string,
+  policy: PhonePolicy = DEFAULT_VALIDATION_POLICY.phone
 ): Promise<PhoneResult> {
   if (!phone?.trim())
     return { valid: false, reason: "empty", confidence: "low" };
@@ -271,36 +172,31 @@ export async function validatePhone(
   const countryCode = (country || "").toUpperCase();
   const cacheKey = `phone:${countryCode}:${digits}`;
 
-  const cached = getCache(cacheKey);
+  const cached = await getCache(cacheKey);
   if (cached) {
-    return {
+    const fromCache: PhoneResult = {
       valid: cached.phoneValid,
       reason: cached.phoneReason,
       confidence: cached.phoneConfidence || "unknown",
       lineType: cached.phoneLineType,
       country: cached.phoneCountry,
       normalized: cached.normalizedPhone,
+      provider: cached.phoneProvider,
+      softPass: cached.phoneSoftPass,
+      deactivated: cached.phoneDeactivated,
     };
+    return applyPhonePolicy(fromCache, policy);
   }
 
-  // Use PhoneValidator instead of Numverify
-  const phoneResult = await phonevalidatorCheck({
-    phone: normalizedPhone,
-    country: countryCode,
-    timeoutMs: 5000,
-  });
-
-  // Map PhoneValidator result to existing PhoneResult shape
+  // Ordered provider chain (PHONE_PROVIDERS); falls through on "unknown"
+  const chained = await checkPhoneWithChain(normalizedPhone, countryCode);
   const result: PhoneResult = {
-    valid: phoneResult.valid,
-    reason: phoneResult.reason,
-    confidence: phoneResult.ok ? "good" : "unknown",
-    lineType: phoneResult.lineType,
-    country: countryCode,
-    normalized: normalizedPhone,
+    ...chained,
+    country: chained.country || countryCode,
+    normalized: chained.normalized || normalizedPhone,
   };
 
-  setCache(
+  await setCache(
     cacheKey,
     {
       phoneValid: result.valid,
@@ -309,11 +205,15 @@ export async function validatePhone(
       phoneLineType: result.lineType,
       phoneCountry: result.country,
       normalizedPhone: result.normalized,
+      phoneProvider: result.provider,
+      phoneSoftPass: result.softPass,
+      phoneDeactivated: result.deactivated,
     },
-    15 * 60 * 1000
-  ); // 15 minutes
+    // 15 minutes; numbers no provider could decide are retried sooner
+    result.provider ? 15 * 60 * 1000 : 2 * 60 * 1000
+  );
 
-  return result;
+  return applyPhonePolicy(result, policy);
 }
 
 // Combined validation function that includes name validation
@@ -342,12 +242,17 @@ export async function validateCombined(input: {
   firstName?: string;
   lastName?: string;
   ip?: string | null;
+  policy?: ValidationPolicy;
 }): Promise<CombinedResult> {
   const out: CombinedResult = {};
 
   // Email validation
   if (typeof input.email === "string") {
-    const emailResult = await validateEmail(input.email, input.ip);
+    const emailResult = await validateEmail(
+      input.email,
+      input.ip,
+      input.policy?.email
+    );
     out.emailValid =
       emailResult.valid === true
         ? true
@@ -361,7 +266,11 @@ export async function validateCombined(input: {
 
   // Phone validation
   if (typeof input.phone === "string") {
-    const phoneResult = await validatePhone(input.phone, input.country);
+    const phoneResult = await validatePhone(
+      input.phone,
+      input.country,
+      input.policy?.phone
+    );
     out.phoneValid =
       phoneResult.valid === true
         ? true
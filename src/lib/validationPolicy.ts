@@ -0,0 +1,127 @@
+// src/lib/validationPolicy.ts
+// What a form is willing to accept once the providers have reported the
+// facts (line type, role/disposable/catch-all flags...). Global defaults come
+// from config.ts; a form overrides any of them with a `validation` block in
+// registry.json. Providers never apply these rules themselves, so cached
+// provider results can be shared between forms with different policies.
+import {
+  ACCEPT_CATCHALL,
+  BLOCK_DISPOSABLE,
+  BLOCK_ROLE_EMAILS,
+  PHONE_ALLOWED_LINE_TYPES,
+  REJECT_DEACTIVATED_PHONES,
+} from "./config";
+import { isRoleEmail } from "./emailProviders";
+import type { FormValidationDefinition } from "./registrySchema";
+import type {
+  EmailResult,
+  PhoneLineType,
+  PhoneResult,
+} from "./validationTypes";
+
+export type EmailPolicy = {
+  allowRole: boolean;
+  allowDisposable: boolean;
+  allowCatchAll: boolean;
+};
+
+export type PhonePolicy = {
+  allowedLineTypes: PhoneLineType[];
+  rejectDeactivated: boolean;
+};
+
+export type ValidationPolicy = { email: EmailPolicy; phone: PhonePolicy };
+
+export const DEFAULT_VALIDATION_POLICY: ValidationPolicy = {
+  email: {
+    allowRole: !BLOCK_ROLE_EMAILS,
+    allowDisposable: !BLOCK_DISPOSABLE,
+    allowCatchAll: ACCEPT_CATCHALL,
+  },
+  phone: {
+    allowedLineTypes: [...PHONE_ALLOWED_LINE_TYPES],
+    rejectDeactivated: REJECT_DEACTIVATED_PHONES,
+  },
+};
+
+export function resolveValidationPolicy(
+  def?: FormValidationDefinition
+): ValidationPolicy {
+  return {
+    email: { ...DEFAULT_VALIDATION_POLICY.email, ...def?.email },
+    phone: { ...DEFAULT_VALIDATION_POLICY.phone, ...def?.phone },
+  };
+}
+
+// Original PhoneValidator wording for the default mobile-only policy
+const MOBILE_ONLY_REASON: Record<PhoneLineType, string> = {
+  mobile: "Please use a mobile number.",
+  landline: "We need a mobile number (no landlines).",
+  voip: "We need a mobile number (no VoIP).",
+  toll_free: "We need a mobile number (no toll-free).",
+  unknown: "Please use a mobile number.",
+};
+
+const LINE_TYPE_LABEL: Record<PhoneLineType, string> = {
+  mobile: "Mobile",
+  landline: "Landline",
+  voip: "VoIP",
+  toll_free: "Toll-free",
+  unknown: "Unverified",
+};
+
+function lineTypeReason(lt: PhoneLineType, allowed: PhoneLineType[]) {
+  if (allowed.length === 1 && allowed[0] === "mobile")
+    return MOBILE_ONLY_REASON[lt];
+  return `${LINE_TYPE_LABEL[lt]} numbers aren't accepted here.`;
+}
+
+/** Reject otherwise-deliverable addresses the form doesn't accept. */
+export function applyEmailPolicy(
+  email: string,
+  result: EmailResult,
+  policy: EmailPolicy = DEFAULT_VALIDATION_POLICY.email
+): EmailResult {
+  if (result.valid === false) return result;
+  const reject = (reason: string): EmailResult => ({
+    ...result,
+    valid: false,
+    reason,
+    confidence: "low",
+  });
+
+  if (result.disposable && !policy.allowDisposable)
+    return reject("Disposable email addresses aren't allowed.");
+  if ((result.role || isRoleEmail(email)) && !policy.allowRole)
+    return reject(
+      "Role-based addresses (info@, sales@, support@) aren't allowed."
+    );
+  if (result.catchAll && !policy.allowCatchAll)
+    return reject(
+      "This domain accepts all emails; please use a different address."
+    );
+  return result;
+}
+
+/**
+ * Reject numbers whose line type or status the form doesn't accept. Numbers
+ * without a known line type (offline check, soft pass) are left alone.
+ */
+export function applyPhonePolicy(
+  result: PhoneResult,
+  policy: PhonePolicy = DEFAULT_VALIDATION_POLICY.phone
+): PhoneResult {
+  if (result.valid === false) return result;
+  const reject = (reason: string): PhoneResult => ({
+    ...result,
+    valid: false,
+    reason,
+    confidence: "low",
+  });
+
+  if (result.deactivated && policy.rejectDeactivated)
+    return reject("This number appears deactivated.");
+  if (result.lineType && !policy.allowedLineTypes.includes(result.lineType))
+    return reject(lineTypeReason(result.lineType, policy.allowedLineTypes));
+  return result;
+}
@@ -10,13 +10,27 @@ export interface EmailResult {
   role?: boolean;
   catchAll?: boolean;
   domain?: string;
+  provider?: string; // which provider in the chain decided (see emailProviders.ts)
 }
 
+// Provider line types mapped to one vocabulary (see phoneProviders.ts)
+export const PHONE_LINE_TYPES = [
+  "mobile",
+  "landline",
+  "voip",
+  "toll_free",
+  "unknown",
+] as const;
+export type PhoneLineType = (typeof PHONE_LINE_TYPES)[number];
+
 export interface PhoneResult {
   valid: TriValid;
   reason?: string;
-  lineType?: string; // VOIP, mobile, landline, etc.
+  lineType?: PhoneLineType; // undefined when the provider can't tell
+  deactivated?: boolean; // recently disconnected (PhoneValidator)
   confidence: Confidence; // simple mapping; valid true => good, null => unknown, etc.
   country?: string;
   normalized?: string; // E.164 if available
+  provider?: string; // which provider in the chain decided
+  softPass?: boolean; // accepted without a live carrier lookup
 }
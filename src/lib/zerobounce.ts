@@ -63,8 +63,19 @@ function friendlyReason(status?: string, sub?: string, did?: string | null) {
   }
 }
 
+// "unknown" = ZeroBounce could not decide (status unknown, not configured,
+// timeout, network error); callers fall back instead of rejecting.
+export type ZBOutcome = "valid" | "invalid" | "unknown";
+
+const POLICY_SUB_STATUSES = new Set([
+  "disposable",
+  "role_based",
+  "role_based_catch_all",
+]);
+
 export type ZBCheck = {
   valid: boolean;
+  outcome: ZBOutcome;
   status?: string;
   sub_status?: string;
   reason?: string;
@@ -74,20 +85,27 @@ export type ZBCheck = {
 
 export async function zerobounceCheck(
   email?: string,
-  rawIp?: string | null
+  rawIp?: string | null,
+  opts: { timeoutMs?: number } = {}
 ): Promise<ZBCheck> {
   const raw = (email ?? "").trim();
   if (!raw)
-    return { valid: false, reason: "Please enter your email.", score: 0 };
+    return {
+      valid: false,
+      outcome: "invalid",
+      reason: "Please enter your email.",
+      score: 0,
+    };
 
   const key = `zb:${REGION}:${raw}`;
-  const cached = getCache<ZBCheck>(key);
+  const cached = await getCache<ZBCheck>(key);
   if (cached) return cached;
 
   const apiKey = process.env.ZB_API_KEY;
   if (!apiKey)
     return {
       valid: false,
+      outcome: "unknown",
       reason: "Email verification is not configured.",
       score: 0,
     };
@@ -99,10 +117,12 @@ export async function zerobounceCheck(
     60,
     Math.max(3, Number(process.env.ZB_API_TIMEOUT_SECONDS ?? 8))
   );
-  const localTimeoutMs = Math.max(
-    apiTimeoutSec * 1000,
-    Number(process.env.ZB_LOCAL_TIMEOUT_MS ?? 10000)
-  );
+  const localTimeoutMs =
+    opts.timeoutMs ??
+    Math.max(
+      apiTimeoutSec * 1000,
+      Number(process.env.ZB_LOCAL_TIMEOUT_MS ?? 10000)
+    );
 
   const activity = String(process.env.ZB_ACTIVITY_DATA ?? "false") === "true";
   const verifyPlus = String(process.env.ZB_VERIFY_PLUS ?? "false") === "true";
@@ -126,32 +146,47 @@ export async function zerobounceCheck(
     const sub = String(data.sub_status || "").toLowerCase();
     const did = data.did_you_mean ?? null;
 
-    // accept only "valid" unless flags are set
-    const acceptCatchAll =
-      String(process.env.ZB_ACCEPT_CATCHALL || "false") === "true";
     const acceptUnknown =
       String(process.env.ZB_ACCEPT_UNKNOWN || "false") === "true";
 
+    // Deliverable-but-risky addresses (catch-all, role, disposable) come back
+    // valid with flags; the form's validation policy decides on them.
+    const policyDecides =
+      status === "catch-all" ||
+      (status === "do_not_mail" && POLICY_SUB_STATUSES.has(sub));
+
     const isValid =
       status === "valid" ||
-      (status === "catch-all" && acceptCatchAll) ||
+      policyDecides ||
       (status === "unknown" && acceptUnknown);
+    const outcome: ZBOutcome = isValid
+      ? "valid"
+      : status === "unknown" || !status
+      ? "unknown"
+      : "invalid";
 
     const out: ZBCheck = {
-      valid: status === "valid",
+      valid: isValid,
+      outcome,
       status,
       sub_status: sub,
-      reason: friendlyReason(status, sub, did),
+      reason: isValid ? undefined : friendlyReason(status, sub, did),
       score: status === "valid" ? 1 : 0,
       suggestion: did || undefined,
     };
 
-    // cache: 15m for valid, 5m for others
-    setCache(key, out, out.valid ? 15 * 60 * 1000 : 5 * 60 * 1000);
+    // cache: 15m for valid, 5m for invalid; unknowns are retried next time
+    if (outcome !== "unknown")
+      await setCache(
+        key,
+        out,
+        out.valid ? 15 * 60 * 1000 : 5 * 60 * 1000
+      );
     return out;
   } catch {
     return {
       valid: false,
+      outcome: "unknown",
       reason: "We couldn't verify this email right now.",
       score: 0,
     };